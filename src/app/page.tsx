@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Toaster } from 'react-hot-toast';
+import { Toaster, toast } from 'react-hot-toast';
+import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import Logo from '@/components/Logo';
 import Stepper from '@/components/Stepper';
@@ -9,58 +10,158 @@ import Stage1 from '@/components/Stage1';
 import Stage2 from '@/components/Stage2';
 import Stage3 from '@/components/Stage3';
 import InactivityModal from '@/components/InactivityModal';
+import BackupRestore from '@/components/BackupRestore';
+import AuditTimeline from '@/components/AuditTimeline';
+import RecycleBin from '@/components/RecycleBin';
+import UndoRedoControls from '@/components/UndoRedoControls';
+import VaultSettings from '@/components/VaultSettings';
+import VaultUnlockScreen from '@/components/VaultUnlockScreen';
+import LockScreen from '@/components/LockScreen';
+import StorageFallbackBanner from '@/components/StorageFallbackBanner';
+import StoragePanel from '@/components/StoragePanel';
+import RetentionSettings from '@/components/RetentionSettings';
+import RetentionSnapshots from '@/components/RetentionSnapshots';
+import RetentionNotice from '@/components/RetentionNotice';
 import SessionManager from '@/lib/sessionManager';
-import indexedDBService from '@/lib/indexedDB';
+import { takeRetentionSnapshot } from '@/lib/retentionSnapshot';
+import retentionPolicy, { DEFAULT_RETENTION_POLICY, type RetentionPolicy } from '@/lib/retentionPolicy';
+import indexedDBService, { type VaultStatus } from '@/lib/indexedDB';
+import appLock from '@/lib/appLock';
+import undoManager from '@/lib/undoManager';
+import { requestPersistentStorage, watchStorageQuota } from '@/lib/storageQuota';
+
+const PERSISTENCE_WARNING_KEY = 'carbon-hub-persistence-warning';
+// Long enough to read the confirmation before the page reloads
+const RELOAD_DELAY_MS = 1500;
 
 export default function Home() {
   const t = useTranslations();
   const [currentStage, setCurrentStage] = useState(1);
   const [sessionManager, setSessionManager] = useState<SessionManager | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [modalTimeRemaining, setModalTimeRemaining] = useState(0);
-  const [inactivityMinutes, setInactivityMinutes] = useState(20);
-  const [modalMinutes, setModalMinutes] = useState(10);
+  // When the data is wiped if the inactivity warning goes unanswered
+  const [warningDeadline, setWarningDeadline] = useState(0);
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [isPolicyPinned, setIsPolicyPinned] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  // null until the vault settings have been read from the database
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
 
   useEffect(() => {
     // Initialize session manager
-    const manager = new SessionManager();
+    const manager = new SessionManager(retentionPolicy.getPolicy());
     setSessionManager(manager);
-
-    // Get configuration values for display
-    setInactivityMinutes(Math.floor(manager.getInactivityTimeout() / (60 * 1000)));
-    setModalMinutes(Math.floor(manager.getModalTimeout() / (60 * 1000)));
+    setPolicy(manager.getPolicy());
 
     // Set up callbacks
     manager.setInactivityWarningCallback(() => {
       setIsModalOpen(true);
-      setModalTimeRemaining(manager.getModalTimeRemaining());
+      setWarningDeadline(manager.getWarningDeadline());
     });
 
-    manager.setDataCleanupCallback(async () => {
-      try {
-        await indexedDBService.clearAllData();
-        // Refresh the page to reset all forms
-        window.location.reload();
-      } catch (error) {
-        console.error('Error clearing data:', error);
-      }
+    manager.setDataCleanupCallback(async (trigger) => {
+      // Every workspace is wiped. Each keeps an encrypted copy first when
+      // its snapshots are turned on; the wipe still goes ahead if that
+      // fails, since it is there for privacy.
+      await indexedDBService.clearEveryWorkspace(trigger, async (service) => {
+        try {
+          await takeRetentionSnapshot(service);
+        } catch (error) {
+          console.error('Error taking retention snapshot:', error);
+        }
+      });
+    });
+
+    // Refresh the page to reset all forms, once the confirmation has been seen
+    manager.setDataClearedCallback(() => {
+      setTimeout(() => window.location.reload(), RELOAD_DELAY_MS);
+    });
+
+    // Activity in another tab ended the warning shown here
+    manager.setWarningDismissedCallback(() => {
+      setIsModalOpen(false);
+    });
+
+    // Another tab cleared the data: start over with empty forms
+    manager.setRemoteCleanupCallback(() => {
+      window.location.reload();
+    });
+
+    // Lock-only policy: hide everything behind the lock screen and drop the
+    // decrypted state. Without a PIN or vault there is nothing to unlock
+    // with, so the data is deleted after the warning instead.
+    manager.setCanLockCallback(() => appLock.hasPin() || indexedDBService.isVaultEnabled());
+    manager.setLockCallback(() => {
+      indexedDBService.lockVault();
+      undoManager.clear();
+      setIsLocked(true);
+      setIsModalOpen(false);
+    });
+    setIsLocked(manager.isLocked());
+
+    // Follow policy changes from the settings panel, other tabs and the
+    // administrator's pinned policy file
+    const unsubscribe = retentionPolicy.onChange((nextPolicy, source) => {
+      manager.applyPolicy(nextPolicy);
+      setPolicy(nextPolicy);
+      setIsPolicyPinned(source === 'pinned');
+      setIsModalOpen(false);
     });
+    retentionPolicy.loadPinnedPolicy();
 
     // Cleanup on unmount
     return () => {
+      unsubscribe();
       manager.destroy();
     };
   }, []);
 
+  // Surface database schema upgrades, including failed ones
   useEffect(() => {
-    if (isModalOpen && sessionManager) {
-      const interval = setInterval(() => {
-        setModalTimeRemaining(sessionManager.getModalTimeRemaining());
-      }, 1000);
+    return indexedDBService.onMigrationProgress((progress) => {
+      if (progress.status === 'running') {
+        toast.loading(t('migration.running', {
+          toVersion: progress.toVersion,
+          completed: progress.completed + 1,
+          total: progress.total,
+          description: progress.description
+        }), { id: 'db-migration' });
+      } else if (progress.status === 'completed') {
+        // A brand new database has nothing to upgrade, so stay quiet
+        if (progress.fromVersion > 0) {
+          toast.success(t('migration.completed', { toVersion: progress.toVersion }), { id: 'db-migration' });
+        } else {
+          toast.dismiss('db-migration');
+        }
+      } else {
+        toast.error(t('migration.failed', {
+          version: progress.currentVersion ?? progress.toVersion,
+          error: progress.error ?? t('common.unknownError')
+        }), { id: 'db-migration', duration: Infinity });
+      }
+    });
+  }, [t]);
 
-      return () => clearInterval(interval);
-    }
-  }, [isModalOpen, sessionManager]);
+  useEffect(() => {
+    return indexedDBService.onVaultStatusChange(setVaultStatus);
+  }, []);
+
+  // Ask the browser not to evict the data, and warn when it still might
+  useEffect(() => {
+    requestPersistentStorage().then((status) => {
+      // Browsers refuse silently on every visit, so only say so once a session
+      if (status === 'denied' && !sessionStorage.getItem(PERSISTENCE_WARNING_KEY)) {
+        sessionStorage.setItem(PERSISTENCE_WARNING_KEY, 'shown');
+        toast(t('storage.toast.persistenceDenied'), { icon: '⚠️', duration: 8000 });
+      }
+    });
+
+    return watchStorageQuota((quota) => {
+      toast.error(t('storage.toast.nearLimit', {
+        percent: Math.round((quota.usage / quota.quota) * 100)
+      }), { id: 'storage-quota', duration: 10000 });
+    });
+  }, [t]);
 
   const handleStageClick = (stage: number) => {
     setCurrentStage(stage);
@@ -81,21 +182,29 @@ export default function Home() {
 
   const handleClearData = async () => {
     if (sessionManager) {
-      sessionManager.cleanupData();
+      await sessionManager.cleanupData('manual');
       setIsModalOpen(false);
     }
   };
 
+  // Nothing that shows records is mounted while the app is locked
+  const isDataVisible = !isLocked && (vaultStatus === 'disabled' || vaultStatus === 'unlocked');
+
+  const handleUnlock = () => {
+    sessionManager?.unlock();
+    setIsLocked(false);
+  };
+
   const renderCurrentStage = () => {
     switch (currentStage) {
       case 1:
-        return <Stage1 onNext={handleNext} />;
+        return <Stage1 onNext={handleNext} canSort={vaultStatus === 'disabled'} />;
       case 2:
-        return <Stage2 onNext={handleNext} />;
+        return <Stage2 onNext={handleNext} canSort={vaultStatus === 'disabled'} />;
       case 3:
         return <Stage3 />;
       default:
-        return <Stage1 onNext={handleNext} />;
+        return <Stage1 onNext={handleNext} canSort={vaultStatus === 'disabled'} />;
     }
   };
 
@@ -104,25 +213,49 @@ export default function Home() {
       <Toaster position="top-right" />
       <div className="container">
         <Logo />
+        <StorageFallbackBanner />
         <Stepper currentStage={currentStage} onStageClick={handleStageClick} />
+        {vaultStatus !== 'locked' && !isLocked && (
+          <UndoRedoControls />
+        )}
         <main className="main-content">
-          {renderCurrentStage()}
+          {vaultStatus === 'locked' && !isLocked && <VaultUnlockScreen />}
+          {isDataVisible && renderCurrentStage()}
         </main>
+
+        {/* Data Tools */}
+        {isDataVisible && (
+          <section className="data-tools">
+            <VaultSettings status={vaultStatus} />
+            <RetentionSettings vaultStatus={vaultStatus} />
+            <RetentionSnapshots />
+            <BackupRestore />
+            <StoragePanel />
+            <RecycleBin />
+            <AuditTimeline />
+          </section>
+        )}
         
         {/* Data Retention Notice */}
         <div className="data-retention-notice">
           <p>
-            <strong>{t('dataRetention.note')}</strong> {t('dataRetention.description', { inactivityMinutes, modalMinutes })}
+            <RetentionNotice policy={policy} isPinned={isPolicyPinned} />
+            {' '}<Link href="/privacy/">{t('privacyReport.link')}</Link>
           </p>
         </div>
       </div>
 
+      {/* Lock Screen */}
+      {isLocked && <LockScreen vaultStatus={vaultStatus} onUnlock={handleUnlock} />}
+
       {/* Inactivity Modal */}
       <InactivityModal
         isOpen={isModalOpen}
         onExtendSession={handleExtendSession}
         onClearData={handleClearData}
-        timeRemaining={modalTimeRemaining}
+        deadline={warningDeadline}
+        inactivityMinutes={policy.inactivityMinutes}
+        warningMinutes={policy.warningMinutes}
       />
     </div>
   );
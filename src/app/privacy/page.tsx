@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { Toaster } from 'react-hot-toast';
+import Logo from '@/components/Logo';
+import PrivacyReport from '@/components/PrivacyReport';
+
+export default function PrivacyPage() {
+  return (
+    <div className="app">
+      <Toaster position="top-right" />
+      <div className="container">
+        <Logo />
+        <main className="main-content">
+          <PrivacyReport />
+        </main>
+      </div>
+    </div>
+  );
+}
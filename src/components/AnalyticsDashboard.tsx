@@ -5,7 +5,10 @@ import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Toolti
 import { toast } from 'react-hot-toast';
 import { useTranslations } from 'next-intl';
 import indexedDBService from '@/lib/indexedDB';
-import type { ReportingActivity, EmissionFactor } from '@/lib/indexedDB';
+import type { DataChange } from '@/lib/indexedDB';
+import type { ReportingActivity, EmissionFactor } from '@/domain';
+import workspaceManager from '@/lib/workspaces';
+import { mergeChangedRecords } from '@/lib/dataEvents';
 import ChartBuilder from './ChartBuilder';
 import ChartGrid from './ChartGrid';
 import { ChartConfig } from '../types/analytics';
@@ -15,6 +18,9 @@ ChartJS.register(
   ArcElement, PointElement, LineElement, LineController
 );
 
+// Larger changes (imports, recalculation) are cheaper to pick up with one full read
+const INCREMENTAL_REFRESH_LIMIT = 100;
+
 const AnalyticsDashboard: React.FC = () => {
   const t = useTranslations();
   const [activities, setActivities] = useState<ReportingActivity[]>([]);
@@ -45,7 +51,7 @@ const AnalyticsDashboard: React.FC = () => {
 
   const loadSavedCharts = useCallback(() => {
     try {
-      const savedCharts = localStorage.getItem('carbon-hub-charts');
+      const savedCharts = localStorage.getItem(workspaceManager.getChartsStorageKey());
       if (savedCharts) {
         const parsedCharts = JSON.parse(savedCharts);
         setCharts(parsedCharts);
@@ -61,7 +67,7 @@ const AnalyticsDashboard: React.FC = () => {
 
   const saveCharts = useCallback((chartsToSave: ChartConfig[]) => {
     try {
-      localStorage.setItem('carbon-hub-charts', JSON.stringify(chartsToSave));
+      localStorage.setItem(workspaceManager.getChartsStorageKey(), JSON.stringify(chartsToSave));
       setCharts(chartsToSave);
     } catch (error) {
       console.error('Error saving charts:', error);
@@ -103,6 +109,37 @@ const AnalyticsDashboard: React.FC = () => {
     applyFilters();
   }, [activities, applyFilters]);
 
+  // Keep the charts current as records change, here or in another tab
+  useEffect(() => {
+    const handleChange = async (change: DataChange) => {
+      if (change.type === 'reset' || change.ids.length > INCREMENTAL_REFRESH_LIMIT) {
+        fetchData();
+        return;
+      }
+
+      try {
+        if (change.storeName === 'reporting_activities') {
+          const changed = change.type === 'delete' ? [] : await Promise.all(
+            change.ids.map(id => indexedDBService.getReportingActivity(id as string))
+          );
+          const found = changed.filter((activity): activity is ReportingActivity => activity !== null);
+          setActivities(prev => mergeChangedRecords(prev, change, found));
+        } else {
+          const changed = change.type === 'delete' ? [] : await Promise.all(
+            change.ids.map(id => indexedDBService.getEmissionFactor(id as string))
+          );
+          const found = changed.filter((factor): factor is EmissionFactor => factor !== null);
+          setEmissionFactors(prev => mergeChangedRecords(prev, change, found));
+        }
+      } catch (error) {
+        console.error('Error applying data change:', error);
+        fetchData();
+      }
+    };
+
+    return indexedDBService.onDataChange(['reporting_activities', 'emission_factors'], handleChange);
+  }, []);
+
   const addChart = (chartConfig: ChartConfig) => {
     const newChart = {
       ...chartConfig,
@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { FaDownload, FaFileExcel, FaFilePdf, FaPaperclip, FaTimes, FaTrash } from 'react-icons/fa';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import { fileToAttachment } from '@/lib/attachments';
+import { formatBytes } from '@/lib/storageQuota';
+import type { RecordId } from '@/lib/ids';
+import {
+  ATTACHMENT_EXTENSIONS,
+  MAX_ATTACHMENT_BYTES,
+  attachmentKind,
+  type Attachment,
+  type AttachmentOwnerStore
+} from '@/domain';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+
+interface AttachmentManagerProps {
+  ownerStore: AttachmentOwnerStore;
+  ownerId: RecordId;
+  disabled?: boolean;
+}
+
+// Evidence files (bills, invoices, meter photos) for one activity or emission
+// factor. Images and PDFs can be previewed; spreadsheets are downloaded.
+const AttachmentManager: React.FC<AttachmentManagerProps> = ({
+  ownerStore,
+  ownerId,
+  disabled = false
+}) => {
+  const t = useTranslations();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [objectUrls, setObjectUrls] = useState<Record<RecordId, string>>({});
+  const [preview, setPreview] = useState<Attachment | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<Attachment | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await indexedDBService.getAttachments(ownerStore, ownerId));
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+      toast.error(t('attachments.toast.loadFailed'));
+    }
+  }, [ownerStore, ownerId, t]);
+
+  useEffect(() => {
+    loadAttachments();
+    return indexedDBService.onDataChange(['attachments'], () => {
+      loadAttachments();
+    });
+  }, [loadAttachments]);
+
+  // Object URLs for thumbnails, previews and downloads, released when the
+  // list changes
+  useEffect(() => {
+    const urls: Record<RecordId, string> = {};
+    attachments.forEach(attachment => {
+      urls[attachment._id!] = URL.createObjectURL(attachment.data);
+    });
+    setObjectUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [attachments]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const accepted: File[] = [];
+    for (const file of Array.from(files)) {
+      if (!attachmentKind(file.name)) {
+        toast.error(t('attachments.toast.unsupportedType', { name: file.name }));
+      } else if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast.error(t('attachments.toast.tooLarge', { name: file.name, max: formatBytes(MAX_ATTACHMENT_BYTES) }));
+      } else {
+        accepted.push(file);
+      }
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (accepted.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      await indexedDBService.addAttachments(
+        accepted.map(file => fileToAttachment(file, ownerStore, ownerId))
+      );
+      toast.success(t('attachments.toast.added', { count: accepted.length }));
+    } catch (error) {
+      console.error('Error adding attachments:', error);
+      toast.error(t('attachments.toast.addFailed'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return;
+    try {
+      await indexedDBService.deleteAttachment(pendingRemoval._id!);
+      toast.success(t('attachments.toast.removed', { name: pendingRemoval.name }));
+    } catch (error) {
+      console.error('Error removing attachment:', error);
+      toast.error(t('attachments.toast.removeFailed'));
+    } finally {
+      setPendingRemoval(null);
+    }
+  };
+
+  const renderThumbnail = (attachment: Attachment) => {
+    const kind = attachmentKind(attachment.name);
+    if (kind === 'image' && objectUrls[attachment._id!]) {
+      return <Image src={objectUrls[attachment._id!]} alt={attachment.name} width={48} height={48} />;
+    }
+    return kind === 'pdf' ? <FaFilePdf /> : <FaFileExcel />;
+  };
+
+  const canPreview = (attachment: Attachment) => attachmentKind(attachment.name) !== 'spreadsheet';
+
+  return (
+    <div className="form-section attachments">
+      <h4 className="section-title">
+        <FaPaperclip /> {t('attachments.title')}
+      </h4>
+      <p className="form-help">
+        {t('attachments.description', { max: formatBytes(MAX_ATTACHMENT_BYTES) })}
+      </p>
+
+      {attachments.length === 0 ? (
+        <p className="form-help">{t('attachments.empty')}</p>
+      ) : (
+        <ul className="attachment-list">
+          {attachments.map(attachment => (
+            <li key={attachment._id} className="attachment-item">
+              <button
+                type="button"
+                className="attachment-thumbnail"
+                onClick={() => canPreview(attachment) && setPreview(attachment)}
+                disabled={!canPreview(attachment)}
+                title={canPreview(attachment) ? t('attachments.preview') : attachment.name}
+              >
+                {renderThumbnail(attachment)}
+              </button>
+              <div className="attachment-details">
+                <span className="attachment-name">{attachment.name}</span>
+                <span className="form-help">
+                  {formatBytes(attachment.size)} · {new Date(attachment.addedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="attachment-actions">
+                <a
+                  className="btn btn-small btn-secondary"
+                  href={objectUrls[attachment._id!]}
+                  download={attachment.name}
+                  title={t('attachments.download')}
+                >
+                  <FaDownload />
+                </a>
+                <button
+                  type="button"
+                  className="btn btn-small btn-danger"
+                  onClick={() => setPendingRemoval(attachment)}
+                  title={t('attachments.remove')}
+                  disabled={disabled}
+                >
+                  <FaTrash />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_EXTENSIONS.join(',')}
+        onChange={(e) => handleFiles(e.target.files)}
+        style={{ display: 'none' }}
+        aria-label={t('attachments.add')}
+      />
+      <button
+        type="button"
+        className="btn btn-small btn-secondary"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isUploading}
+      >
+        <FaPaperclip /> {isUploading ? t('attachments.uploading') : t('attachments.add')}
+      </button>
+
+      {preview && (
+        <div className="modal-overlay" onClick={() => setPreview(null)}>
+          <div className="modal-content attachment-preview" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h3 className="modal-title">{preview.name}</h3>
+              <button
+                type="button"
+                className="btn btn-small btn-secondary"
+                onClick={() => setPreview(null)}
+                aria-label={t('common.close')}
+              >
+                <FaTimes />
+              </button>
+            </div>
+            <div className="modal-body">
+              {attachmentKind(preview.name) === 'pdf' ? (
+                <iframe src={objectUrls[preview._id!]} title={preview.name} />
+              ) : (
+                // Shown at its own size, up to the limits in the stylesheet
+                <Image src={objectUrls[preview._id!]} alt={preview.name} width={0} height={0} sizes="90vw" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DeleteConfirmationModal
+        isOpen={pendingRemoval !== null}
+        onClose={() => setPendingRemoval(null)}
+        onConfirm={handleRemove}
+        title={t('attachments.removeTitle')}
+        message={t('attachments.removeMessage', { name: pendingRemoval?.name ?? '' })}
+        confirmText={t('attachments.remove')}
+        cancelText={t('common.cancel')}
+      />
+    </div>
+  );
+};
+
+export default AttachmentManager;
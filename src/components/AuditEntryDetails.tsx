@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import { diffRecords, describeAuditRecord, type AuditEntry } from '@/lib/audit';
+
+interface AuditEntryDetailsProps {
+  entry: AuditEntry;
+  showRecord?: boolean;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditEntryDetails: React.FC<AuditEntryDetailsProps> = ({ entry, showRecord = false }) => {
+  const t = useTranslations();
+  const changes = diffRecords(entry.before, entry.after);
+
+  const getFieldLabel = (field: string) => {
+    const key = entry.storeName === 'reporting_activities'
+      ? `stage2.formLabels.${field}`
+      : `stage1.formLabels.${field}`;
+    if (t.has(key)) return t(key);
+    if (t.has(`audit.fields.${field}`)) return t(`audit.fields.${field}`);
+    return field;
+  };
+
+  return (
+    <div className={`audit-entry audit-entry-${entry.action}`}>
+      <div className="audit-entry-header">
+        <span className="audit-entry-action">{t(`audit.actions.${entry.action}`)}</span>
+        {showRecord && (
+          <span className="audit-entry-record">
+            {t(`audit.stores.${entry.storeName}`)}: {describeAuditRecord(entry)}
+          </span>
+        )}
+        <span className="audit-entry-meta">
+          {t('audit.byActor', { actor: entry.actor, date: new Date(entry.timestamp).toLocaleString() })}
+        </span>
+      </div>
+
+      {entry.action === 'update' && (
+        changes.length === 0 ? (
+          <p className="audit-entry-empty">{t('audit.noChanges')}</p>
+        ) : (
+          <table className="audit-changes">
+            <thead>
+              <tr>
+                <th>{t('audit.field')}</th>
+                <th>{t('audit.before')}</th>
+                <th>{t('audit.after')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.field}>
+                  <td>{getFieldLabel(change.field)}</td>
+                  <td className="audit-value-before">{formatValue(change.before)}</td>
+                  <td className="audit-value-after">{formatValue(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      )}
+    </div>
+  );
+};
+
+export default AuditEntryDetails;
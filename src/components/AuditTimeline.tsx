@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type AuditEntry, type AuditedStore } from '@/lib/indexedDB';
+import { getAuditActor, setAuditActor } from '@/lib/audit';
+import AuditEntryDetails from './AuditEntryDetails';
+
+const PAGE_SIZE = 20;
+
+const AuditTimeline: React.FC = () => {
+  const t = useTranslations();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [storeFilter, setStoreFilter] = useState<AuditedStore | ''>('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [actor, setActor] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await indexedDBService.getAuditLog());
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setActor(getAuditActor());
+    fetchEntries();
+  }, []);
+
+  const filteredEntries = storeFilter
+    ? entries.filter((entry) => entry.storeName === storeFilter)
+    : entries;
+
+  return (
+    <div className="form-section audit-timeline">
+      <h3 className="section-title">{t('audit.title')}</h3>
+      <p className="form-help">{t('audit.description')}</p>
+
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="audit-actor">{t('audit.actorLabel')}</label>
+          <input
+            id="audit-actor"
+            type="text"
+            className="form-input"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            onBlur={() => setAuditActor(actor)}
+          />
+          <p className="form-help">{t('audit.actorHelp')}</p>
+        </div>
+        <div className="form-group">
+          <label htmlFor="audit-filter">{t('audit.filterLabel')}</label>
+          <select
+            id="audit-filter"
+            className="form-input"
+            value={storeFilter}
+            onChange={(e) => setStoreFilter(e.target.value as AuditedStore | '')}
+          >
+            <option value="">{t('audit.allRecords')}</option>
+            <option value="emission_factors">{t('audit.stores.emission_factors')}</option>
+            <option value="reporting_activities">{t('audit.stores.reporting_activities')}</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="form-actions">
+        <button type="button" className="btn btn-secondary" onClick={fetchEntries} disabled={isLoading}>
+          {t('common.refresh')}
+        </button>
+      </div>
+
+      {filteredEntries.length === 0 ? (
+        <p className="form-help">{isLoading ? t('common.loading') : t('audit.noHistory')}</p>
+      ) : (
+        <div className="audit-entries">
+          {filteredEntries.slice(0, visibleCount).map((entry) => (
+            <AuditEntryDetails key={entry._id} entry={entry} showRecord />
+          ))}
+          {filteredEntries.length > visibleCount && (
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+            >
+              {t('audit.showMore', { count: filteredEntries.length - visibleCount })}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditTimeline;
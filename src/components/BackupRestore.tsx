@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import {
+  createBackup,
+  downloadBackup,
+  parseBackup,
+  restoreBackup,
+  BackupError,
+  type BackupEnvelope
+} from '@/lib/backup';
+import type { ImportMode } from '@/lib/indexedDB';
+
+const BackupRestore: React.FC = () => {
+  const t = useTranslations();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<BackupEnvelope | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await createBackup();
+      downloadBackup(backup);
+      toast.success(t('backup.toast.exported'));
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error(t('backup.toast.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input value to allow selecting the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    setErrorMsg('');
+    setPendingBackup(null);
+    try {
+      const backup = await parseBackup(await file.text());
+      setPendingBackup(backup);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setErrorMsg(error instanceof BackupError ? error.message : t('backup.invalidFile'));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+
+    setIsRestoring(true);
+    try {
+      const summary = await restoreBackup(pendingBackup, mode);
+      toast.success(t('backup.toast.restored', {
+        factors: summary.factorsAdded,
+        activities: summary.activitiesAdded,
+        attachments: summary.attachmentsAdded
+      }));
+      if (summary.unresolvedReferences > 0) {
+        toast.error(t('backup.toast.unresolvedReferences', { count: summary.unresolvedReferences }), { duration: 8000 });
+      }
+      setPendingBackup(null);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(t('backup.toast.restoreFailed'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="form-section backup-restore">
+      <h3 className="section-title">{t('backup.title')}</h3>
+      <p className="form-help">{t('backup.description')}</p>
+
+      <div className="form-actions">
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? t('backup.exporting') : t('backup.exportButton')}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRestoring}
+        >
+          {t('backup.chooseFile')}
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          ref={fileInputRef}
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+      {pendingBackup && (
+        <div className="backup-preview">
+          <ul className="backup-summary">
+            <li>{t('backup.summary.createdAt', { date: new Date(pendingBackup.createdAt).toLocaleString() })}</li>
+            <li>{t('backup.summary.versions', { appVersion: pendingBackup.appVersion, schemaVersion: pendingBackup.schemaVersion })}</li>
+            <li>{t('backup.summary.counts', {
+              factors: pendingBackup.data.emission_factors.length,
+              activities: pendingBackup.data.reporting_activities.length
+            })}</li>
+          </ul>
+
+          <fieldset className="backup-mode">
+            <legend>{t('backup.modeLabel')}</legend>
+            <label>
+              <input
+                type="radio"
+                name="backup-mode"
+                value="merge"
+                checked={mode === 'merge'}
+                onChange={() => setMode('merge')}
+              />
+              <span><strong>{t('backup.modes.merge')}</strong> {t('backup.modes.mergeHelp')}</span>
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="backup-mode"
+                value="replace"
+                checked={mode === 'replace'}
+                onChange={() => setMode('replace')}
+              />
+              <span><strong>{t('backup.modes.replace')}</strong> {t('backup.modes.replaceHelp')}</span>
+            </label>
+          </fieldset>
+
+          <div className="form-actions">
+            <button
+              type="button"
+              className={`btn ${mode === 'replace' ? 'btn-danger' : 'btn-primary'}`}
+              onClick={handleRestore}
+              disabled={isRestoring}
+            >
+              {isRestoring ? t('backup.restoring') : t('backup.restoreButton')}
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => setPendingBackup(null)}
+              disabled={isRestoring}
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -5,7 +5,7 @@ import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Toolti
 import { Bar, Line, Pie, Doughnut } from 'react-chartjs-2';
 import { useTranslations } from 'next-intl';
 import type { ChartConfig, ChartData, FilterConfig } from '../types/analytics';
-import type { ReportingActivity } from '@/lib/indexedDB';
+import { activityValue, type ReportingActivity } from '@/domain';
 
 ChartJS.register(
   CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend,
@@ -48,7 +48,7 @@ const ChartGrid: React.FC<ChartGridProps> = ({
     let filtered = [...data];
     filters.forEach(filter => {
       filtered = filtered.filter(activity => {
-        const fieldValue = (activity as unknown as Record<string, unknown>)[filter.field];
+        const fieldValue = activityValue(activity, filter.field);
         
         if (typeof fieldValue === 'string') {
           return fieldValue.toLowerCase().includes(filter.value.toLowerCase());
@@ -150,8 +150,8 @@ const ChartGrid: React.FC<ChartGridProps> = ({
     const groupedData = new Map<string, number>();
     
     filteredData.forEach(activity => {
-      const xValue = String((activity as unknown as Record<string, unknown>)[chartConfig.xAxis] || 'Unknown');
-      const yValue = Number((activity as unknown as Record<string, unknown>)[chartConfig.yAxis] || 0);
+      const xValue = String(activityValue(activity, chartConfig.xAxis) || 'Unknown');
+      const yValue = Number(activityValue(activity, chartConfig.yAxis) || 0);
       
       if (groupedData.has(xValue)) {
         groupedData.set(xValue, groupedData.get(xValue)! + yValue);
@@ -178,8 +178,8 @@ const ChartGrid: React.FC<ChartGridProps> = ({
   const processDatePeriodData = (chartConfig: ChartConfig, data: ReportingActivity[]): ChartData => {
     // Sort data by date
     const sortedData = data.sort((a, b) => {
-      const dateA = new Date((a as unknown as Record<string, unknown>)[chartConfig.xAxis] as string);
-      const dateB = new Date((b as unknown as Record<string, unknown>)[chartConfig.xAxis] as string);
+      const dateA = new Date(String(activityValue(a, chartConfig.xAxis)));
+      const dateB = new Date(String(activityValue(b, chartConfig.xAxis)));
       return dateA.getTime() - dateB.getTime();
     });
 
@@ -187,11 +187,11 @@ const ChartGrid: React.FC<ChartGridProps> = ({
     const dateGroups = new Map<string, number>();
     
     sortedData.forEach(activity => {
-      const dateValue = (activity as unknown as Record<string, unknown>)[chartConfig.xAxis];
-      const yValue = Number((activity as unknown as Record<string, unknown>)[chartConfig.yAxis] || 0);
+      const dateValue = activityValue(activity, chartConfig.xAxis);
+      const yValue = Number(activityValue(activity, chartConfig.yAxis) || 0);
       
       if (dateValue) {
-        const dateKey = new Date(dateValue as string).toLocaleDateString();
+        const dateKey = new Date(dateValue).toLocaleDateString();
         if (dateGroups.has(dateKey)) {
           dateGroups.set(dateKey, dateGroups.get(dateKey)! + yValue);
         } else {
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  parseCustomValue,
+  type CustomFieldDefinition,
+  type CustomFieldValue
+} from '@/domain';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: Record<string, CustomFieldValue> | undefined;
+  errors: Record<string, string | null>;
+  onChange: (field: CustomFieldDefinition, value: CustomFieldValue | undefined) => void;
+  onBlur?: (field: CustomFieldDefinition) => void;
+  // Keeps input ids unique when the form appears twice on a page
+  idPrefix: string;
+}
+
+// Inputs for the user-defined emission factor fields, one per field by type
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({
+  fields,
+  values,
+  errors,
+  onChange,
+  onBlur,
+  idPrefix
+}) => {
+  const t = useTranslations();
+
+  if (fields.length === 0) return null;
+
+  const textOf = (value: CustomFieldValue | undefined) =>
+    value === undefined || (typeof value === 'number' && Number.isNaN(value)) ? '' : String(value);
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const id = `${idPrefix}-${field.key}`;
+    const common = {
+      id,
+      name: field.key,
+      value: textOf(values?.[field.key]),
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+        onChange(field, parseCustomValue(field, e.target.value)),
+      onBlur: () => onBlur?.(field),
+      required: field.required,
+      className: `form-input ${errors[field.key] ? 'form-input-error' : ''}`
+    };
+
+    switch (field.type) {
+      case 'enum':
+        return (
+          <select {...common}>
+            <option value="">{t('customFields.selectOption')}</option>
+            {(field.validation?.enumOptions ?? []).map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            {...common}
+            type="number"
+            step="any"
+            min={field.validation?.min}
+            max={field.validation?.max}
+            placeholder={String(field.example ?? '')}
+          />
+        );
+      case 'date':
+        return <input {...common} type="date" />;
+      default:
+        return <input {...common} type="text" placeholder={String(field.example ?? '')} />;
+    }
+  };
+
+  return (
+    <div className="form-section">
+      <h3 className="section-title">{t('customFields.inputTitle')}</h3>
+      <div className="form-grid">
+        {fields.map((field) => (
+          <div className="form-group" key={field.key}>
+            <label htmlFor={`${idPrefix}-${field.key}`}>{field.label}</label>
+            {renderInput(field)}
+            {errors[field.key] && (
+              <div className="form-error-message">{errors[field.key]}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldInputs;
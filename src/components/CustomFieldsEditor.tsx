@@ -0,0 +1,381 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import type { RecordId } from '@/lib/ids';
+import {
+  CustomFieldError,
+  toCustomFieldKey,
+  validateCustomField,
+  type CustomFieldDefinition,
+  type FieldDefinition,
+  type FieldType
+} from '@/domain';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+
+const FIELD_TYPES: FieldType[] = ['string', 'number', 'enum', 'date'];
+// Factors named when stored values block a change
+const MAX_LISTED_FACTORS = 3;
+
+// The editor form, with every value as typed
+interface FieldDraft {
+  _id?: RecordId;
+  label: string;
+  key: string;
+  // Until the key is typed over, it follows the label
+  keyEdited: boolean;
+  type: FieldType;
+  required: boolean;
+  enumOptions: string;
+  min: string;
+  max: string;
+  regex: string;
+  example: string;
+}
+
+const EMPTY_DRAFT: FieldDraft = {
+  label: '',
+  key: '',
+  keyEdited: false,
+  type: 'string',
+  required: false,
+  enumOptions: '',
+  min: '',
+  max: '',
+  regex: '',
+  example: ''
+};
+
+function toDraft(field: CustomFieldDefinition): FieldDraft {
+  const rules = field.validation ?? {};
+  return {
+    _id: field._id,
+    label: field.label,
+    key: field.key,
+    keyEdited: true,
+    type: field.type,
+    required: field.required,
+    enumOptions: (rules.enumOptions ?? []).join(', '),
+    min: rules.min === undefined ? '' : String(rules.min),
+    max: rules.max === undefined ? '' : String(rules.max),
+    regex: rules.regex ?? '',
+    example: String(field.example ?? '')
+  };
+}
+
+// Only the rules that apply to the chosen type are kept
+function toDefinition(draft: FieldDraft): CustomFieldDefinition {
+  const validation: NonNullable<FieldDefinition['validation']> = {};
+  if (draft.type === 'number') {
+    if (draft.min.trim() !== '') validation.min = Number(draft.min);
+    if (draft.max.trim() !== '') validation.max = Number(draft.max);
+  }
+  if (draft.type === 'enum') {
+    validation.enumOptions = [...new Set(
+      draft.enumOptions.split(',').map((option) => option.trim()).filter(Boolean)
+    )];
+  }
+  if (draft.type === 'string' && draft.regex.trim() !== '') {
+    validation.regex = draft.regex.trim();
+  }
+
+  const example = draft.example.trim();
+  return {
+    ...(draft._id !== undefined ? { _id: draft._id } : {}),
+    key: draft.key.trim(),
+    label: draft.label.trim(),
+    type: draft.type,
+    required: draft.required,
+    ...(Object.keys(validation).length > 0 ? { validation } : {}),
+    example: draft.type === 'number' && example !== '' && !Number.isNaN(Number(example))
+      ? Number(example)
+      : example
+  };
+}
+
+// Add, change and remove the extra fields emission factors carry in this workspace
+const CustomFieldsEditor: React.FC = () => {
+  const t = useTranslations();
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [draft, setDraft] = useState<FieldDraft>(EMPTY_DRAFT);
+  const [errorMsg, setErrorMsg] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomFieldDefinition | null>(null);
+
+  useEffect(() => {
+    const fetchFields = async () => {
+      try {
+        setFields(await indexedDBService.getEmissionFactorFields());
+      } catch (error) {
+        console.error('Error loading custom fields:', error);
+      }
+    };
+    fetchFields();
+    return indexedDBService.onDataChange(['emission_factor_fields'], () => {
+      fetchFields();
+    });
+  }, []);
+
+  const updateDraft = (changes: Partial<FieldDraft>) => {
+    setDraft((prev) => {
+      const next = { ...prev, ...changes };
+      if ('label' in changes && !next.keyEdited) {
+        next.key = toCustomFieldKey(next.label);
+      }
+      return next;
+    });
+    setErrorMsg('');
+  };
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setErrorMsg('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const field = toDefinition(draft);
+    const problem = validateCustomField(
+      field,
+      fields.filter((other) => other._id !== field._id)
+    );
+    if (problem) {
+      setErrorMsg(t(`customFields.problems.${problem}`));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await indexedDBService.saveEmissionFactorField(field);
+      toast.success(t(draft._id !== undefined ? 'customFields.toast.updated' : 'customFields.toast.added', { label: field.label }));
+      resetDraft();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      if (error instanceof CustomFieldError) {
+        setErrorMsg(t(`customFields.problems.${error.problem}`, {
+          count: error.factors.length,
+          factors: error.factors.slice(0, MAX_LISTED_FACTORS).join(', ')
+        }));
+      } else {
+        toast.error(t('customFields.toast.saveFailed'));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!fieldToDelete?._id) return;
+    try {
+      await indexedDBService.deleteEmissionFactorField(fieldToDelete._id);
+      toast.success(t('customFields.toast.deleted', { label: fieldToDelete.label }));
+      if (draft._id === fieldToDelete._id) resetDraft();
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error(t('customFields.toast.deleteFailed'));
+    } finally {
+      setFieldToDelete(null);
+    }
+  };
+
+  const describeRules = (field: CustomFieldDefinition) => {
+    const rules = field.validation ?? {};
+    const parts: string[] = [];
+    if (rules.enumOptions) parts.push(rules.enumOptions.join(', '));
+    if (rules.min !== undefined) parts.push(t('customFields.rules.min', { min: rules.min }));
+    if (rules.max !== undefined) parts.push(t('customFields.rules.max', { max: rules.max }));
+    if (rules.regex) parts.push(t('customFields.rules.regex', { regex: rules.regex }));
+    return parts.length > 0 ? parts.join('; ') : '—';
+  };
+
+  const isEditing = draft._id !== undefined;
+
+  return (
+    <div className="form-section">
+      <h3 className="section-title">{t('customFields.title')}</h3>
+      <p className="form-help">{t('customFields.description')}</p>
+
+      {fields.length === 0 ? (
+        <p className="form-help">{t('customFields.empty')}</p>
+      ) : (
+        <table className="recycle-bin-table">
+          <thead>
+            <tr>
+              <th>{t('customFields.columns.label')}</th>
+              <th>{t('customFields.columns.key')}</th>
+              <th>{t('customFields.columns.type')}</th>
+              <th>{t('customFields.columns.required')}</th>
+              <th>{t('customFields.columns.rules')}</th>
+              <th>{t('customFields.columns.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => (
+              <tr key={field._id}>
+                <td>{field.label}</td>
+                <td><code>{field.key}</code></td>
+                <td>{t(`customFields.types.${field.type}`)}</td>
+                <td>{field.required ? t('customFields.yes') : t('customFields.no')}</td>
+                <td>{describeRules(field)}</td>
+                <td>
+                  <button type="button" className="btn btn-secondary" onClick={() => setDraft(toDraft(field))}>
+                    {t('customFields.edit')}
+                  </button>{' '}
+                  <button type="button" className="btn btn-danger" onClick={() => setFieldToDelete(field)}>
+                    {t('customFields.delete')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSave}>
+        <h4 className="section-title">
+          {isEditing ? t('customFields.editTitle', { label: draft.label }) : t('customFields.addTitle')}
+        </h4>
+        <div className="form-grid">
+          <div className="form-group">
+            <label htmlFor="custom-field-label">{t('customFields.form.label')}</label>
+            <input
+              id="custom-field-label"
+              type="text"
+              className="form-input"
+              value={draft.label}
+              onChange={(e) => updateDraft({ label: e.target.value })}
+              placeholder={t('customFields.form.labelPlaceholder')}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="custom-field-key">{t('customFields.form.key')}</label>
+            <input
+              id="custom-field-key"
+              type="text"
+              className="form-input"
+              value={draft.key}
+              onChange={(e) => updateDraft({ key: e.target.value, keyEdited: true })}
+              disabled={isEditing}
+            />
+            <div className="form-help">{t('customFields.form.keyHelp')}</div>
+          </div>
+          <div className="form-group">
+            <label htmlFor="custom-field-type">{t('customFields.form.type')}</label>
+            <select
+              id="custom-field-type"
+              className="form-input"
+              value={draft.type}
+              onChange={(e) => updateDraft({ type: e.target.value as FieldType })}
+            >
+              {FIELD_TYPES.map((type) => (
+                <option key={type} value={type}>{t(`customFields.types.${type}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={draft.required}
+                onChange={(e) => updateDraft({ required: e.target.checked })}
+              />{' '}
+              {t('customFields.form.required')}
+            </label>
+            <div className="form-help">{t('customFields.form.requiredHelp')}</div>
+          </div>
+
+          {draft.type === 'enum' && (
+            <div className="form-group">
+              <label htmlFor="custom-field-options">{t('customFields.form.enumOptions')}</label>
+              <input
+                id="custom-field-options"
+                type="text"
+                className="form-input"
+                value={draft.enumOptions}
+                onChange={(e) => updateDraft({ enumOptions: e.target.value })}
+                placeholder={t('customFields.form.enumOptionsPlaceholder')}
+              />
+            </div>
+          )}
+          {draft.type === 'number' && (
+            <>
+              <div className="form-group">
+                <label htmlFor="custom-field-min">{t('customFields.form.min')}</label>
+                <input
+                  id="custom-field-min"
+                  type="number"
+                  step="any"
+                  className="form-input"
+                  value={draft.min}
+                  onChange={(e) => updateDraft({ min: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="custom-field-max">{t('customFields.form.max')}</label>
+                <input
+                  id="custom-field-max"
+                  type="number"
+                  step="any"
+                  className="form-input"
+                  value={draft.max}
+                  onChange={(e) => updateDraft({ max: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+          {draft.type === 'string' && (
+            <div className="form-group">
+              <label htmlFor="custom-field-regex">{t('customFields.form.regex')}</label>
+              <input
+                id="custom-field-regex"
+                type="text"
+                className="form-input"
+                value={draft.regex}
+                onChange={(e) => updateDraft({ regex: e.target.value })}
+                placeholder="^SUP-[0-9]+$"
+              />
+            </div>
+          )}
+          <div className="form-group">
+            <label htmlFor="custom-field-example">{t('customFields.form.example')}</label>
+            <input
+              id="custom-field-example"
+              type="text"
+              className="form-input"
+              value={draft.example}
+              onChange={(e) => updateDraft({ example: e.target.value })}
+            />
+            <div className="form-help">{t('customFields.form.exampleHelp')}</div>
+          </div>
+        </div>
+
+        {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+        <div className="form-actions">
+          <button type="submit" className="btn btn-primary" disabled={isSaving}>
+            {isEditing ? t('customFields.saveButton') : t('customFields.addButton')}
+          </button>
+          {isEditing && (
+            <button type="button" className="btn btn-secondary" onClick={resetDraft}>
+              {t('common.cancel')}
+            </button>
+          )}
+        </div>
+      </form>
+
+      <DeleteConfirmationModal
+        isOpen={fieldToDelete !== null}
+        onClose={() => setFieldToDelete(null)}
+        onConfirm={confirmDelete}
+        title={t('customFields.deleteTitle')}
+        message={t('customFields.deleteMessage', { label: fieldToDelete?.label ?? '' })}
+        confirmText={t('customFields.delete')}
+        cancelText={t('common.cancel')}
+      />
+    </div>
+  );
+};
+
+export default CustomFieldsEditor;
@@ -1,11 +1,15 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { toast } from 'react-hot-toast';
 import { useTranslations } from 'next-intl';
 import { useI18n } from '../i18n/provider';
 import indexedDBService from '@/lib/indexedDB';
-import type { ReportingActivity, EmissionFactor } from '@/lib/indexedDB';
+import { useFieldErrorMessage } from '../i18n/hooks';
+import { validateReportingActivity, type EmissionFactor, type ReportingActivity } from '@/domain';
+import RecordHistory from './RecordHistory';
+import AttachmentManager from './AttachmentManager';
+import { linkToFactor } from '@/lib/integrity';
 
 interface EditActivityModalProps {
   isOpen: boolean;
@@ -23,6 +27,7 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
   emissionFactors,
 }) => {
   const t = useTranslations();
+  const getFieldErrorMessage = useFieldErrorMessage();
   const { locale } = useI18n();
   
   // Force re-render when locale changes to ensure immediate translation updates
@@ -41,6 +46,8 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
   const [filteredEmissionFactors, setFilteredEmissionFactors] = useState<EmissionFactor[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Only the latest emission factor lookup may update the list
+  const filterRequestRef = useRef(0);
 
   // Force re-render when locale changes to ensure immediate translation updates
   useEffect(() => {
@@ -60,7 +67,7 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
       
       // Verify the emission factor exists
       if (activity.emissionFactorId) {
-        const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
+        const factor = emissionFactors.find(f => f._id === activity.emissionFactorId);
         console.log('EditActivityModal: Found emission factor for activity:', factor);
         if (!factor) {
           console.warn('EditActivityModal: WARNING - Activity has emission factor ID that does not exist:', activity.emissionFactorId);
@@ -92,26 +99,18 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
     updateFilteredEmissionFactors(formData.scope, formData.location, formData.category);
   }, [formData.scope, formData.location, formData.category, emissionFactors]);
 
-  const updateFilteredEmissionFactors = (scope: string, location: string, category: string) => {
+  const updateFilteredEmissionFactors = async (scope: string, location: string, category: string) => {
     console.log('EditActivityModal: updateFilteredEmissionFactors called with:', { scope, location, category });
-    console.log('EditActivityModal: Total emission factors available:', emissionFactors.length);
-    
-    let filtered = emissionFactors;
-    
-    if (scope) {
-      filtered = filtered.filter(factor => factor.scope === scope);
-      console.log('EditActivityModal: After scope filter:', filtered.length);
-    }
-    
-    if (location) {
-      filtered = filtered.filter(factor => factor.location === location);
-      console.log('EditActivityModal: After location filter:', filtered.length);
-    }
-    
-    if (category) {
-      filtered = filtered.filter(factor => factor.category === category);
-      console.log('EditActivityModal: After category filter:', filtered.length);
+    const request = ++filterRequestRef.current;
+
+    let filtered: EmissionFactor[];
+    try {
+      filtered = await indexedDBService.findAll('emission_factors', { scope, location, category });
+    } catch (error) {
+      console.error('EditActivityModal: Error looking up emission factors:', error);
+      return;
     }
+    if (request !== filterRequestRef.current) return;
     
     console.log('EditActivityModal: Final filtered emission factors:', filtered);
     setFilteredEmissionFactors(filtered);
@@ -122,61 +121,20 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
         scope && 
         location && 
         category && 
-        !filtered.find(f => String(f._id) === String(formData.emissionFactorId))) {
+        !filtered.find(f => f._id === formData.emissionFactorId)) {
       console.log('EditActivityModal: Resetting emission factor because it\'s not in filtered list');
       setFormData(prev => ({ ...prev, emissionFactorId: '' }));
     }
   };
 
-  // Real-time validation
-  const validateField = (name: string, value: any): string => {
-    switch (name) {
-      case 'reportingPeriodStart':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.startDateRequired');
-        }
-        return '';
-      case 'reportingPeriodEnd':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.endDateRequired');
-        }
-        if (formData.reportingPeriodStart && new Date(value) <= new Date(formData.reportingPeriodStart)) {
-          return t('stage2.validation.endDateAfterStart');
-        }
-        return '';
-      case 'scope':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.scopeRequired');
-        }
-        return '';
-      case 'category':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.categoryRequired');
-        }
-        return '';
-      case 'activityName':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.activityNameRequired');
-        }
-        return '';
-      case 'location':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.locationRequired');
-        }
-        return '';
-      case 'quantity':
-        if (value === undefined || value === null || value === '' || isNaN(Number(value)) || Number(value) <= 0) {
-          return t('stage2.validation.quantityPositive');
-        }
-        return '';
-      case 'emissionFactorId':
-        if (!value || value.trim() === '') {
-          return t('stage2.validation.emissionFactorRequired');
-        }
-        return '';
-      default:
-        return '';
+  // Real-time validation against the activity schema. The form also asks for
+  // an emission factor, which the schema leaves optional for detached activities.
+  const validateField = (name: string, value: unknown): string => {
+    if (name === 'emissionFactorId') {
+      return value ? '' : t('stage2.validation.emissionFactorRequired');
     }
+    const error = validateReportingActivity({ ...formData, [name]: value }).find(e => e.field === name);
+    return error ? getFieldErrorMessage(error, t(`stage2.formLabels.${name}`)) : '';
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -197,23 +155,18 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
       console.log(`EditActivityModal: Available emission factors:`, emissionFactors);
       console.log(`EditActivityModal: Filtered emission factors:`, filteredEmissionFactors);
       
-      // Ensure consistent ID type handling - convert to string for form storage
-      const processedValue = value === '' ? '' : String(value);
-      console.log(`EditActivityModal: Processed emission factor ID: ${processedValue}`);
-      
-      // Verify the selected emission factor exists using string comparison
-      const selectedFactor = emissionFactors.find(f => String(f._id) === processedValue);
+      // Verify the selected emission factor exists
+      const selectedFactor = emissionFactors.find(f => f._id === value);
       console.log(`EditActivityModal: Selected factor found:`, selectedFactor);
       
-      if (!selectedFactor && processedValue !== '') {
-        console.error(`EditActivityModal: ERROR - Emission factor with ID ${processedValue} not found!`);
-        console.error(`EditActivityModal: Available IDs:`, emissionFactors.map(f => ({ id: f._id, type: typeof f._id })));
-        console.error(`EditActivityModal: Looking for string ID: ${processedValue}`);
+      if (!selectedFactor && value !== '') {
+        console.error(`EditActivityModal: ERROR - Emission factor with ID ${value} not found!`);
+        console.error(`EditActivityModal: Available IDs:`, emissionFactors.map(f => f._id));
       }
       
       setFormData(prev => ({
         ...prev,
-        emissionFactorId: processedValue
+        emissionFactorId: value
       }));
     } else {
       setFormData(prev => ({
@@ -261,7 +214,7 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
 
     // Additional validation: ensure emission factor exists
     if (formData.emissionFactorId && !errors.emissionFactorId) {
-      const factor = emissionFactors.find(f => String(f._id) === String(formData.emissionFactorId));
+      const factor = emissionFactors.find(f => f._id === formData.emissionFactorId);
       if (!factor) {
         errors.emissionFactorId = 'Selected emission factor not found. Please select a valid emission factor.';
         console.error('EditActivityModal: Validation error - emission factor not found:', formData.emissionFactorId);
@@ -288,39 +241,23 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
       console.log('EditActivityModal: Activity ID being updated:', formData._id);
       console.log('EditActivityModal: Activity ID type:', typeof formData._id);
       console.log('EditActivityModal: Emission factor ID:', formData.emissionFactorId);
-      console.log('EditActivityModal: Emission factor ID type:', typeof formData.emissionFactorId);
       console.log('EditActivityModal: Quantity:', formData.quantity);
       
-      // Verify the emission factor exists before proceeding using string comparison
-      const factor = emissionFactors.find(f => String(f._id) === String(formData.emissionFactorId));
+      // Verify the emission factor exists before proceeding
+      const factor = emissionFactors.find(f => f._id === formData.emissionFactorId);
       console.log('EditActivityModal: Found emission factor for calculation:', factor);
       
       if (!factor) {
         console.error('EditActivityModal: ERROR - Selected emission factor not found!');
         console.error('EditActivityModal: Selected ID:', formData.emissionFactorId);
         console.error('EditActivityModal: Available emission factors:', emissionFactors);
-        console.error('EditActivityModal: Looking for string ID:', String(formData.emissionFactorId));
         toast.error(`Selected emission factor not found. Please select a valid emission factor.`);
         return;
       }
       
-      // Store emission factor data directly instead of just the ID
-      const emissionFactorData = {
-        description: factor.description,
-        co2ePerUnit: factor.co2ePerUnit,
-        emissionFactorUnit: factor.emissionFactorUnit,
-        unit: factor.unit
-      };
-      
-      const calculatedEmissions = formData.quantity * factor.co2ePerUnit;
-      console.log('EditActivityModal: Calculated emissions:', calculatedEmissions);
-      
-      // Update the form data with emission factor data
-      const updatedFormData = {
-        ...formData,
-        calculatedEmissions,
-        emissionFactorData
-      };
+      // Store the factor's values for this reporting period, not just the ID
+      const updatedFormData = linkToFactor(formData, factor);
+      console.log('EditActivityModal: Calculated emissions:', updatedFormData.calculatedEmissions);
       
       // Update activity in IndexedDB
       await indexedDBService.updateReportingActivity(updatedFormData);
@@ -508,7 +445,7 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
                 >
                   <option value="">{t('stage1.selectEmissionFactor')}</option>
                   {filteredEmissionFactors.map((factor) => {
-                    const isSelected = String(factor._id) === String(formData.emissionFactorId);
+                    const isSelected = factor._id === formData.emissionFactorId;
                     console.log(`EditActivityModal: Rendering option for factor:`, factor);
                     console.log(`EditActivityModal: Factor ID: ${factor._id}, type: ${typeof factor._id}`);
                     console.log(`EditActivityModal: Form emissionFactorId: ${formData.emissionFactorId}, type: ${typeof formData.emissionFactorId}`);
@@ -531,7 +468,7 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
                 {formData.emissionFactorId && (
                   <small className="form-help">
                     {t('stage2.editActivity.selected')}: {(() => {
-                      const factor = emissionFactors.find(f => String(f._id) === String(formData.emissionFactorId));
+                      const factor = emissionFactors.find(f => f._id === formData.emissionFactorId);
                       return factor ? `${factor.description} (ID: ${factor._id})` : t('stage2.editActivity.emissionFactorNotFound');
                     })()}
                   </small>
@@ -555,6 +492,14 @@ const EditActivityModal: React.FC<EditActivityModalProps> = ({
               />
             </div>
           </div>
+
+          {activity._id && (
+            <AttachmentManager ownerStore="reporting_activities" ownerId={activity._id} disabled={isLoading} />
+          )}
+
+          {activity._id && (
+            <RecordHistory storeName="reporting_activities" recordId={activity._id!} />
+          )}
           
           <div className="modal-actions">
             <button
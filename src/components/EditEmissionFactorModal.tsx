@@ -3,14 +3,32 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import { useI18n } from '../i18n/provider';
-import { emissionFactorFields, EmissionFactorData } from '../config/emissionFactorSchema';
+import { useFieldErrorMessage } from '../i18n/hooks';
+import {
+  emissionFactorFields,
+  validateEmissionFactor,
+  validateField as validateSchemaField,
+  withCustomValue,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type EmissionFactor,
+  type EmissionFactorFieldKey,
+  type FieldError
+} from '@/domain';
+import indexedDBService from '@/lib/indexedDB';
+import RecordHistory from './RecordHistory';
+import AttachmentManager from './AttachmentManager';
+import FactorVersionHistory from './FactorVersionHistory';
+import CustomFieldInputs from './CustomFieldInputs';
+import { sortVersions, type FactorVersion } from '@/lib/factorVersions';
 
 interface EditEmissionFactorModalProps {
   isOpen: boolean;
   onClose: () => void;
-  factor: EmissionFactorData | null;
-  onUpdate: (updatedFactor: EmissionFactorData) => Promise<void>;
+  factor: EmissionFactor | null;
+  onUpdate: (updatedFactor: EmissionFactor) => Promise<void>;
   ghgStandards: string[];
+  customFields: CustomFieldDefinition[];
 }
 
 const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
@@ -19,13 +37,15 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
   factor,
   onUpdate,
   ghgStandards,
+  customFields,
 }) => {
   const t = useTranslations();
+  const getFieldErrorMessage = useFieldErrorMessage();
   const { locale } = useI18n();
   
   // Force re-render when locale changes to ensure immediate translation updates
   const [forceUpdate, setForceUpdate] = useState(0);
-  const [formData, setFormData] = useState<EmissionFactorData>({
+  const [formData, setFormData] = useState<EmissionFactor>({
     description: '',
     scope: '',
     category: '',
@@ -41,6 +61,9 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
   const [fieldErrors, setFieldErrors] = useState<Record<string, string | null>>({});
   const [showTooltips, setShowTooltips] = useState<Record<string, boolean>>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [versions, setVersions] = useState<FactorVersion[]>([]);
+  // Activities recalculated when the factor's value changes
+  const [dependentCount, setDependentCount] = useState(0);
 
   // Force re-render when locale changes to ensure immediate translation updates
   useEffect(() => {
@@ -55,22 +78,32 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
       
       // Check if all required fields are present
       emissionFactorFields.forEach(field => {
-        const value = factor[field.key as keyof EmissionFactorData];
+        const value = factor[field.key as EmissionFactorFieldKey];
         console.log(`EditEmissionFactorModal: Field ${field.key}:`, { value, type: typeof value, required: field.required });
       });
       
       setFormData(factor);
+      setVersions(factor.versions ?? []);
       setFieldErrors({});
     }
   }, [factor]);
 
+  useEffect(() => {
+    setDependentCount(0);
+    if (!isOpen || !factor?._id) return;
+    indexedDBService
+      .getDependentActivities([factor._id])
+      .then(activities => setDependentCount(activities.length))
+      .catch(error => console.error('EditEmissionFactorModal: Error counting dependent activities:', error));
+  }, [isOpen, factor]);
+
   // Update validation errors when language changes
   useEffect(() => {
     if (Object.keys(fieldErrors).length > 0) {
       // Re-validate all fields with current language
       const updatedErrors: Record<string, string | null> = {};
       Object.keys(fieldErrors).forEach(fieldKey => {
-        const value = formData[fieldKey as keyof EmissionFactorData];
+        const value = fieldValue(fieldKey);
         if (value !== undefined) {
           const error = validateField(fieldKey, value);
           if (error) {
@@ -82,44 +115,21 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
     }
   }, [locale, t]); // Dependency on both locale and translation function
 
-  // Real-time validation
-  const validateField = (key: string, value: string | number): string | null => {
-    const field = emissionFactorFields.find(f => f.key === key);
-    if (!field) return null;
-
-    if (field.required) {
-      // Handle different types of "empty" values
-      if (field.type === 'number') {
-        // For numbers, check if it's undefined, null, or NaN
-        if (value === undefined || value === null || (typeof value === 'number' && isNaN(value))) {
-          return t('stage1.validation.fieldRequired', { fieldName: field.label });
-        }
-      } else {
-        // For strings, check if it's undefined, null, or empty string
-        // But allow empty strings if the field allows it (for CSV imports)
-        if (value === undefined || value === null || 
-            (typeof value === 'string' && value.trim() === '' && !field.allowEmpty)) {
-          return t('stage1.validation.fieldRequired', { fieldName: field.label });
-        }
-      }
-    }
-
-    if (field.validation) {
-      if (field.validation.min !== undefined && typeof value === 'number' && value < field.validation.min) {
-        return t('stage1.validation.minValue', { fieldName: field.label, min: field.validation.min });
-      }
-      if (field.validation.max !== undefined && typeof value === 'number' && value > field.validation.max) {
-        return t('stage1.validation.maxValue', { fieldName: field.label, max: field.validation.max });
-      }
-      if (field.validation.regex && typeof value === 'string' && !new RegExp(field.validation.regex).test(value)) {
-        return field.validation.customError || t('stage1.validation.invalidFormat', { fieldName: field.label });
-      }
-      if (field.validation.enumOptions && typeof value === 'string' && !field.validation.enumOptions.includes(value)) {
-        return t('stage1.validation.enumError', { options: field.validation.enumOptions.join(', ') });
-      }
-    }
+  const findField = (key: string) =>
+    [...emissionFactorFields, ...customFields].find(f => f.key === key);
+  const fieldErrorMessage = (error: FieldError) =>
+    getFieldErrorMessage(error, findField(error.field)?.label ?? error.field);
+  const fieldValue = (key: string) =>
+    customFields.some(f => f.key === key)
+      ? formData.custom?.[key]
+      : formData[key as EmissionFactorFieldKey];
 
-    return null;
+  // Real-time validation against the emission factor schema and custom fields
+  const validateField = (key: string, value: unknown): string | null => {
+    const field = findField(key);
+    if (!field) return null;
+    const error = validateSchemaField(field, value);
+    return error ? fieldErrorMessage(error) : null;
   };
 
   const handleInputChange = (name: string, value: string | number) => {
@@ -139,13 +149,22 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
     setShowTooltips(prev => ({ ...prev, [fieldName]: false }));
     
     // Validate field on blur
-    const value = formData[fieldName as keyof EmissionFactorData];
-    if (value !== undefined) {
+    const value = fieldValue(fieldName);
+    if (value !== undefined || customFields.some(f => f.key === fieldName)) {
       const error = validateField(fieldName, value);
       setFieldErrors(prev => ({ ...prev, [fieldName]: error }));
     }
   };
 
+  const handleCustomFieldChange = (field: CustomFieldDefinition, value: CustomFieldValue | undefined) => {
+    setFormData(prev => ({ ...prev, custom: withCustomValue(prev.custom, field.key, value) }));
+
+    // Clear error when user starts typing
+    if (fieldErrors[field.key]) {
+      setFieldErrors(prev => ({ ...prev, [field.key]: null }));
+    }
+  };
+
      const getTooltipContent = (fieldName: string) => {
      const field = emissionFactorFields.find(f => f.key === fieldName);
      if (!field) return '';
@@ -164,30 +183,28 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
     
     console.log('EditEmissionFactorModal: Submitting form data:', formData);
     
-    // Validate all fields
-    const errors: Record<string, string | null> = {};
-    emissionFactorFields.forEach(field => {
-      const value = formData[field.key as keyof EmissionFactorData];
-      console.log(`EditEmissionFactorModal: Validating ${field.key}:`, { value, type: typeof value, required: field.required });
-      if (value !== undefined) {
-        const error = validateField(field.key, value);
-        if (error) {
-          errors[field.key] = error;
-          console.log(`EditEmissionFactorModal: Validation error for ${field.key}:`, error);
-        }
-      }
-    });
-    
-    console.log('EditEmissionFactorModal: Validation errors:', errors);
+    // Validate all fields; problems with the value history are shown by
+    // FactorVersionHistory
+    const validationErrors = validateEmissionFactor({ ...formData, versions }, customFields);
+    console.log('EditEmissionFactorModal: Validation errors:', validationErrors);
     
-    if (Object.keys(errors).some(key => errors[key] !== null)) {
+    const errors: Record<string, string | null> = {};
+    validationErrors
+      .filter(error => error.field !== 'versions')
+      .forEach(error => {
+        errors[error.field] = fieldErrorMessage(error);
+      });
+    if (validationErrors.length > 0) {
       setFieldErrors(errors);
       return;
     }
     
     setIsLoading(true);
     try {
-      await onUpdate(formData);
+      await onUpdate({
+        ...formData,
+        versions: versions.length > 0 ? sortVersions(versions) : undefined
+      });
       onClose();
     } catch (error) {
       console.error('Error updating emission factor:', error);
@@ -413,6 +430,14 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
                 {fieldErrors.co2ePerUnit && (
                   <div className="form-error-message">{fieldErrors.co2ePerUnit}</div>
                 )}
+                {dependentCount > 0 && factor && (
+                  formData.co2ePerUnit !== factor.co2ePerUnit ||
+                  JSON.stringify(versions) !== JSON.stringify(factor.versions ?? [])
+                ) && (
+                  <p className="warning-message">
+                    {t('modals.editEmissionFactor.recalculationNotice', { count: dependentCount })}
+                  </p>
+                )}
               </div>
               
               <div className="form-group">
@@ -490,6 +515,30 @@ const EditEmissionFactorModal: React.FC<EditEmissionFactorModalProps> = ({
               </div>
             </div>
           </div>
+
+          <CustomFieldInputs
+            fields={customFields}
+            values={formData.custom}
+            errors={fieldErrors}
+            onChange={handleCustomFieldChange}
+            onBlur={(field) => handleFieldBlur(field.key)}
+            idPrefix="edit-custom-field"
+          />
+
+          <FactorVersionHistory
+            versions={versions}
+            onChange={setVersions}
+            emissionFactorUnit={formData.emissionFactorUnit}
+            disabled={isLoading}
+          />
+
+          {factor?._id && (
+            <AttachmentManager ownerStore="emission_factors" ownerId={factor._id} disabled={isLoading} />
+          )}
+
+          {factor?._id && (
+            <RecordHistory storeName="emission_factors" recordId={factor._id!} />
+          )}
         </form>
         
         <div className="modal-actions">
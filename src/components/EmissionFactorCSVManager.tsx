@@ -4,16 +4,29 @@ import Papa from 'papaparse';
 import { toast } from 'react-hot-toast';
 import { useTranslations } from 'next-intl';
 import { useI18n } from '../i18n/provider';
-import { emissionFactorFields, EmissionFactorData } from '../config/emissionFactorSchema';
+import {
+  describeFieldError,
+  emissionFactorFields,
+  parseCustomValue,
+  validateEmissionFactor,
+  withCustomValue,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type EmissionFactor,
+  type MethodType
+} from '@/domain';
 import EditEmissionFactorModal from './EditEmissionFactorModal';
 import EmissionFactorTable from './EmissionFactorTable';
 import indexedDBService from '@/lib/indexedDB';
+import undoManager from '@/lib/undoManager';
 
-// Helper: Generate CSV template (headers + example row)
-function generateCSVTemplate() {
-  const headers = emissionFactorFields.map(f => f.label);
+// Helper: Generate CSV template (headers + example row). Custom fields
+// follow the built-in ones.
+function generateCSVTemplate(customFields: CustomFieldDefinition[]) {
+  const fields = [...emissionFactorFields, ...customFields];
+  const headers = fields.map(f => f.label);
   // Create example data row with realistic values
-  const example = emissionFactorFields.map(f => f.example);
+  const example = fields.map(f => f.example);
   return Papa.unparse({ fields: headers, data: [example] });
 }
 
@@ -81,15 +94,26 @@ function convertSuperscriptSubscript(text: string): string {
   return converted;
 }
 
-// Helper: Validate CSV headers against expected schema
-function validateCSVHeaders(headers: string[]): { isValid: boolean; errors: string[] } {
+// Helper: Validate CSV headers against expected schema. Columns for optional
+// custom fields may be left out, so files made before a field was added
+// still import.
+function validateCSVHeaders(
+  headers: string[],
+  customFields: CustomFieldDefinition[]
+): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
-  const expectedHeaders = emissionFactorFields.map(f => f.label);
+  const hasHeader = (expected: string) =>
+    headers.some(header => header.trim().toLowerCase() === expected.toLowerCase());
+  const requiredHeaders = [
+    ...emissionFactorFields,
+    ...customFields.filter(f => f.required)
+  ].map(f => f.label);
+  const expectedHeaders = [...emissionFactorFields, ...customFields]
+    .map(f => f.label)
+    .filter(label => requiredHeaders.includes(label) || hasHeader(label));
   
   // Check if all expected headers are present
-  const missingHeaders = expectedHeaders.filter(expected => 
-    !headers.some(header => header.trim().toLowerCase() === expected.toLowerCase())
-  );
+  const missingHeaders = requiredHeaders.filter(expected => !hasHeader(expected));
   
   if (missingHeaders.length > 0) {
     errors.push(`Missing required columns: ${missingHeaders.join(', ')}`);
@@ -119,7 +143,10 @@ function validateCSVHeaders(headers: string[]): { isValid: boolean; errors: stri
 }
 
 // Helper: Map CSV row object to schema keys (updated for header-based parsing)
-function mapCSVRowToSchema(row: Record<string, string>): EmissionFactorData {
+function mapCSVRowToSchema(
+  row: Record<string, string>,
+  customFields: CustomFieldDefinition[]
+): EmissionFactor {
   const mapped: Record<string, string> = {};
   
   // Map each field using the label as the key from the CSV
@@ -136,6 +163,12 @@ function mapCSVRowToSchema(row: Record<string, string>): EmissionFactorData {
     mapped[field.key] = value;
   });
   
+  // Custom values by type; empty cells leave the field unset
+  const custom = customFields.reduce<Record<string, CustomFieldValue>>(
+    (values, field) => withCustomValue(values, field.key, parseCustomValue(field, row[field.label] ?? '')),
+    {}
+  );
+  
   // Ensure all required fields are present with proper types
   return {
     description: mapped.description || '',
@@ -144,52 +177,22 @@ function mapCSVRowToSchema(row: Record<string, string>): EmissionFactorData {
     location: mapped.location || '',
     unit: mapped.unit || '',
     dataSource: mapped.dataSource || '',
-    methodType: (mapped.methodType as 'Volume Based' | 'Spend Based' | 'Distance Based' | 'Mass Based') || 'Volume Based',
+    methodType: (mapped.methodType as MethodType) || 'Volume Based',
     co2ePerUnit: parseFloat(mapped.co2ePerUnit) || 0,
     emissionFactorUnit: mapped.emissionFactorUnit || '',
     ghgReportingStandard: mapped.ghgReportingStandard || '',
     sourceOrDisclosureRequirement: mapped.sourceOrDisclosureRequirement || '',
+    ...(Object.keys(custom).length > 0 ? { custom } : {}),
   };
 }
 
 // Helper: Validate a single row
-function validateRow(row: EmissionFactorData): Record<string, string> {
+function validateRow(row: EmissionFactor, customFields: CustomFieldDefinition[]): Record<string, string> {
   const errors: Record<string, string> = {};
   
   // Use the schema to validate each field
-  for (const field of emissionFactorFields) {
-    const value = row[field.key as keyof EmissionFactorData];
-    
-    if (field.required) {
-      if (field.type === 'number') {
-        if (value === undefined || value === null || isNaN(Number(value))) {
-          errors[field.key] = `${field.label} is required and must be a valid number`;
-        }
-      } else {
-        // For strings, check if it's undefined, null, or empty string
-        // But allow empty strings if the field allows it (for CSV imports)
-        if (value === undefined || value === null || 
-            (typeof value === 'string' && value.trim() === '' && !field.allowEmpty)) {
-          errors[field.key] = `${field.label} is required`;
-        }
-      }
-    }
-    
-    // Additional validation for specific field types
-    if (field.validation) {
-      if (field.validation.enumOptions && typeof value === 'string' && value.trim() !== '' && !field.validation.enumOptions.includes(value)) {
-        errors[field.key] = `${field.label} must be one of: ${field.validation.enumOptions.join(', ')}`;
-      }
-      if (field.validation.min !== undefined && typeof value === 'number' && value < field.validation.min) {
-        errors[field.key] = `${field.label} must be at least ${field.validation.min}`;
-      }
-      if (field.validation.max !== undefined && typeof value === 'number' && value > field.validation.max) {
-        errors[field.key] = `${field.label} must be at most ${field.validation.max}`;
-      }
-      if (field.validation.regex && typeof value === 'string' && value.trim() !== '' && !new RegExp(field.validation.regex).test(value)) {
-        errors[field.key] = field.validation.customError || `${field.label} format is invalid`;
-      }
-    }
+  for (const error of validateEmissionFactor(row, customFields)) {
+    errors[error.field] = describeFieldError(error, [...emissionFactorFields, ...customFields]);
   }
   
   // Debug logging for validation
@@ -214,22 +217,38 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
   // Force re-render when locale changes to ensure immediate translation updates
   const [, setForceUpdate] = useState(0);
   
-  const [csvRows, setCsvRows] = useState<EmissionFactorData[]>([]);
+  const [csvRows, setCsvRows] = useState<EmissionFactor[]>([]);
   const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
   const [rowErrors, setRowErrors] = useState<Record<number, Record<string, string>>>({});
   const [errorMsg, setErrorMsg] = useState<string>('');
   const [importing, setImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [importResult, setImportResult] = useState<{ added: number; failed: number } | null>(null);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
   
   // Edit modal state
   const [showEditModal, setShowEditModal] = useState(false);
   const [editRowIdx, setEditRowIdx] = useState<number | null>(null);
-  const [editingFactor, setEditingFactor] = useState<EmissionFactorData | null>(null);
+  const [editingFactor, setEditingFactor] = useState<EmissionFactor | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // The template and row checks follow the custom fields
+  useEffect(() => {
+    const fetchCustomFields = async () => {
+      try {
+        setCustomFields(await indexedDBService.getEmissionFactorFields());
+      } catch (error) {
+        console.error('Error loading custom fields:', error);
+      }
+    };
+    fetchCustomFields();
+    return indexedDBService.onDataChange(['emission_factor_fields'], () => {
+      fetchCustomFields();
+    });
+  }, []);
+
   // Ensure file input is properly initialized
   useEffect(() => {
     if (fileInputRef.current) {
@@ -260,7 +279,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
         const rowIndex = parseInt(rowIndexStr);
         if (rowIndex >= 0 && rowIndex < csvRows.length) {
           const row = csvRows[rowIndex];
-          const actualErrors = validateRow(row);
+          const actualErrors = validateRow(row, customFields);
           return Object.keys(actualErrors).length === 0 && Object.keys(rowErrors[rowIndex] || {}).length > 0;
         }
         return false;
@@ -287,7 +306,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
           const rowIndex = parseInt(rowIndexStr);
           if (rowIndex >= 0 && rowIndex < csvRows.length) {
             const row = csvRows[rowIndex];
-            const rowValidationErrors = validateRow(row);
+            const rowValidationErrors = validateRow(row, customFields);
             if (Object.keys(rowValidationErrors).length > 0) {
               updatedErrors[rowIndex] = rowValidationErrors;
             }
@@ -300,7 +319,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
   }, [locale, t]); // Dependency on both locale and translation function
 
   const handleDownloadTemplate = () => {
-    const csvContent = generateCSVTemplate();
+    const csvContent = generateCSVTemplate(customFields);
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -409,7 +428,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
         const headers = results.meta.fields || [];
         
         // Validate headers
-        const headerValidation = validateCSVHeaders(headers);
+        const headerValidation = validateCSVHeaders(headers, customFields);
         if (!headerValidation.isValid) {
           setErrorMsg(`CSV header validation failed: ${headerValidation.errors.join('; ')}`);
           return;
@@ -427,7 +446,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
             );
             return hasData;
           })
-          .map(row => mapCSVRowToSchema(row));
+          .map(row => mapCSVRowToSchema(row, customFields));
         
         if (mappedRows.length === 0) {
           setErrorMsg('No valid data rows found in CSV. Please ensure your CSV contains data rows after the header.');
@@ -531,45 +550,31 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
     setImportResult(null);
     
     try {
-      let added = 0;
-      let failed = 0;
+      // All rows are saved in one transaction, so a failure leaves no partial
+      // import behind. The whole import is undone and redone as one step.
+      await undoManager.runBatch('import.emission_factors', () =>
+        indexedDBService.bulkAdd('emission_factors', csvRows, {
+          onProgress: (completed, total) => setImportProgress((completed / total) * 100)
+        })
+      );
+      const added = csvRows.length;
+      setImportResult({ added, failed: 0 });
       
-      for (let i = 0; i < csvRows.length; i++) {
-        const row = csvRows[i];
-        try {
-          await indexedDBService.addEmissionFactor(row);
-          added++;
-        } catch (error) {
-          failed++;
-          console.error(`Error importing row ${i + 1}:`, error);
-        }
-        
-        // Update progress
-        setImportProgress(((i + 1) / csvRows.length) * 100);
-      }
-      
-      setImportResult({ added, failed });
+      // Clear CSV data on successful import
+      setCsvRows([]);
+      setSelectedRows(new Set());
+      setRowErrors({});
+      setErrorMsg('');
       
-      if (failed === 0) {
-        // Clear CSV data on successful import
-        setCsvRows([]);
-        setSelectedRows(new Set());
-        setRowErrors({});
-        setErrorMsg('');
-        
-        // Notify parent component of successful import to refresh data
-        if (onImportSuccess) {
-          console.log('Import successful, triggering onImportSuccess callback...');
-          onImportSuccess();
-        }
-        
-        // Show success message
-        toast.success(t('csvManager.importSuccess', { count: added, plural: added > 1 ? 's' : '' }));
-      } else {
-        // Show partial success message if some failed
-        toast.error(t('csvManager.importFailed'));
+      // Notify parent component of successful import to refresh data
+      if (onImportSuccess) {
+        console.log('Import successful, triggering onImportSuccess callback...');
+        onImportSuccess();
       }
       
+      // Show success message
+      toast.success(t('csvManager.importSuccess', { count: added, plural: added > 1 ? 's' : '' }));
+      
           } catch (error) {
         console.error('Import error:', error);
         setErrorMsg('Import failed');
@@ -580,7 +585,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
       }
   };
 
-  const handleEdit = (factor: EmissionFactorData) => {
+  const handleEdit = (factor: EmissionFactor) => {
     // Find the index of the factor in csvRows
     const idx = csvRows.findIndex(row => 
       row.description === factor.description && 
@@ -593,7 +598,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
     }
   };
 
-  const handleDelete = (factor: EmissionFactorData) => {
+  const handleDelete = (factor: EmissionFactor) => {
     // Find the index of the factor in csvRows
     const idx = csvRows.findIndex(row => 
       row.description === factor.description && 
@@ -608,10 +613,10 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
   };
 
   // Helper function to validate all rows and update rowErrors
-  const validateAllRows = (rows: EmissionFactorData[]) => {
+  const validateAllRows = (rows: EmissionFactor[]) => {
     const errors: Record<number, Record<string, string>> = {};
     rows.forEach((row, idx) => {
-      const rowErrors = validateRow(row);
+      const rowErrors = validateRow(row, customFields);
       if (Object.keys(rowErrors).length > 0) {
         errors[idx] = rowErrors;
         console.log(`Row ${idx} validation errors:`, rowErrors);
@@ -674,7 +679,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
         const rowIndex = detail.rowIndex;
         if (rowIndex >= 0 && rowIndex < csvRows.length) {
           const row = csvRows[rowIndex];
-          const actualRowErrors = validateRow(row);
+          const actualRowErrors = validateRow(row, customFields);
           return Object.keys(actualRowErrors).length > 0;
         }
         return false;
@@ -752,7 +757,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
     const newErrors: Record<number, Record<string, string>> = {};
     
     csvRows.forEach((row, idx) => {
-      const rowErrors = validateRow(row);
+      const rowErrors = validateRow(row, customFields);
       if (Object.keys(rowErrors).length > 0) {
         newErrors[idx] = rowErrors;
       }
@@ -784,7 +789,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
       const newErrors: Record<number, Record<string, string>> = {};
       
       csvRows.forEach((row, idx) => {
-        const rowErrors = validateRow(row);
+        const rowErrors = validateRow(row, customFields);
         if (Object.keys(rowErrors).length > 0) {
           newErrors[idx] = rowErrors;
           console.log(`Row ${idx} has ${Object.keys(rowErrors).length} validation errors:`, rowErrors);
@@ -850,7 +855,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
       const rowIndex = parseInt(rowIndexStr);
       if (rowIndex >= 0 && rowIndex < csvRows.length) {
         const row = csvRows[rowIndex];
-        const actualErrors = validateRow(row);
+        const actualErrors = validateRow(row, customFields);
         
         if (Object.keys(actualErrors).length === 0 && Object.keys(rowErrors[rowIndex] || {}).length > 0) {
           console.warn(`False validation errors detected for row ${rowIndex}`);
@@ -948,6 +953,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
           showBulkDelete={true}
           tableType="csv"
           rowErrors={rowErrors}
+          customFields={customFields}
         />
       )}
       
@@ -1013,7 +1019,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
               console.log('Re-validating after edit...');
                
               // First, validate just the updated row
-              const rowErrors = validateRow(updatedFactor);
+              const rowErrors = validateRow(updatedFactor, customFields);
               console.log(`Row ${editRowIdx} validation result:`, rowErrors);
                
               if (Object.keys(rowErrors).length > 0) {
@@ -1061,6 +1067,7 @@ const EmissionFactorCSVManager: React.FC<EmissionFactorCSVManagerProps> = ({ onI
           "IFRS - ISSB",
           "Custom"
         ]}
+        customFields={customFields}
       />
     </div>
   );
@@ -3,20 +3,22 @@
 import React from 'react';
 import { FaEdit, FaTrash } from 'react-icons/fa';
 import { useTranslations } from 'next-intl';
-import { emissionFactorFields, EmissionFactorData } from '../config/emissionFactorSchema';
+import { emissionFactorFields, type CustomFieldDefinition, type EmissionFactor } from '@/domain';
+import { sortVersions } from '@/lib/factorVersions';
 
 interface EmissionFactorTableProps {
-  data: EmissionFactorData[];
+  data: EmissionFactor[];
   selectedRows: Set<string | number>;
   onRowSelect: (id: string | number, checked: boolean) => void;
   onSelectAll: (checked: boolean) => void;
-  onEdit: (factor: EmissionFactorData) => void;
-  onDelete: (factor: EmissionFactorData) => void;
+  onEdit: (factor: EmissionFactor) => void;
+  onDelete: (factor: EmissionFactor) => void;
   onBulkDelete: () => void;
   isDeleting?: boolean;
   showBulkDelete?: boolean;
   tableType: 'csv' | 'saved';
   rowErrors?: Record<number, Record<string, string>>;
+  customFields?: CustomFieldDefinition[];
 }
 
 const EmissionFactorTable: React.FC<EmissionFactorTableProps> = ({
@@ -30,13 +32,14 @@ const EmissionFactorTable: React.FC<EmissionFactorTableProps> = ({
   isDeleting = false,
   showBulkDelete = true,
   tableType,
-  rowErrors = {}
+  rowErrors = {},
+  customFields = []
 }) => {
   const t = useTranslations();
   const allSelected = data.length > 0 && selectedRows.size === data.length;
   const someSelected = selectedRows.size > 0;
 
-  const getRowId = (item: EmissionFactorData, index: number) => {
+  const getRowId = (item: EmissionFactor, index: number) => {
     return tableType === 'csv' ? index : item._id!;
   };
 
@@ -52,7 +55,7 @@ const EmissionFactorTable: React.FC<EmissionFactorTableProps> = ({
   };
 
   // Helper function to safely get field value
-  const getFieldValue = (factor: EmissionFactorData, fieldKey: string): string | number => {
+  const getFieldValue = (factor: EmissionFactor, fieldKey: string): string | number => {
     switch (fieldKey) {
       case 'description':
         return factor.description;
@@ -122,6 +125,9 @@ const EmissionFactorTable: React.FC<EmissionFactorTableProps> = ({
             {emissionFactorFields.map(f => (
               <th key={f.key}>{t(`stage1.formLabels.${f.key}`)}</th>
             ))}
+            {customFields.map(f => (
+              <th key={f.key}>{f.label}</th>
+            ))}
             {tableType === 'csv' && <th></th>}
             <th>{t('common.actions')}</th>
           </tr>
@@ -151,13 +157,41 @@ const EmissionFactorTable: React.FC<EmissionFactorTableProps> = ({
                     title={tableType === 'csv' && rowErrors[index]?.[f.key] ? rowErrors[index][f.key] : ''}
                   >
                     {f.key === 'co2ePerUnit' 
-                      ? `${factor.co2ePerUnit} ${factor.emissionFactorUnit}`
+                      ? (
+                        <>
+                          {factor.co2ePerUnit} {factor.emissionFactorUnit}
+                          {factor.versions && factor.versions.length > 0 && (
+                            <details className="factor-version-list">
+                              <summary>{t('stage1.versions.count', { count: factor.versions.length })}</summary>
+                              <ul>
+                                {sortVersions(factor.versions).map(version => (
+                                  <li key={version.validFrom}>
+                                    {t('stage1.versions.range', {
+                                      from: version.validFrom,
+                                      to: version.validTo || t('stage1.versions.openEnded')
+                                    })}: {version.co2ePerUnit}
+                                  </li>
+                                ))}
+                              </ul>
+                            </details>
+                          )}
+                        </>
+                      )
                       : f.key === 'sourceOrDisclosureRequirement' && factor.sourceOrDisclosureRequirement && /^https?:\/\//.test(factor.sourceOrDisclosureRequirement.trim())
                         ? <a href={factor.sourceOrDisclosureRequirement} target="_blank" rel="noopener noreferrer">{factor.sourceOrDisclosureRequirement}</a>
                         : getFieldValue(factor, f.key)
                     }
                   </td>
                 ))}
+                {customFields.map(f => (
+                  <td
+                    key={f.key}
+                    className={getCellClass(index, f.key)}
+                    title={tableType === 'csv' && rowErrors[index]?.[f.key] ? rowErrors[index][f.key] : ''}
+                  >
+                    {factor.custom?.[f.key] ?? ''}
+                  </td>
+                ))}
                 {tableType === 'csv' && (
                   <td>
                     {hasErrors && (
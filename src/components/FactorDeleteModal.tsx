@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import type { EmissionFactor, ReportingActivity } from '@/domain';
+import type { RecordId } from '@/lib/ids';
+import {
+  ReferentialIntegrityError,
+  type DependentPolicy,
+  type FactorDeleteSummary
+} from '@/lib/integrity';
+
+interface FactorDeleteModalProps {
+  isOpen: boolean;
+  factorIds: RecordId[];
+  title: string;
+  message: string;
+  confirmText: string;
+  onClose: () => void;
+  onDeleted: (summary: FactorDeleteSummary) => void;
+}
+
+// Activities listed by name before the rest are summarised as a count
+const MAX_LISTED_ACTIVITIES = 10;
+
+// Confirms deleting emission factors. When activities still use them, the user
+// picks whether to reassign or detach those activities; until they do, the
+// factors are kept.
+const FactorDeleteModal: React.FC<FactorDeleteModalProps> = ({
+  isOpen,
+  factorIds,
+  title,
+  message,
+  confirmText,
+  onClose,
+  onDeleted
+}) => {
+  const t = useTranslations();
+  const [dependents, setDependents] = useState<ReportingActivity[]>([]);
+  const [replacements, setReplacements] = useState<EmissionFactor[]>([]);
+  const [action, setAction] = useState<'reassign' | 'detach' | null>(null);
+  const [replacementId, setReplacementId] = useState<RecordId>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const loadDependents = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [activities, factors] = await Promise.all([
+        indexedDBService.getDependentActivities(factorIds),
+        indexedDBService.getAllEmissionFactors()
+      ]);
+      const deleted = factors.filter(factor => factorIds.includes(factor._id!));
+      const isSimilar = (factor: EmissionFactor) =>
+        deleted.some(d => d.scope === factor.scope && d.category === factor.category);
+      setDependents(activities);
+      // Factors like the deleted ones are offered first
+      setReplacements(
+        factors
+          .filter(factor => !factorIds.includes(factor._id!))
+          .sort((a, b) => Number(isSimilar(b)) - Number(isSimilar(a)))
+      );
+    } catch (error) {
+      console.error('Error loading dependent activities:', error);
+      toast.error(t('stage1.factorDelete.loadFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [factorIds, t]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAction(null);
+    setReplacementId('');
+    loadDependents();
+  }, [isOpen, loadDependents]);
+
+  if (!isOpen) return null;
+
+  const handleConfirm = async () => {
+    let policy: DependentPolicy = { action: 'block' };
+    if (action === 'reassign') {
+      policy = { action: 'reassign', factorId: replacementId };
+    } else if (action === 'detach') {
+      policy = { action: 'detach' };
+    }
+
+    setIsDeleting(true);
+    try {
+      const summary = await indexedDBService.deleteEmissionFactors(factorIds, policy);
+      onDeleted(summary);
+    } catch (error) {
+      if (error instanceof ReferentialIntegrityError) {
+        // Activities started using the factor since the list was loaded
+        toast.error(t('stage1.factorDelete.toast.blocked', { count: error.dependentActivityIds.length }));
+        await loadDependents();
+        return;
+      }
+      console.error('Error deleting emission factors:', error);
+      toast.error(`${t('stage1.toast.deleteFailed')}: ${error instanceof Error ? error.message : t('common.unknownError')}`);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isDeleting) {
+      onClose();
+    }
+  };
+
+  const canConfirm =
+    !isLoading &&
+    !isDeleting &&
+    (dependents.length === 0 ||
+      action === 'detach' ||
+      (action === 'reassign' && replacementId !== ''));
+
+  return (
+    <div className="modal-overlay" onClick={handleBackdropClick}>
+      <div className="modal-content delete-modal">
+        <div className="modal-header">
+          <h2 className="modal-title">{title}</h2>
+        </div>
+
+        <div className="modal-body">
+          {isLoading ? (
+            <p>{t('common.loading')}</p>
+          ) : dependents.length === 0 ? (
+            <p className="delete-message">{message}</p>
+          ) : (
+            <>
+              <p className="warning-message">
+                {t('stage1.factorDelete.inUse', { count: dependents.length })}
+              </p>
+              <ul className="factor-dependents">
+                {dependents.slice(0, MAX_LISTED_ACTIVITIES).map(activity => (
+                  <li key={activity._id}>
+                    {activity.activityName} ({activity.reportingPeriodStart} {t('stage2.dateRangeSeparator')} {activity.reportingPeriodEnd})
+                  </li>
+                ))}
+                {dependents.length > MAX_LISTED_ACTIVITIES && (
+                  <li>{t('stage1.factorDelete.moreActivities', { count: dependents.length - MAX_LISTED_ACTIVITIES })}</li>
+                )}
+              </ul>
+
+              <fieldset className="backup-mode">
+                <legend>{t('stage1.factorDelete.policyLabel')}</legend>
+                <label>
+                  <input
+                    type="radio"
+                    name="factor-delete-policy"
+                    value="reassign"
+                    checked={action === 'reassign'}
+                    onChange={() => setAction('reassign')}
+                    disabled={replacements.length === 0}
+                  />
+                  <span><strong>{t('stage1.factorDelete.reassign')}</strong> {t('stage1.factorDelete.reassignHelp')}</span>
+                </label>
+                {action === 'reassign' && (
+                  <select
+                    className="form-input"
+                    value={replacementId}
+                    onChange={(e) => setReplacementId(e.target.value)}
+                    aria-label={t('stage1.factorDelete.selectReplacement')}
+                  >
+                    <option value="">{t('stage1.factorDelete.selectReplacement')}</option>
+                    {replacements.map(factor => (
+                      <option key={factor._id} value={factor._id}>
+                        {factor.description} ({factor.co2ePerUnit} {factor.emissionFactorUnit}, {factor.location})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <label>
+                  <input
+                    type="radio"
+                    name="factor-delete-policy"
+                    value="detach"
+                    checked={action === 'detach'}
+                    onChange={() => setAction('detach')}
+                  />
+                  <span><strong>{t('stage1.factorDelete.detach')}</strong> {t('stage1.factorDelete.detachHelp')}</span>
+                </label>
+              </fieldset>
+              {action === null && (
+                <p className="form-help">{t('stage1.factorDelete.blockedHelp')}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modal-actions">
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={onClose}
+            disabled={isDeleting}
+          >
+            {t('stage1.cancel')}
+          </button>
+          <button
+            type="button"
+            className="btn btn-danger"
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+          >
+            {confirmText}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FactorDeleteModal;
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import {
+  importFactorPackFactors,
+  isFactorImported,
+  loadFactorPack,
+  loadFactorPackIndex,
+  searchFactorPack,
+  type FactorPack,
+  type FactorPackFactor,
+  type FactorPackSummary
+} from '@/lib/factorPacks';
+import type { EmissionFactor } from '@/domain';
+
+interface FactorPackBrowserProps {
+  onImportSuccess?: () => void;
+}
+
+// Browse the bundled factor packs and copy chosen factors into the saved ones
+const FactorPackBrowser: React.FC<FactorPackBrowserProps> = ({ onImportSuccess }) => {
+  const t = useTranslations();
+  const [packs, setPacks] = useState<FactorPackSummary[]>([]);
+  const [packId, setPackId] = useState('');
+  const [pack, setPack] = useState<FactorPack | null>(null);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<FactorPackFactor>>(new Set());
+  const [savedFactors, setSavedFactors] = useState<EmissionFactor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    loadFactorPackIndex()
+      .then((index) => {
+        setPacks(index);
+        if (index.length > 0) setPackId(index[0].id);
+      })
+      .catch((error) => {
+        console.error('Error loading factor packs:', error);
+        setErrorMsg(t('factorPacks.loadFailed'));
+      });
+  }, [t]);
+
+  useEffect(() => {
+    const summary = packs.find((entry) => entry.id === packId);
+    if (!summary) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setErrorMsg('');
+    setSelected(new Set());
+    loadFactorPack(summary)
+      .then((loaded) => {
+        if (!cancelled) setPack(loaded);
+      })
+      .catch((error) => {
+        console.error(`Error loading factor pack ${summary.id}:`, error);
+        if (!cancelled) {
+          setPack(null);
+          setErrorMsg(t('factorPacks.loadFailed'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [packs, packId, t]);
+
+  // Saved factors, to mark the ones a pack has already added
+  useEffect(() => {
+    const fetchSaved = async () => {
+      try {
+        setSavedFactors(await indexedDBService.getAllEmissionFactors());
+      } catch (error) {
+        console.error('Error loading emission factors:', error);
+      }
+    };
+    fetchSaved();
+    return indexedDBService.onDataChange(['emission_factors'], () => {
+      fetchSaved();
+    });
+  }, []);
+
+  const results = useMemo(
+    () => (pack ? searchFactorPack(pack, query) : []),
+    [pack, query]
+  );
+  const importable = results.filter(
+    (factor) => pack && !isFactorImported(pack, factor, savedFactors)
+  );
+  const allSelected = importable.length > 0 && importable.every((factor) => selected.has(factor));
+
+  const toggleFactor = (factor: FactorPackFactor, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(factor);
+      } else {
+        next.delete(factor);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(importable) : new Set());
+  };
+
+  const handleImport = async () => {
+    if (!pack || selected.size === 0) return;
+
+    setIsImporting(true);
+    setErrorMsg('');
+    try {
+      const summary = await importFactorPackFactors(pack, [...selected]);
+      setSelected(new Set());
+      toast.success(t('factorPacks.imported', { added: summary.added, skipped: summary.skipped }));
+      onImportSuccess?.();
+    } catch (error) {
+      console.error('Error importing factor pack:', error);
+      setErrorMsg(t('factorPacks.importFailed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="form-section">
+      <h3 className="section-title">{t('factorPacks.title')}</h3>
+      <p className="form-help">{t('factorPacks.description')}</p>
+
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="factor-pack">{t('factorPacks.pack')}</label>
+          <select
+            id="factor-pack"
+            className="form-input"
+            value={packId}
+            onChange={(e) => setPackId(e.target.value)}
+            disabled={packs.length === 0}
+          >
+            {packs.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {t('factorPacks.packOption', { name: entry.name, version: entry.version, location: entry.location })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="factor-pack-search">{t('factorPacks.search')}</label>
+          <input
+            id="factor-pack-search"
+            type="search"
+            className="form-input"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('factorPacks.searchPlaceholder')}
+          />
+        </div>
+      </div>
+
+      {pack && (
+        <p className="form-help">
+          {t('factorPacks.source', { publisher: pack.publisher, version: pack.version })}{' '}
+          {pack.url ? (
+            <a href={pack.url} target="_blank" rel="noopener noreferrer">{pack.citation}</a>
+          ) : pack.citation}
+        </p>
+      )}
+
+      {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+      {isLoading ? (
+        <p className="form-help">{t('common.loading')}</p>
+      ) : pack && results.length === 0 ? (
+        <p className="form-help">{t('factorPacks.noResults')}</p>
+      ) : pack && (
+        <table className="recycle-bin-table">
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={(e) => toggleAll(e.target.checked)}
+                  disabled={importable.length === 0}
+                  aria-label={t('common.selectAll')}
+                />
+              </th>
+              <th>{t('stage1.formLabels.description')}</th>
+              <th>{t('factorPacks.columns.scope')}</th>
+              <th>{t('factorPacks.columns.category')}</th>
+              <th>{t('factorPacks.columns.factor')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((factor) => {
+              const imported = isFactorImported(pack, factor, savedFactors);
+              return (
+                <tr key={`${factor.description}-${factor.location}-${factor.unit}`}>
+                  <td>
+                    {imported ? (
+                      <span title={t('factorPacks.alreadyAdded')}>✓</span>
+                    ) : (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(factor)}
+                        onChange={(e) => toggleFactor(factor, e.target.checked)}
+                        aria-label={factor.description}
+                      />
+                    )}
+                  </td>
+                  <td>
+                    {factor.description}
+                    {factor.citation && <div className="form-help">{factor.citation}</div>}
+                  </td>
+                  <td>{factor.scope}</td>
+                  <td>{factor.category}</td>
+                  <td>
+                    {factor.co2ePerUnit} {factor.emissionFactorUnit}
+                    {factor.versions && factor.versions.length > 0 && (
+                      <div className="form-help">
+                        {t('factorPacks.yearlyValues', { count: factor.versions.length })}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="form-actions">
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={handleImport}
+          disabled={isImporting || selected.size === 0}
+        >
+          {isImporting ? t('factorPacks.importing') : t('factorPacks.import', { count: selected.size })}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FactorPackBrowser;
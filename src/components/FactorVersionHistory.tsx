@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import { useTranslations } from 'next-intl';
+import { validateVersions, type FactorVersion } from '@/lib/factorVersions';
+
+interface FactorVersionHistoryProps {
+  versions: FactorVersion[];
+  onChange: (versions: FactorVersion[]) => void;
+  emissionFactorUnit: string;
+  disabled?: boolean;
+}
+
+// Editable list of the values an emission factor takes over time
+const FactorVersionHistory: React.FC<FactorVersionHistoryProps> = ({
+  versions,
+  onChange,
+  emissionFactorUnit,
+  disabled = false
+}) => {
+  const t = useTranslations();
+  const problem = validateVersions(versions);
+
+  const updateVersion = (index: number, changes: Partial<FactorVersion>) => {
+    onChange(versions.map((version, i) => (i === index ? { ...version, ...changes } : version)));
+  };
+
+  const addVersion = () => {
+    // Start the new version the day after the latest one ends
+    const last = versions.reduce<FactorVersion | null>(
+      (latest, version) => (!latest || version.validFrom > latest.validFrom ? version : latest),
+      null
+    );
+    let validFrom = '';
+    if (last?.validTo) {
+      const next = new Date(`${last.validTo}T00:00:00Z`);
+      next.setUTCDate(next.getUTCDate() + 1);
+      validFrom = next.toISOString().slice(0, 10);
+    }
+    onChange([...versions, { validFrom, validTo: null, co2ePerUnit: last?.co2ePerUnit ?? 0 }]);
+  };
+
+  return (
+    <div className="form-section factor-versions">
+      <h4 className="section-title">{t('stage1.versions.title')}</h4>
+      <p className="form-help">{t('stage1.versions.description')}</p>
+
+      {versions.length > 0 && (
+        <table className="factor-versions-table">
+          <thead>
+            <tr>
+              <th>{t('stage1.versions.validFrom')}</th>
+              <th>{t('stage1.versions.validTo')}</th>
+              <th>{t('stage1.versions.value', { unit: emissionFactorUnit })}</th>
+              <th>{t('common.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map((version, index) => (
+              <tr key={index} className={problem?.index === index ? 'csv-row-invalid' : ''}>
+                <td>
+                  <input
+                    type="date"
+                    className="form-input"
+                    value={version.validFrom}
+                    onChange={(e) => updateVersion(index, { validFrom: e.target.value })}
+                    aria-label={t('stage1.versions.validFrom')}
+                    disabled={disabled}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="date"
+                    className="form-input"
+                    value={version.validTo ?? ''}
+                    onChange={(e) => updateVersion(index, { validTo: e.target.value || null })}
+                    aria-label={t('stage1.versions.validTo')}
+                    disabled={disabled}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={version.co2ePerUnit}
+                    onChange={(e) => updateVersion(index, { co2ePerUnit: parseFloat(e.target.value) || 0 })}
+                    step="0.0001"
+                    min="0"
+                    aria-label={t('stage1.versions.value', { unit: emissionFactorUnit })}
+                    disabled={disabled}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="btn btn-small btn-danger"
+                    onClick={() => onChange(versions.filter((_, i) => i !== index))}
+                    title={t('stage1.versions.remove')}
+                    disabled={disabled}
+                  >
+                    <FaTrash />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {problem && (
+        <div className="form-error-message">{t(`stage1.versions.problems.${problem.problem}`)}</div>
+      )}
+
+      <button type="button" className="btn btn-small btn-secondary" onClick={addVersion} disabled={disabled}>
+        <FaPlus /> {t('stage1.versions.add')}
+      </button>
+    </div>
+  );
+};
+
+export default FactorVersionHistory;
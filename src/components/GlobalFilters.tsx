@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import type { FilterConfig } from '../types/analytics';
-import type { ReportingActivity } from '@/lib/indexedDB';
+import { activityValue, type ReportingActivity } from '@/domain';
 
 interface GlobalFiltersProps {
   data: ReportingActivity[];
@@ -39,7 +39,7 @@ const GlobalFilters: React.FC<GlobalFiltersProps> = ({ data, filters, onFiltersC
   ];
 
   const getUniqueValues = (field: string): string[] => {
-    const values = data.map(item => item[field as keyof ReportingActivity]);
+    const values = data.map(item => activityValue(item, field));
     const uniqueValues = [...new Set(values)].filter(v => v !== undefined && v !== null);
     return uniqueValues.map(v => String(v)).sort();
   };
@@ -85,7 +85,7 @@ const GlobalFilters: React.FC<GlobalFiltersProps> = ({ data, filters, onFiltersC
     localFilters.forEach(filter => {
       if (filter.value && filter.value !== '') {
         filtered = filtered.filter(activity => {
-          const fieldValue = activity[filter.field as keyof ReportingActivity];
+          const fieldValue = activityValue(activity, filter.field);
           if (fieldValue === undefined || fieldValue === null) return false;
           
           const fieldStr = String(fieldValue).toLowerCase();
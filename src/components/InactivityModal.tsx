@@ -7,17 +7,22 @@ interface InactivityModalProps {
   isOpen: boolean;
   onExtendSession: () => void;
   onClearData: () => void;
-  timeRemaining: number;
+  // When the data is wiped, in epoch milliseconds
+  deadline: number;
+  inactivityMinutes: number;
+  warningMinutes: number;
 }
 
 const InactivityModal: React.FC<InactivityModalProps> = ({
   isOpen,
   onExtendSession,
   onClearData,
-  timeRemaining
+  deadline,
+  inactivityMinutes,
+  warningMinutes
 }) => {
   const t = useTranslations();
-  const [countdown, setCountdown] = useState(timeRemaining);
+  const [now, setNow] = useState(() => Date.now());
 
   // Prevent body scroll and interaction when modal is open
   useEffect(() => {
@@ -44,28 +49,21 @@ const InactivityModal: React.FC<InactivityModalProps> = ({
     };
   }, [isOpen]);
 
+  // The countdown is read off the clock rather than counted down, so it stays
+  // right after the tab was throttled or the computer slept. The session
+  // manager wipes the data when the deadline passes.
   useEffect(() => {
     if (!isOpen) return;
 
-    const interval = setInterval(() => {
-      setCountdown(prev => {
-        if (prev <= 1000) {
-          onClearData();
-          return 0;
-        }
-        return prev - 1000;
-      });
-    }, 1000);
-
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [isOpen, onClearData]);
-
-  useEffect(() => {
-    setCountdown(timeRemaining);
-  }, [timeRemaining]);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  const countdown = Math.max(0, deadline - now);
+
   const formatTime = (ms: number): string => {
     const minutes = Math.floor(ms / 60000);
     const seconds = Math.floor((ms % 60000) / 1000);
@@ -73,7 +71,7 @@ const InactivityModal: React.FC<InactivityModalProps> = ({
   };
 
   const getProgressPercentage = (): number => {
-    const totalTime = 10 * 60 * 1000; // 10 minutes
+    const totalTime = warningMinutes * 60 * 1000;
     return ((totalTime - countdown) / totalTime) * 100;
   };
 
@@ -137,7 +135,7 @@ const InactivityModal: React.FC<InactivityModalProps> = ({
 
         <div className="modal-footer">
           <small>
-            {t('dataRetention.description', { inactivityMinutes: 20, modalMinutes: 10 })}
+            {t('dataRetention.description', { inactivityMinutes, modalMinutes: warningMinutes })}
           </small>
         </div>
       </div>
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FaLock } from 'react-icons/fa';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type VaultStatus } from '@/lib/indexedDB';
+import appLock, { MAX_PIN_LENGTH } from '@/lib/appLock';
+import { VaultPassphraseError } from '@/lib/vault';
+
+interface LockScreenProps {
+  vaultStatus: VaultStatus | null;
+  onUnlock: () => void;
+}
+
+// Shown over the blurred page while the app is locked after inactivity. With
+// the vault on it asks for the vault passphrase, otherwise for the PIN.
+const LockScreen: React.FC<LockScreenProps> = ({ vaultStatus, onUnlock }) => {
+  const t = useTranslations();
+  const [secret, setSecret] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const usesVault = vaultStatus !== null && vaultStatus !== 'disabled';
+  // The PIN may have been removed in another tab while this one was locked
+  const needsSecret = usesVault || appLock.hasPin();
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsSecret && !secret) return;
+
+    setIsUnlocking(true);
+    setErrorMsg('');
+    try {
+      if (usesVault) {
+        await indexedDBService.unlockVault(secret);
+      } else if (needsSecret && !(await appLock.verifyPin(secret))) {
+        setErrorMsg(t('lockScreen.wrongPin'));
+        return;
+      }
+      setSecret('');
+      onUnlock();
+    } catch (error) {
+      console.error('Error unlocking:', error);
+      setErrorMsg(error instanceof VaultPassphraseError ? t('vault.unlock.wrongPassphrase') : t('vault.unlock.failed'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay lock-screen-overlay">
+      <div className="modal-content lock-screen">
+        <div className="modal-header">
+          <h2 className="modal-title">
+            <FaLock /> {t('lockScreen.title')}
+          </h2>
+        </div>
+        <form className="modal-body" onSubmit={handleUnlock}>
+          <p className="form-help">
+            {usesVault
+              ? t('lockScreen.passphraseDescription')
+              : needsSecret ? t('lockScreen.pinDescription') : t('lockScreen.description')}
+          </p>
+          {vaultStatus !== null && needsSecret && (
+            <div className="form-group">
+              <label htmlFor="lock-screen-secret">
+                {usesVault ? t('vault.passphrase') : t('lockScreen.pin')}
+              </label>
+              <input
+                id="lock-screen-secret"
+                type="password"
+                className="form-input"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                inputMode={usesVault ? undefined : 'numeric'}
+                maxLength={usesVault ? undefined : MAX_PIN_LENGTH}
+                autoComplete={usesVault ? 'current-password' : 'off'}
+                autoFocus
+                disabled={isUnlocking}
+              />
+            </div>
+          )}
+
+          {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+          <div className="form-actions">
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={vaultStatus === null || isUnlocking || (needsSecret && !secret)}
+            >
+              {isUnlocking ? t('vault.unlock.unlocking') : t('vault.unlock.button')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
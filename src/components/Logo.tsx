@@ -1,5 +1,6 @@
 import React from 'react';
 import LanguageSelector from './LanguageSelector';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
 
 const Logo: React.FC = () => {
   // Get base path for GitHub Pages
@@ -16,7 +17,10 @@ const Logo: React.FC = () => {
           className="logo-image"
         />
       </div>
-      <LanguageSelector />
+      <div className="header-controls">
+        <WorkspaceSwitcher />
+        <LanguageSelector />
+      </div>
     </div>
   );
 };
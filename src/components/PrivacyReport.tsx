@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import retentionPolicy, { DEFAULT_RETENTION_POLICY, type RetentionPolicy } from '@/lib/retentionPolicy';
+import {
+  MAX_RETENTION_LOG_ENTRIES,
+  countRemoved,
+  type RetentionLogEntry
+} from '@/lib/retentionLog';
+import { MAX_RETENTION_SNAPSHOTS } from '@/lib/retentionSnapshot';
+import RetentionNotice from './RetentionNotice';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+
+type StorageLocation = 'indexedDB' | 'localStorage' | 'sessionStorage';
+
+interface InventoryItem {
+  id: string;
+  location: StorageLocation;
+  // Database stores the item covers, counted in the report
+  stores?: string[];
+}
+
+// Everything the app keeps in the browser. Nothing is sent anywhere else.
+const INVENTORY: InventoryItem[] = [
+  {
+    id: 'records',
+    location: 'indexedDB',
+    stores: ['reporting_activities', 'emission_factors', 'ghg_reporting_standards', 'attachments']
+  },
+  { id: 'history', location: 'indexedDB', stores: ['audit_log', 'recycle_bin'] },
+  { id: 'snapshots', location: 'indexedDB', stores: ['retention_snapshots'] },
+  { id: 'retentionLog', location: 'indexedDB', stores: ['retention_log'] },
+  { id: 'customFields', location: 'indexedDB', stores: ['emission_factor_fields'] },
+  { id: 'databaseSettings', location: 'indexedDB', stores: ['app_meta'] },
+  { id: 'preferences', location: 'localStorage' },
+  { id: 'session', location: 'localStorage' },
+  { id: 'notices', location: 'sessionStorage' }
+];
+
+// What the app stores, where and for how long, and the bulk deletions it has made
+const PrivacyReport: React.FC = () => {
+  const t = useTranslations();
+  const [policy, setPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [isPolicyPinned, setIsPolicyPinned] = useState(false);
+  const [recordCounts, setRecordCounts] = useState<Record<string, number>>({});
+  const [log, setLog] = useState<RetentionLogEntry[]>([]);
+  const [isClearing, setIsClearing] = useState(false);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+
+  const fetchReport = async () => {
+    try {
+      const [usage, entries] = await Promise.all([
+        indexedDBService.getStoreUsage(),
+        indexedDBService.getRetentionLog()
+      ]);
+      setRecordCounts(Object.fromEntries(usage.map((store) => [store.storeName, store.records])));
+      setLog(entries);
+    } catch (error) {
+      console.error('Error loading privacy report:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+    return indexedDBService.onDataChange(null, () => {
+      fetchReport();
+    });
+  }, []);
+
+  useEffect(() => {
+    setPolicy(retentionPolicy.getPolicy());
+    setIsPolicyPinned(retentionPolicy.isPinned());
+    const unsubscribe = retentionPolicy.onChange((nextPolicy, source) => {
+      setPolicy(nextPolicy);
+      setIsPolicyPinned(source === 'pinned');
+    });
+    retentionPolicy.loadPinnedPolicy();
+    return unsubscribe;
+  }, []);
+
+  const confirmClearLog = async () => {
+    setIsClearing(true);
+    try {
+      await indexedDBService.clearRetentionLog();
+      toast.success(t('privacyReport.log.cleared'));
+    } catch (error) {
+      console.error('Error clearing retention log:', error);
+      toast.error(t('privacyReport.log.clearFailed'));
+    } finally {
+      setIsClearing(false);
+      setShowClearConfirm(false);
+    }
+  };
+
+  const storeLabel = (storeName: string) =>
+    t.has(`storage.stores.${storeName}`) ? t(`storage.stores.${storeName}`) : storeName;
+
+  const countRecords = (stores: string[]) =>
+    stores.reduce((sum, storeName) => sum + (recordCounts[storeName] ?? 0), 0);
+
+  const describeRemoved = (entry: RetentionLogEntry) =>
+    Object.entries(entry.removed)
+      .filter(([, count]) => count > 0)
+      .map(([storeName, count]) => `${storeLabel(storeName)}: ${count.toLocaleString()}`)
+      .join(', ');
+
+  return (
+    <div>
+      <div className="form-section">
+        <h2 className="section-title">{t('privacyReport.title')}</h2>
+        <p className="form-help">{t('privacyReport.description')}</p>
+        <p className="form-help">
+          <Link href="/">{t('privacyReport.back')}</Link>
+        </p>
+      </div>
+
+      <div className="form-section">
+        <h3 className="section-title">{t('privacyReport.policyTitle')}</h3>
+        <div className="data-retention-notice">
+          <p>
+            <RetentionNotice policy={policy} isPinned={isPolicyPinned} />
+          </p>
+        </div>
+      </div>
+
+      <div className="form-section">
+        <h3 className="section-title">{t('privacyReport.inventoryTitle')}</h3>
+        <table className="storage-usage-table">
+          <thead>
+            <tr>
+              <th>{t('privacyReport.columns.data')}</th>
+              <th>{t('privacyReport.columns.location')}</th>
+              <th>{t('privacyReport.columns.records')}</th>
+              <th>{t('privacyReport.columns.retention')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {INVENTORY.map((item) => (
+              <tr key={item.id}>
+                <td>{t(`privacyReport.inventory.${item.id}.name`)}</td>
+                <td>{t(`privacyReport.locations.${item.location}`)}</td>
+                <td>{item.stores ? countRecords(item.stores).toLocaleString() : '—'}</td>
+                <td>
+                  {t(`privacyReport.inventory.${item.id}.retention`, {
+                    snapshots: MAX_RETENTION_SNAPSHOTS,
+                    entries: MAX_RETENTION_LOG_ENTRIES
+                  })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="form-section">
+        <h3 className="section-title">{t('privacyReport.log.title')}</h3>
+        <p className="form-help">
+          {t('privacyReport.log.description', { entries: MAX_RETENTION_LOG_ENTRIES })}
+        </p>
+
+        {log.length === 0 ? (
+          <p className="form-help">{t('privacyReport.log.empty')}</p>
+        ) : (
+          <>
+            <table className="recycle-bin-table">
+              <thead>
+                <tr>
+                  <th>{t('privacyReport.log.columns.when')}</th>
+                  <th>{t('privacyReport.log.columns.trigger')}</th>
+                  <th>{t('privacyReport.log.columns.removed')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {log.map((entry) => (
+                  <tr key={entry._id}>
+                    <td>{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td>{t(`privacyReport.log.triggers.${entry.trigger}`)}</td>
+                    <td>
+                      {countRemoved(entry) === 0
+                        ? t('privacyReport.log.nothingRemoved')
+                        : describeRemoved(entry)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="form-actions">
+              <button
+                type="button"
+                className="btn btn-danger"
+                onClick={() => setShowClearConfirm(true)}
+                disabled={isClearing}
+              >
+                {t('privacyReport.log.clear')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <DeleteConfirmationModal
+        isOpen={showClearConfirm}
+        onClose={() => setShowClearConfirm(false)}
+        onConfirm={confirmClearLog}
+        title={t('privacyReport.log.clearTitle')}
+        message={t('privacyReport.log.clearMessage')}
+        confirmText={t('privacyReport.log.clear')}
+        cancelText={t('common.cancel')}
+      />
+    </div>
+  );
+};
+
+export default PrivacyReport;
@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type AuditEntry, type AuditedStore } from '@/lib/indexedDB';
+import AuditEntryDetails from './AuditEntryDetails';
+
+interface RecordHistoryProps {
+  storeName: AuditedStore;
+  recordId: string;
+}
+
+const RecordHistory: React.FC<RecordHistoryProps> = ({ storeName, recordId }) => {
+  const t = useTranslations();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    setIsLoading(true);
+    indexedDBService.getAuditLog({ storeName, recordId })
+      .then(setEntries)
+      .catch((error) => console.error('Error loading record history:', error))
+      .finally(() => setIsLoading(false));
+  }, [isExpanded, storeName, recordId]);
+
+  return (
+    <div className="form-section record-history">
+      <button
+        type="button"
+        className="record-history-toggle"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        <span className="section-title">{t('audit.recordHistory')}</span>
+        <span className={`language-arrow ${isExpanded ? 'open' : ''}`}>▼</span>
+      </button>
+
+      {isExpanded && (
+        isLoading ? (
+          <p className="form-help">{t('common.loading')}</p>
+        ) : entries.length === 0 ? (
+          <p className="form-help">{t('audit.noHistory')}</p>
+        ) : (
+          <div className="audit-entries">
+            {entries.map((entry) => (
+              <AuditEntryDetails key={entry._id} entry={entry} />
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default RecordHistory;
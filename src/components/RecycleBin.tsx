@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type RecycleBinEntry } from '@/lib/indexedDB';
+import { describeRecord } from '@/lib/audit';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+
+const RecycleBin: React.FC = () => {
+  const t = useTranslations();
+  const [entries, setEntries] = useState<RecycleBinEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [purgingEntry, setPurgingEntry] = useState<RecycleBinEntry | null>(null);
+  const [showEmptyModal, setShowEmptyModal] = useState(false);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await indexedDBService.getRecycleBin());
+    } catch (error) {
+      console.error('Error loading recycle bin:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+    // Deletions anywhere, including other tabs, add entries to the bin
+    return indexedDBService.onDataChange(['recycle_bin'], () => {
+      fetchEntries();
+    });
+  }, []);
+
+  const handleRestore = async (entry: RecycleBinEntry) => {
+    if (entry._id === undefined) return;
+
+    setIsWorking(true);
+    try {
+      const summary = await indexedDBService.restoreFromRecycleBin(entry._id);
+      toast.success(t('recycleBin.toast.restored', {
+        name: describeRecord(entry.storeName, entry.record, entry.recordId)
+      }));
+      if (summary.relinkedActivities > 0) {
+        toast.success(t('recycleBin.toast.relinked', { count: summary.relinkedActivities }));
+      }
+    } catch (error) {
+      console.error('Error restoring from recycle bin:', error);
+      toast.error(t('recycleBin.toast.restoreFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmPurge = async () => {
+    if (purgingEntry?._id === undefined) return;
+
+    setIsWorking(true);
+    try {
+      await indexedDBService.purgeRecycleBinEntry(purgingEntry._id);
+      toast.success(t('recycleBin.toast.purged'));
+    } catch (error) {
+      console.error('Error purging recycle bin entry:', error);
+      toast.error(t('recycleBin.toast.purgeFailed'));
+    } finally {
+      setIsWorking(false);
+      setPurgingEntry(null);
+    }
+  };
+
+  const confirmEmpty = async () => {
+    setIsWorking(true);
+    try {
+      await indexedDBService.emptyRecycleBin();
+      toast.success(t('recycleBin.toast.emptied'));
+    } catch (error) {
+      console.error('Error emptying recycle bin:', error);
+      toast.error(t('recycleBin.toast.purgeFailed'));
+    } finally {
+      setIsWorking(false);
+      setShowEmptyModal(false);
+    }
+  };
+
+  return (
+    <div className="form-section recycle-bin">
+      <h3 className="section-title">{t('recycleBin.title')}</h3>
+      <p className="form-help">{t('recycleBin.description')}</p>
+
+      <div className="form-actions">
+        <button type="button" className="btn btn-secondary" onClick={fetchEntries} disabled={isLoading}>
+          {t('common.refresh')}
+        </button>
+        <button
+          type="button"
+          className="btn btn-danger"
+          onClick={() => setShowEmptyModal(true)}
+          disabled={isWorking || entries.length === 0}
+        >
+          {t('recycleBin.emptyButton')}
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="form-help">{isLoading ? t('common.loading') : t('recycleBin.empty')}</p>
+      ) : (
+        <table className="recycle-bin-table">
+          <thead>
+            <tr>
+              <th>{t('recycleBin.columns.type')}</th>
+              <th>{t('recycleBin.columns.record')}</th>
+              <th>{t('recycleBin.columns.deleted')}</th>
+              <th>{t('common.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry._id}>
+                <td>{t(`audit.stores.${entry.storeName}`)}</td>
+                <td>{describeRecord(entry.storeName, entry.record, entry.recordId)}</td>
+                <td>
+                  {t('audit.byActor', { actor: entry.deletedBy, date: new Date(entry.deletedAt).toLocaleString() })}
+                </td>
+                <td className="recycle-bin-actions">
+                  <button
+                    type="button"
+                    className="btn btn-primary btn-small"
+                    onClick={() => handleRestore(entry)}
+                    disabled={isWorking}
+                  >
+                    {t('recycleBin.restore')}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-danger btn-small"
+                    onClick={() => setPurgingEntry(entry)}
+                    disabled={isWorking}
+                  >
+                    {t('recycleBin.purge')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <DeleteConfirmationModal
+        isOpen={purgingEntry !== null}
+        onClose={() => setPurgingEntry(null)}
+        onConfirm={confirmPurge}
+        title={t('recycleBin.purgeTitle')}
+        message={t('recycleBin.purgeMessage')}
+        confirmText={t('recycleBin.purge')}
+        cancelText={t('common.cancel')}
+      />
+
+      <DeleteConfirmationModal
+        isOpen={showEmptyModal}
+        onClose={() => setShowEmptyModal(false)}
+        onConfirm={confirmEmpty}
+        title={t('recycleBin.emptyTitle')}
+        message={t('recycleBin.emptyMessage', { count: entries.length })}
+        confirmText={t('recycleBin.emptyButton')}
+        cancelText={t('common.cancel')}
+      />
+    </div>
+  );
+};
+
+export default RecycleBin;
@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+import type { RetentionPolicy } from '@/lib/retentionPolicy';
+
+interface RetentionNoticeProps {
+  policy: RetentionPolicy;
+  isPinned: boolean;
+}
+
+// One sentence on what happens to the data when the app is left idle
+const RetentionNotice: React.FC<RetentionNoticeProps> = ({ policy, isPinned }) => {
+  const t = useTranslations();
+
+  const renderDescription = () => {
+    switch (policy.mode) {
+      case 'lock-only':
+        return policy.lockedWipeHours === null
+          ? t('dataRetention.lockOnly', { inactivityMinutes: policy.inactivityMinutes })
+          : t('dataRetention.lockOnlyWipe', {
+            inactivityMinutes: policy.inactivityMinutes,
+            hours: policy.lockedWipeHours
+          });
+      case 'persistent':
+        return t('dataRetention.persistent');
+      default:
+        return t('dataRetention.description', {
+          inactivityMinutes: policy.inactivityMinutes,
+          modalMinutes: policy.warningMinutes
+        });
+    }
+  };
+
+  return (
+    <>
+      <strong>{t('dataRetention.note')}</strong> {renderDescription()}
+      {isPinned && <> {t('dataRetention.pinned')}</>}
+    </>
+  );
+};
+
+export default RetentionNotice;
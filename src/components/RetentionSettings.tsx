@@ -0,0 +1,274 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import type { VaultStatus } from '@/lib/indexedDB';
+import appLock, { MAX_PIN_LENGTH, MIN_PIN_LENGTH, isValidPin } from '@/lib/appLock';
+import retentionPolicy, {
+  MAX_LOCKED_WIPE_HOURS,
+  MAX_RETENTION_MINUTES,
+  MIN_LOCKED_WIPE_HOURS,
+  MIN_RETENTION_MINUTES,
+  RETENTION_MODES,
+  parseRetentionPolicy,
+  type RetentionMode
+} from '@/lib/retentionPolicy';
+
+interface RetentionSettingsProps {
+  vaultStatus: VaultStatus;
+}
+
+const MODE_KEYS: Record<RetentionMode, string> = {
+  'auto-wipe': 'autoWipe',
+  'lock-only': 'lockOnly',
+  persistent: 'persistent'
+};
+
+// Choose what happens to the data when the app is left idle
+const RetentionSettings: React.FC<RetentionSettingsProps> = ({ vaultStatus }) => {
+  const t = useTranslations();
+  const [isPinned, setIsPinned] = useState(retentionPolicy.isPinned());
+  const [mode, setMode] = useState<RetentionMode>(retentionPolicy.getPolicy().mode);
+  const [inactivityMinutes, setInactivityMinutes] = useState(String(retentionPolicy.getPolicy().inactivityMinutes));
+  const [warningMinutes, setWarningMinutes] = useState(String(retentionPolicy.getPolicy().warningMinutes));
+  const [lockedWipeHours, setLockedWipeHours] = useState(String(retentionPolicy.getPolicy().lockedWipeHours ?? ''));
+  const [errorMsg, setErrorMsg] = useState('');
+  const [hasPin, setHasPin] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinError, setPinError] = useState('');
+  const [isSavingPin, setIsSavingPin] = useState(false);
+
+  useEffect(() => {
+    return retentionPolicy.onChange((policy, source) => {
+      setIsPinned(source === 'pinned');
+      setMode(policy.mode);
+      setInactivityMinutes(String(policy.inactivityMinutes));
+      setWarningMinutes(String(policy.warningMinutes));
+      setLockedWipeHours(String(policy.lockedWipeHours ?? ''));
+      setErrorMsg('');
+    });
+  }, []);
+
+  useEffect(() => {
+    setHasPin(appLock.hasPin());
+  }, []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Leaving the locked period empty keeps the data however long it lasts
+    const hours = lockedWipeHours.trim() === '' ? null : Number(lockedWipeHours);
+    let policy;
+    try {
+      policy = parseRetentionPolicy({
+        mode,
+        inactivityMinutes: Number(inactivityMinutes),
+        warningMinutes: Number(warningMinutes),
+        lockedWipeHours: hours
+      });
+    } catch {
+      const hoursValid = hours === null ||
+        (Number.isInteger(hours) && hours >= MIN_LOCKED_WIPE_HOURS && hours <= MAX_LOCKED_WIPE_HOURS);
+      setErrorMsg(hoursValid
+        ? t('retention.invalidMinutes', { min: MIN_RETENTION_MINUTES, max: MAX_RETENTION_MINUTES })
+        : t('retention.invalidHours', { min: MIN_LOCKED_WIPE_HOURS, max: MAX_LOCKED_WIPE_HOURS }));
+      return;
+    }
+
+    try {
+      retentionPolicy.setPolicy(policy);
+      setErrorMsg('');
+      toast.success(t('retention.toast.saved'));
+    } catch (error) {
+      console.error('Error saving retention policy:', error);
+      toast.error(t('retention.toast.saveFailed'));
+    }
+  };
+
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setPinError(t('retention.pin.invalid', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH }));
+      return;
+    }
+    if (pin !== confirmPin) {
+      setPinError(t('retention.pin.mismatch'));
+      return;
+    }
+
+    setIsSavingPin(true);
+    setPinError('');
+    try {
+      await appLock.setPin(pin);
+      setPin('');
+      setConfirmPin('');
+      setHasPin(true);
+      toast.success(t('retention.pin.toast.saved'));
+    } catch (error) {
+      console.error('Error setting lock PIN:', error);
+      toast.error(t('retention.pin.toast.saveFailed'));
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  const handleRemovePin = () => {
+    appLock.clearPin();
+    setHasPin(false);
+    toast.success(t('retention.pin.toast.removed'));
+  };
+
+  return (
+    <div className="form-section retention-settings">
+      <h3 className="section-title">{t('retention.title')}</h3>
+      <p className="form-help">{t('retention.description')}</p>
+      {isPinned && <p className="form-help">{t('retention.pinned')}</p>}
+
+      <form onSubmit={handleSave}>
+        <fieldset className="backup-mode" disabled={isPinned}>
+          <legend>{t('retention.modeLabel')}</legend>
+          {RETENTION_MODES.map((option) => (
+            <label key={option}>
+              <input
+                type="radio"
+                name="retention-mode"
+                value={option}
+                checked={mode === option}
+                onChange={() => setMode(option)}
+              />
+              <span>
+                <strong>{t(`retention.modes.${MODE_KEYS[option]}`)}</strong>{' '}
+                {t(`retention.modes.${MODE_KEYS[option]}Help`)}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        {mode === 'lock-only' && vaultStatus === 'disabled' && !hasPin && (
+          <p className="form-help">{t('retention.lockNeedsPin')}</p>
+        )}
+
+        {mode !== 'persistent' && (
+          <div className="form-grid">
+            <div className="form-group">
+              <label htmlFor="retention-inactivity-minutes">{t('retention.inactivityMinutes')}</label>
+              <input
+                id="retention-inactivity-minutes"
+                type="number"
+                className="form-input"
+                value={inactivityMinutes}
+                onChange={(e) => setInactivityMinutes(e.target.value)}
+                min={MIN_RETENTION_MINUTES}
+                max={MAX_RETENTION_MINUTES}
+                step="1"
+                disabled={isPinned}
+              />
+            </div>
+            {mode === 'auto-wipe' && (
+              <div className="form-group">
+                <label htmlFor="retention-warning-minutes">{t('retention.warningMinutes')}</label>
+                <input
+                  id="retention-warning-minutes"
+                  type="number"
+                  className="form-input"
+                  value={warningMinutes}
+                  onChange={(e) => setWarningMinutes(e.target.value)}
+                  min={MIN_RETENTION_MINUTES}
+                  max={MAX_RETENTION_MINUTES}
+                  step="1"
+                  disabled={isPinned}
+                />
+              </div>
+            )}
+            {mode === 'lock-only' && (
+              <div className="form-group">
+                <label htmlFor="retention-locked-wipe-hours">{t('retention.lockedWipeHours')}</label>
+                <input
+                  id="retention-locked-wipe-hours"
+                  type="number"
+                  className="form-input"
+                  value={lockedWipeHours}
+                  onChange={(e) => setLockedWipeHours(e.target.value)}
+                  min={MIN_LOCKED_WIPE_HOURS}
+                  max={MAX_LOCKED_WIPE_HOURS}
+                  step="1"
+                  placeholder={t('retention.lockedWipeNever')}
+                  disabled={isPinned}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+        {!isPinned && (
+          <div className="form-actions">
+            <button type="submit" className="btn btn-primary">
+              {t('retention.saveButton')}
+            </button>
+          </div>
+        )}
+      </form>
+
+      {/* The PIN is set even when the policy is pinned */}
+      {mode === 'lock-only' && (
+        vaultStatus === 'disabled' ? (
+          <form onSubmit={handleSetPin}>
+            <h4 className="section-title">{t('retention.pin.title')}</h4>
+            <p className="form-help">{hasPin ? t('retention.pin.set') : t('retention.pin.description')}</p>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="retention-pin">{t('retention.pin.newPin')}</label>
+                <input
+                  id="retention-pin"
+                  type="password"
+                  className="form-input"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                  inputMode="numeric"
+                  maxLength={MAX_PIN_LENGTH}
+                  autoComplete="off"
+                  disabled={isSavingPin}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="retention-confirm-pin">{t('retention.pin.confirmPin')}</label>
+                <input
+                  id="retention-confirm-pin"
+                  type="password"
+                  className="form-input"
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value)}
+                  inputMode="numeric"
+                  maxLength={MAX_PIN_LENGTH}
+                  autoComplete="off"
+                  disabled={isSavingPin}
+                />
+              </div>
+            </div>
+
+            {pinError && <div className="csv-error">{pinError}</div>}
+
+            <div className="form-actions">
+              <button type="submit" className="btn btn-primary" disabled={isSavingPin || !pin}>
+                {hasPin ? t('retention.pin.changeButton') : t('retention.pin.setButton')}
+              </button>
+              {hasPin && (
+                <button type="button" className="btn btn-secondary" onClick={handleRemovePin} disabled={isSavingPin}>
+                  {t('retention.pin.removeButton')}
+                </button>
+              )}
+            </div>
+          </form>
+        ) : (
+          <p className="form-help">{t('retention.pin.usesVault')}</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default RetentionSettings;
@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import {
+  MAX_RETENTION_SNAPSHOTS,
+  disableRetentionSnapshots,
+  enableRetentionSnapshots,
+  isRetentionSnapshotEnabled,
+  restoreRetentionSnapshot,
+  SealedSnapshotError,
+  type RetentionSnapshot
+} from '@/lib/retentionSnapshot';
+import { MIN_PASSPHRASE_LENGTH, VaultPassphraseError } from '@/lib/vault';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+
+// Encrypted copies of the data taken before an inactivity wipe
+const RetentionSnapshots: React.FC = () => {
+  const t = useTranslations();
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [snapshots, setSnapshots] = useState<RetentionSnapshot[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [restoring, setRestoring] = useState<RetentionSnapshot | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [deleting, setDeleting] = useState<RetentionSnapshot | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const fetchSnapshots = async () => {
+    try {
+      setIsEnabled(await isRetentionSnapshotEnabled());
+      setSnapshots(await indexedDBService.getRetentionSnapshots());
+    } catch (error) {
+      console.error('Error loading retention snapshots:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSnapshots();
+    return indexedDBService.onDataChange(['retention_snapshots'], () => {
+      fetchSnapshots();
+    });
+  }, []);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setErrorMsg(t('vault.settings.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setErrorMsg(t('vault.settings.mismatch'));
+      return;
+    }
+
+    setIsWorking(true);
+    setErrorMsg('');
+    try {
+      await enableRetentionSnapshots(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setIsEnabled(true);
+      toast.success(t('retentionSnapshots.toast.enabled'));
+    } catch (error) {
+      console.error('Error enabling retention snapshots:', error);
+      toast.error(t('retentionSnapshots.toast.enableFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsWorking(true);
+    try {
+      await disableRetentionSnapshots();
+      setIsEnabled(false);
+      toast.success(t('retentionSnapshots.toast.disabled'));
+    } catch (error) {
+      console.error('Error disabling retention snapshots:', error);
+      toast.error(t('retentionSnapshots.toast.disableFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restoring) return;
+
+    setIsWorking(true);
+    setErrorMsg('');
+    try {
+      const summary = await restoreRetentionSnapshot(restoring, restorePassphrase);
+      toast.success(t('retentionSnapshots.toast.restored', {
+        factors: summary.factorsAdded,
+        activities: summary.activitiesAdded,
+        attachments: summary.attachmentsAdded
+      }));
+      setRestoring(null);
+      setRestorePassphrase('');
+    } catch (error) {
+      if (error instanceof VaultPassphraseError) {
+        setErrorMsg(t('vault.unlock.wrongPassphrase'));
+      } else if (error instanceof SealedSnapshotError) {
+        setErrorMsg(t('retentionSnapshots.sealedUnavailable'));
+      } else {
+        console.error('Error restoring retention snapshot:', error);
+        toast.error(t('retentionSnapshots.toast.restoreFailed'));
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (deleting?._id === undefined) return;
+    try {
+      await indexedDBService.deleteRetentionSnapshot(deleting._id);
+      toast.success(t('retentionSnapshots.toast.deleted'));
+    } catch (error) {
+      console.error('Error deleting retention snapshot:', error);
+      toast.error(t('retentionSnapshots.toast.deleteFailed'));
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="form-section retention-snapshots">
+      <h3 className="section-title">{t('retentionSnapshots.title')}</h3>
+      <p className="form-help">{t('retentionSnapshots.description', { max: MAX_RETENTION_SNAPSHOTS })}</p>
+
+      {isEnabled ? (
+        <>
+          <p className="form-help">{t('retentionSnapshots.enabledDescription')}</p>
+          <div className="form-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleDisable} disabled={isWorking}>
+              {t('retentionSnapshots.disableButton')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <form onSubmit={handleEnable}>
+          <div className="form-grid">
+            <div className="form-group">
+              <label htmlFor="snapshot-passphrase">{t('vault.passphrase')}</label>
+              <input
+                id="snapshot-passphrase"
+                type="password"
+                className="form-input"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+                disabled={isWorking}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="snapshot-confirm-passphrase">{t('vault.settings.confirmPassphrase')}</label>
+              <input
+                id="snapshot-confirm-passphrase"
+                type="password"
+                className="form-input"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                autoComplete="new-password"
+                disabled={isWorking}
+              />
+            </div>
+          </div>
+          <p className="form-help">{t('retentionSnapshots.warning')}</p>
+          <div className="form-actions">
+            <button type="submit" className="btn btn-primary" disabled={isWorking || !passphrase}>
+              {t('retentionSnapshots.enableButton')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!restoring && errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+      {snapshots.length === 0 ? (
+        <p className="form-help">{t('retentionSnapshots.empty')}</p>
+      ) : (
+        <table className="recycle-bin-table">
+          <thead>
+            <tr>
+              <th>{t('retentionSnapshots.columns.taken')}</th>
+              <th>{t('retentionSnapshots.columns.contents')}</th>
+              <th>{t('common.actions')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {snapshots.map((snapshot) => (
+              <tr key={snapshot._id}>
+                <td>{new Date(snapshot.createdAt).toLocaleString()}</td>
+                <td>
+                  {t('retentionSnapshots.contents', {
+                    activities: snapshot.counts.activities,
+                    factors: snapshot.counts.factors,
+                    attachments: snapshot.counts.attachments
+                  })}
+                  {snapshot.sealed && (
+                    <div className="form-help">{t('retentionSnapshots.sealed')}</div>
+                  )}
+                </td>
+                <td className="recycle-bin-actions">
+                  <button
+                    type="button"
+                    className="btn btn-primary btn-small"
+                    onClick={() => {
+                      setRestoring(snapshot);
+                      setRestorePassphrase('');
+                      setErrorMsg('');
+                    }}
+                    disabled={isWorking}
+                  >
+                    {t('retentionSnapshots.restore')}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-danger btn-small"
+                    onClick={() => setDeleting(snapshot)}
+                    disabled={isWorking}
+                  >
+                    {t('common.delete')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {restoring && (
+        <form onSubmit={handleRestore}>
+          <p className="form-help">
+            {t('retentionSnapshots.restoreDescription', { date: new Date(restoring.createdAt).toLocaleString() })}
+          </p>
+          <div className="form-group">
+            <label htmlFor="snapshot-restore-passphrase">{t('vault.passphrase')}</label>
+            <input
+              id="snapshot-restore-passphrase"
+              type="password"
+              className="form-input"
+              value={restorePassphrase}
+              onChange={(e) => setRestorePassphrase(e.target.value)}
+              autoComplete="current-password"
+              disabled={isWorking}
+            />
+          </div>
+          {errorMsg && <div className="csv-error">{errorMsg}</div>}
+          <div className="form-actions">
+            <button type="submit" className="btn btn-primary" disabled={isWorking || !restorePassphrase}>
+              {isWorking ? t('backup.restoring') : t('retentionSnapshots.restore')}
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={() => setRestoring(null)} disabled={isWorking}>
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <DeleteConfirmationModal
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={confirmDelete}
+        title={t('retentionSnapshots.deleteTitle')}
+        message={t('retentionSnapshots.deleteMessage')}
+        confirmText={t('common.delete')}
+        cancelText={t('common.cancel')}
+      />
+    </div>
+  );
+};
+
+export default RetentionSnapshots;
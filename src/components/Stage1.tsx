@@ -5,25 +5,47 @@ import { toast } from 'react-hot-toast';
 import { useTranslations } from 'next-intl';
 import { useI18n } from '../i18n/provider';
 import EmissionFactorCSVManager from './EmissionFactorCSVManager';
+import FactorPackBrowser from './FactorPackBrowser';
 import EditEmissionFactorModal from './EditEmissionFactorModal';
-import DeleteConfirmationModal from './DeleteConfirmationModal';
+import CustomFieldsEditor from './CustomFieldsEditor';
+import CustomFieldInputs from './CustomFieldInputs';
+import FactorDeleteModal from './FactorDeleteModal';
 import EmissionFactorTable from './EmissionFactorTable';
-import { emissionFactorFields, EmissionFactorData } from '../config/emissionFactorSchema';
+import TablePagination from './TablePagination';
+import { useFieldErrorMessage } from '../i18n/hooks';
+import {
+  emissionFactorFields,
+  validateEmissionFactor,
+  validateField as validateSchemaField,
+  withCustomValue,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type EmissionFactor,
+  type EmissionFactorFieldKey,
+  type FieldError
+} from '@/domain';
 import indexedDBService from '@/lib/indexedDB';
-import type { EmissionFactor } from '@/lib/indexedDB';
+import type { SortFields } from '@/lib/indexedDB';
+import type { RecordId } from '@/lib/ids';
+import type { FactorDeleteSummary } from '@/lib/integrity';
 
 interface Stage1Props {
   onNext: () => void;
+  // False in vault mode, where records can only be listed in the order they were added
+  canSort: boolean;
 }
 
-const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
+const PAGE_SIZE = 50;
+
+const Stage1: React.FC<Stage1Props> = ({ onNext, canSort }) => {
   const t = useTranslations();
+  const getFieldErrorMessage = useFieldErrorMessage();
   const { locale } = useI18n();
   
   // Force re-render when locale changes to ensure immediate translation updates
   const [forceUpdate, setForceUpdate] = useState(0);
   
-  const [formData, setFormData] = useState<EmissionFactorData>({
+  const [formData, setFormData] = useState<EmissionFactor>({
     description: '',
     scope: '',
     category: '',
@@ -37,21 +59,28 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
     sourceOrDisclosureRequirement: '',
   });
 
-  const [emissionFactors, setEmissionFactors] = useState<EmissionFactorData[]>([]);
+  const [emissionFactors, setEmissionFactors] = useState<EmissionFactor[]>([]);
+  const [totalFactors, setTotalFactors] = useState(0);
+  // Cursor of each page visited so far; the last one is the current page
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [sortField, setSortField] = useState<SortFields['emission_factors'] | ''>('');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  // Bumped when emission factors change, here or in another tab
+  const [dataVersion, setDataVersion] = useState(0);
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
-  const [editingFactor, setEditingFactor] = useState<EmissionFactorData | null>(null);
+  const [editingFactor, setEditingFactor] = useState<EmissionFactor | null>(null);
   
   // Delete functionality state
-  const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [deletingFactor, setDeletingFactor] = useState<EmissionFactorData | null>(null);
-  const [showBulkDeleteModal, setShowBulkDeleteModal] = useState(false);
+  // Factors waiting for the user to confirm their deletion
+  const [deleteRequest, setDeleteRequest] = useState<{ ids: RecordId[]; bulk: boolean } | null>(null);
   const [selectedFactors, setSelectedFactors] = useState<Set<string>>(new Set());
-  const [isDeleting, setIsDeleting] = useState(false);
   
   // Add state for standards dropdown
   const [ghgStandards, setGhgStandards] = useState<string[]>([]);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [showTooltips, setShowTooltips] = useState<Record<string, boolean>>({});
 
@@ -60,8 +89,35 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
   const savedFactorsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    fetchEmissionFactors();
     fetchGhgStandards();
+    fetchCustomFields();
+  }, []);
+
+  useEffect(() => {
+    fetchEmissionFactors();
+  }, [pageCursors, sortField, sortDirection, canSort, dataVersion]);
+
+  // Turning the vault on or off changes the order, so start from the first page
+  useEffect(() => {
+    setPageCursors(prev => (prev.length === 1 ? prev : [null]));
+  }, [canSort]);
+
+  // Refresh when data changes, including changes made in another tab
+  useEffect(() => {
+    const unsubscribeFactors = indexedDBService.onDataChange(['emission_factors'], () => {
+      setDataVersion(prev => prev + 1);
+    });
+    const unsubscribeStandards = indexedDBService.onDataChange(['ghg_reporting_standards'], () => {
+      fetchGhgStandards();
+    });
+    const unsubscribeFields = indexedDBService.onDataChange(['emission_factor_fields'], () => {
+      fetchCustomFields();
+    });
+    return () => {
+      unsubscribeFactors();
+      unsubscribeStandards();
+      unsubscribeFields();
+    };
   }, []);
 
   // Force re-render when locale changes to ensure immediate translation updates
@@ -75,7 +131,7 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
       // Re-validate all fields with current language
       const updatedErrors: Record<string, string> = {};
       Object.keys(fieldErrors).forEach(fieldName => {
-        const value = formData[fieldName as keyof EmissionFactorData];
+        const value = fieldValue(fieldName);
         const error = validateField(fieldName, value);
         if (error) {
           updatedErrors[fieldName] = error;
@@ -87,9 +143,23 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
 
   const fetchEmissionFactors = async () => {
     try {
-      const data = await indexedDBService.getAllEmissionFactors();
-      // Ensure data is always an array
-      setEmissionFactors(Array.isArray(data) ? data : []);
+      const [page, total] = await Promise.all([
+        indexedDBService.query('emission_factors', {
+          orderBy: (canSort && sortField) || undefined,
+          direction: sortDirection,
+          limit: PAGE_SIZE,
+          cursor: pageCursors[pageCursors.length - 1]
+        }),
+        indexedDBService.count('emission_factors')
+      ]);
+      // Step back if the last page was emptied by a delete
+      if (page.items.length === 0 && pageCursors.length > 1) {
+        setPageCursors(prev => prev.slice(0, -1));
+        return;
+      }
+      setEmissionFactors(page.items);
+      setNextCursor(page.nextCursor);
+      setTotalFactors(total);
     } catch (error) {
       console.error('Error fetching emission factors:', error);
       toast.error(t('stage1.toast.fetchEmissionFactorsFailed'));
@@ -112,40 +182,36 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
     }
   };
 
-  // Real-time validation
-  const validateField = (name: string, value: string | number | undefined) => {
-    const field = emissionFactorFields.find(f => f.key === name);
-    if (!field || !field.required) return '';
-    
-    // Only validate if user has started typing or field has been touched
-    if (field.type === 'number') {
-      if (value === undefined || value === null || isNaN(Number(value))) {
-        return t('stage1.validation.invalidNumber');
-      }
-    } else {
-      // For strings, check if it's undefined, null, or empty string
-      // But allow empty strings if the field allows it (for CSV imports)
-      if (value === undefined || value === null || 
-          (typeof value === 'string' && value.trim() === '' && !field.allowEmpty)) {
-        return t('stage1.validation.required');
-      }
-    }
-    
-    // Additional validation for specific field types
-    if (field.validation) {
-      if (field.validation.enumOptions && typeof value === 'string' && !field.validation.enumOptions.includes(value)) {
-        return t('stage1.validation.enumError', { options: field.validation.enumOptions.join(', ') });
-      }
+  const fetchCustomFields = async () => {
+    try {
+      setCustomFields(await indexedDBService.getEmissionFactorFields());
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
     }
-    
-    return '';
+  };
+
+  const findField = (key: string) =>
+    [...emissionFactorFields, ...customFields].find(f => f.key === key);
+  const fieldLabel = (key: string) => findField(key)?.label ?? key;
+  const fieldErrorMessage = (error: FieldError) => getFieldErrorMessage(error, fieldLabel(error.field));
+  const isCustomField = (key: string) => customFields.some(f => f.key === key);
+  const fieldValue = (key: string) =>
+    isCustomField(key) ? formData.custom?.[key] : formData[key as EmissionFactorFieldKey];
+
+  // Real-time validation against the emission factor schema and custom fields
+  const validateField = (name: string, value: unknown) => {
+    const field = findField(name);
+    if (!field) return '';
+    const error = validateSchemaField(field, value);
+    return error ? fieldErrorMessage(error) : '';
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
+    const { name } = e.target;
+    const value = name === 'co2ePerUnit' ? parseFloat(e.target.value) || 0 : e.target.value;
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'co2ePerUnit' ? parseFloat(value) || 0 : value
+      [name]: value
     }));
     
     // Only validate if user has actually typed something or field has been touched
@@ -163,7 +229,7 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
   const handleFieldBlur = (fieldName: string) => {
     setShowTooltips(prev => ({ ...prev, [fieldName]: false }));
     // Validate on blur to show errors for empty required fields
-    const value = formData[fieldName as keyof EmissionFactorData];
+    const value = fieldValue(fieldName);
     const error = validateField(fieldName, value);
     setFieldErrors(prev => ({
       ...prev,
@@ -171,6 +237,17 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
     }));
   };
 
+  const handleCustomFieldChange = (field: CustomFieldDefinition, value: CustomFieldValue | undefined) => {
+    setFormData(prev => ({
+      ...prev,
+      custom: withCustomValue(prev.custom, field.key, value)
+    }));
+    setFieldErrors(prev => ({
+      ...prev,
+      [field.key]: validateField(field.key, value)
+    }));
+  };
+
   // Get tooltip content for a field
   const getTooltipContent = (fieldName: string) => {
     const field = emissionFactorFields.find(f => f.key === fieldName);
@@ -207,26 +284,14 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Validate required fields
-    const errors: Record<string, string> = {};
-    emissionFactorFields.forEach(field => {
-      if (field.required) {
-        const value = formData[field.key as keyof EmissionFactorData];
-        if (!value || (typeof value === 'string' && value.trim() === '')) {
-          errors[field.key] = t('stage1.validation.fieldRequired', { fieldName: field.label });
-        }
-      }
-    });
-
-    if (Object.keys(errors).length > 0) {
-      Object.values(errors).forEach(error => toast.error(error));
+    const errors = validateEmissionFactor(formData, customFields);
+    if (errors.length > 0) {
+      errors.forEach(error => toast.error(fieldErrorMessage(error)));
       return;
     }
 
     try {
-      const newFactorId = await indexedDBService.addEmissionFactor(formData);
-      const newFactor = { ...formData, _id: newFactorId };
-      setEmissionFactors(prev => [...prev, newFactor]);
+      await indexedDBService.addEmissionFactor(formData);
       
       // Reset form
       setFormData({
@@ -250,12 +315,12 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
     }
   };
 
-  const handleEdit = (factor: EmissionFactorData) => {
+  const handleEdit = (factor: EmissionFactor) => {
     setEditingFactor(factor);
     setShowEditModal(true);
   };
 
-  const handleUpdate = async (updatedFactor: EmissionFactorData) => {
+  const handleUpdate = async (updatedFactor: EmissionFactor) => {
     if (!updatedFactor._id) {
       toast.error(t('stage1.toast.cannotUpdateMissingId'));
       return;
@@ -263,9 +328,11 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
 
     setIsLoading(true);
     try {
-      await indexedDBService.updateEmissionFactor(updatedFactor as EmissionFactor);
+      const { recalculatedActivities } = await indexedDBService.updateEmissionFactor(updatedFactor as EmissionFactor);
       toast.success(t('stage1.toast.updatedSuccessfully'));
-      fetchEmissionFactors(); // Refresh the table
+      if (recalculatedActivities > 0) {
+        toast.success(t('stage1.toast.activitiesRecalculated', { count: recalculatedActivities }));
+      }
     } catch (error) {
       console.error('Error updating emission factor:', error);
       toast.error(`${t('stage1.toast.updateFailed')}: ${error instanceof Error ? error.message : t('common.unknownError')}`);
@@ -275,9 +342,12 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
   };
 
   // Delete functionality
-  const handleDelete = (factor: EmissionFactorData) => {
-    setDeletingFactor(factor);
-    setShowDeleteModal(true);
+  const handleDelete = (factor: EmissionFactor) => {
+    if (!factor._id) {
+      toast.error(t('stage1.toast.cannotDeleteMissingId'));
+      return;
+    }
+    setDeleteRequest({ ids: [factor._id], bulk: false });
   };
 
   const handleBulkDelete = () => {
@@ -285,66 +355,27 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
       toast.error(t('stage1.toast.selectAtLeastOneToDelete'));
       return;
     }
-    setShowBulkDeleteModal(true);
+    setDeleteRequest({ ids: Array.from(selectedFactors), bulk: true });
   };
 
-  const confirmDelete = async () => {
-    if (!deletingFactor?._id) {
-      toast.error(t('stage1.toast.cannotDeleteMissingId'));
-      return;
-    }
-
-    setIsDeleting(true);
-    try {
-      await indexedDBService.deleteEmissionFactor(deletingFactor._id);
+  // The factors and any changes to their activities are deleted in one
+  // undoable step
+  const handleDeleted = (summary: FactorDeleteSummary) => {
+    if (!deleteRequest) return;
+    const count = deleteRequest.ids.length;
+    if (deleteRequest.bulk) {
+      toast.success(t('stage1.toast.bulkDeleteSuccess', { count, plural: count > 1 ? 's' : '' }));
+      setSelectedFactors(new Set());
+    } else {
       toast.success(t('stage1.toast.deletedSuccessfully'));
-      fetchEmissionFactors(); // Refresh the table
-      setShowDeleteModal(false);
-      setDeletingFactor(null);
-    } catch (error) {
-      console.error('Error deleting emission factor:', error);
-      toast.error(`${t('stage1.toast.deleteFailed')}: ${error instanceof Error ? error.message : t('common.unknownError')}`);
-    } finally {
-      setIsDeleting(false);
     }
-  };
-
-  const confirmBulkDelete = async () => {
-    if (selectedFactors.size === 0) {
-      toast.error(t('stage1.toast.noFactorsSelectedForDeletion'));
-      return;
+    if (summary.reassignedActivities > 0) {
+      toast.success(t('stage1.factorDelete.toast.reassigned', { count: summary.reassignedActivities }));
     }
-
-    setIsDeleting(true);
-    try {
-      // Delete each selected factor
-      const deletePromises = Array.from(selectedFactors).map(async (id) => {
-        await indexedDBService.deleteEmissionFactor(id);
-        return { id, success: true };
-      });
-
-      const results = await Promise.allSettled(deletePromises);
-      const successful = results.filter(r => r.status === 'fulfilled').length;
-      const failed = results.length - successful;
-
-      if (successful > 0) {
-        toast.success(t('stage1.toast.bulkDeleteSuccess', { count: successful, plural: successful > 1 ? 's' : '' }));
-        if (failed > 0) {
-          toast.error(t('stage1.toast.bulkDeleteFailed', { count: failed, plural: failed > 1 ? 's' : '' }));
-        }
-        fetchEmissionFactors(); // Refresh the table
-        setSelectedFactors(new Set()); // Clear selection
-      } else {
-        toast.error(t('stage1.toast.bulkDeleteAllFailed'));
-      }
-
-      setShowBulkDeleteModal(false);
-    } catch (error) {
-      console.error('Error during bulk delete:', error);
-      toast.error(`${t('stage1.toast.bulkDeleteFailed')}: ${error instanceof Error ? error.message : t('common.unknownError')}`);
-    } finally {
-      setIsDeleting(false);
+    if (summary.detachedActivities > 0) {
+      toast.success(t('stage1.factorDelete.toast.detached', { count: summary.detachedActivities }));
     }
+    setDeleteRequest(null);
   };
 
   const handleSelectFactor = (factorId: string | number, checked: boolean) => {
@@ -369,6 +400,17 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
     }
   };
 
+  const goToPage = (cursors: (string | null)[]) => {
+    setSelectedFactors(new Set());
+    setPageCursors(cursors);
+  };
+
+  const handleSortChange = (field: SortFields['emission_factors'] | '', direction: 'asc' | 'desc') => {
+    setSortField(field);
+    setSortDirection(direction);
+    goToPage([null]);
+  };
+
   const resetForm = () => {
     setFormData({
       description: '',
@@ -408,7 +450,6 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
 
   // Enhanced CSV import success handler with auto-scroll
   const handleCSVImportSuccess = () => {
-    fetchEmissionFactors();
     // Auto-scroll to saved factors table after successful import
     setTimeout(() => {
       scrollToSavedFactors();
@@ -418,6 +459,9 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
   return (
     <div className="stage">
       <h2 className="stage-title">{t('stage1.importTitle')}</h2>
+      {/* Extra fields for this workspace's emission factors */}
+      <CustomFieldsEditor />
+
       {/* CSV Import/Export Manager */}
       <EmissionFactorCSVManager 
         onImportSuccess={handleCSVImportSuccess} 
@@ -425,6 +469,9 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
         importSectionRef={importSectionRef}
       />
 
+      {/* Bundled factor libraries */}
+      <FactorPackBrowser onImportSuccess={handleCSVImportSuccess} />
+
       <h1 style={{ textAlign: 'center', marginBottom: '20px' }}>{t('stage1.or')}</h1>
 
       <h2 className="stage-title">{t('stage1.inputTitle')}</h2>
@@ -709,6 +756,15 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
           </div>
         </div>
 
+        <CustomFieldInputs
+          fields={customFields}
+          values={formData.custom}
+          errors={fieldErrors}
+          onChange={handleCustomFieldChange}
+          onBlur={(field) => handleFieldBlur(field.key)}
+          idPrefix="custom-field-input"
+        />
+
         <div className="form-actions">
           <button type="submit" className="btn btn-primary" disabled={isLoading}>
             {isLoading ? t('stage1.saving') : (isEditing ? t('stage1.update') : t('stage1.add'))}
@@ -725,6 +781,34 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
       <div className="data-section" ref={savedFactorsRef}>
         <h3 className="section-title">{t('stage1.savedEmissionFactorsTitle')}</h3>
         
+        {totalFactors > 0 && (
+          <div className="table-toolbar">
+            <label htmlFor="factorSort">{t('tableControls.sortBy')}</label>
+            <select
+              id="factorSort"
+              className="form-input"
+              value={canSort ? sortField : ''}
+              disabled={!canSort}
+              onChange={(e) => handleSortChange(e.target.value as SortFields['emission_factors'] | '', sortDirection)}
+            >
+              <option value="">{t('tableControls.dateAdded')}</option>
+              <option value="description">{t('stage1.formLabels.description')}</option>
+              <option value="co2ePerUnit">{t('stage1.formLabels.co2ePerUnit')}</option>
+            </select>
+            <select
+              className="form-input"
+              value={sortDirection}
+              onChange={(e) => handleSortChange(sortField, e.target.value as 'asc' | 'desc')}
+              aria-label={t('tableControls.direction')}
+              disabled={!canSort}
+            >
+              <option value="asc">{t('tableControls.ascending')}</option>
+              <option value="desc">{t('tableControls.descending')}</option>
+            </select>
+            {!canSort && <span className="form-help">{t('tableControls.sortUnavailable')}</span>}
+          </div>
+        )}
+
         {/* Use unified table component */}
         {emissionFactors.length > 0 && (
           <EmissionFactorTable
@@ -735,9 +819,22 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
             onEdit={handleEdit}
             onDelete={handleDelete}
             onBulkDelete={handleBulkDelete}
-            isDeleting={isDeleting}
+            isDeleting={deleteRequest !== null}
             showBulkDelete={true}
             tableType="saved"
+            customFields={customFields}
+          />
+        )}
+
+        {emissionFactors.length > 0 && (
+          <TablePagination
+            page={pageCursors.length - 1}
+            pageSize={PAGE_SIZE}
+            itemCount={emissionFactors.length}
+            total={totalFactors}
+            hasNext={nextCursor !== null}
+            onPrevious={() => goToPage(pageCursors.slice(0, -1))}
+            onNext={() => goToPage([...pageCursors, nextCursor])}
           />
         )}
         
@@ -764,33 +861,18 @@ const Stage1: React.FC<Stage1Props> = ({ onNext }) => {
         factor={editingFactor}
         onUpdate={handleUpdate}
         ghgStandards={ghgStandards}
+        customFields={customFields}
       />
 
       {/* Delete Confirmation Modal */}
-      <DeleteConfirmationModal
-        isOpen={showDeleteModal}
-        onClose={() => {
-          setShowDeleteModal(false);
-          setDeletingFactor(null);
-        }}
-        onConfirm={confirmDelete}
-        title={t('stage1.deleteEmissionFactorTitle')}
-        message={t('stage1.deleteEmissionFactorMessage')}
-        confirmText={t('stage1.delete')}
-        cancelText={t('stage1.cancel')}
-      />
-
-      {/* Bulk Delete Confirmation Modal */}
-      <DeleteConfirmationModal
-        isOpen={showBulkDeleteModal}
-        onClose={() => setShowBulkDeleteModal(false)}
-        onConfirm={confirmBulkDelete}
-        title={t('stage1.bulkDeleteEmissionFactorsTitle')}
-        message={t('stage1.bulkDeleteEmissionFactorsMessage')}
-        confirmText={t('stage1.deleteAll')}
-        cancelText={t('stage1.cancel')}
-        isBulkDelete={true}
-        selectedCount={selectedFactors.size}
+      <FactorDeleteModal
+        isOpen={deleteRequest !== null}
+        factorIds={deleteRequest?.ids ?? []}
+        title={deleteRequest?.bulk ? t('stage1.bulkDeleteEmissionFactorsTitle') : t('stage1.deleteEmissionFactorTitle')}
+        message={deleteRequest?.bulk ? t('stage1.bulkDeleteEmissionFactorsMessage') : t('stage1.deleteEmissionFactorMessage')}
+        confirmText={deleteRequest?.bulk ? t('stage1.deleteAll') : t('stage1.delete')}
+        onClose={() => setDeleteRequest(null)}
+        onDeleted={handleDeleted}
       />
     </div>
   );
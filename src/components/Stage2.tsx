@@ -5,19 +5,29 @@ import * as toastModule from 'react-hot-toast';
 import { useTranslations } from 'next-intl';
 import EditActivityModal from './EditActivityModal';
 import DeleteConfirmationModal from './DeleteConfirmationModal';
+import TablePagination from './TablePagination';
 import { FaEdit, FaTrash } from 'react-icons/fa';
+import { useFieldErrorMessage } from '../i18n/hooks';
 import indexedDBService from '@/lib/indexedDB';
-import type { ReportingActivity, EmissionFactor } from '@/lib/indexedDB';
+import type { QueryFilter, SortFields } from '@/lib/indexedDB';
+import { validateReportingActivity, type EmissionFactor, type ReportingActivity } from '@/domain';
+import { effectiveCo2ePerUnit } from '@/lib/factorVersions';
+import { linkToFactor } from '@/lib/integrity';
 const toast = toastModule.default || toastModule;
 
 interface Stage2Props {
   onNext: () => void;
+  // False in vault mode, where records can only be listed in the order they were added
+  canSort: boolean;
 }
 
+const PAGE_SIZE = 50;
+
 // Using types from IndexedDB service
 
-const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
+const Stage2: React.FC<Stage2Props> = ({ onNext, canSort }) => {
   const t = useTranslations();
+  const getFieldErrorMessage = useFieldErrorMessage();
   const [formData, setFormData] = useState<ReportingActivity>({
     reportingPeriodStart: '',
     reportingPeriodEnd: '',
@@ -31,6 +41,15 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
   });
 
   const [activities, setActivities] = useState<ReportingActivity[]>([]);
+  const [totalActivities, setTotalActivities] = useState(0);
+  // Cursor of each page visited so far; the last one is the current page
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [sortField, setSortField] = useState<SortFields['reporting_activities'] | ''>('');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [activityFilter, setActivityFilter] = useState<QueryFilter>({});
+  // Bumped when activities change, here or in another tab
+  const [dataVersion, setDataVersion] = useState(0);
   const [emissionFactors, setEmissionFactors] = useState<EmissionFactor[]>([]);
   const [filteredEmissionFactors, setFilteredEmissionFactors] = useState<EmissionFactor[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -48,70 +67,93 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
   const [locationOptions, setLocationOptions] = useState<string[]>([]);
   const [categoryOptions, setCategoryOptions] = useState<string[]>([]);
 
+  // Refresh when data changes, including changes made in another tab
   useEffect(() => {
-    const loadData = async () => {
+    const unsubscribeActivities = indexedDBService.onDataChange(['reporting_activities'], () => {
+      setDataVersion(prev => prev + 1);
+    });
+    const unsubscribeFactors = indexedDBService.onDataChange(['emission_factors'], async () => {
+      try {
+        setEmissionFactors(await indexedDBService.getAllEmissionFactors());
+      } catch (error) {
+        console.error('Error refreshing emission factors:', error);
+        toast.error(t('stage2.toast.refreshDataFailed'));
+      }
+    });
+    return () => {
+      unsubscribeActivities();
+      unsubscribeFactors();
+    };
+  }, []);
+
+  // Without IndexedDB the data is kept in memory or in a file
+  useEffect(() => {
+    return indexedDBService.onStorageChange((kind) => {
+      setConnectionStatus((status) =>
+        status === 'error' ? status : kind === 'indexeddb' ? 'connected' : 'fallback'
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    const loadEmissionFactors = async () => {
       try {
-        setIsLoadingData(true);
-        
-        // Load emission factors first
         const factors = await indexedDBService.getAllEmissionFactors();
         setEmissionFactors(Array.isArray(factors) ? factors : []);
-        
-        // Then load activities
-        const activitiesData = await indexedDBService.getAllReportingActivities();
-        const activitiesArray = Array.isArray(activitiesData) ? activitiesData : [];
-        setActivities(activitiesArray);
-        
-        setConnectionStatus('connected');
       } catch (error) {
-        console.error('Error loading data:', error);
+        console.error('Error loading emission factors:', error);
         setConnectionStatus('error');
         toast.error(t('stage2.toast.loadDataFailed'));
         setEmissionFactors([]);
+      }
+    };
+
+    loadEmissionFactors();
+  }, []);
+
+  useEffect(() => {
+    const loadActivities = async () => {
+      try {
+        await fetchActivities();
+      } catch (error) {
+        console.error('Error loading activities:', error);
+        setConnectionStatus('error');
+        toast.error(t('stage2.toast.loadDataFailed'));
         setActivities([]);
       } finally {
         setIsLoadingData(false);
       }
     };
-    
-    loadData();
-  }, []);
 
-  // Recalculate emissions for existing activities when emission factors are loaded
+    loadActivities();
+  }, [pageCursors, sortField, sortDirection, canSort, activityFilter, dataVersion]);
+
+  // Turning the vault on or off changes the order, so start from the first page
   useEffect(() => {
-    if (emissionFactors.length > 0 && activities.length > 0) {
-      const updatedActivities = activities.map(activity => {
-        if (activity.calculatedEmissions === undefined || activity.calculatedEmissions === null) {
-          const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
-          
-          if (factor && activity.quantity) {
-            const calculatedEmissions = activity.quantity * factor.co2ePerUnit;
-            return {
-              ...activity,
-              calculatedEmissions
-            };
-          }
-        }
-        return activity;
-      });
-      
-      // Only update if there are changes
-      if (JSON.stringify(updatedActivities) !== JSON.stringify(activities)) {
-        setActivities(updatedActivities);
-        
-        // Update activities in IndexedDB with calculated emissions
-        updatedActivities.forEach(async (activity) => {
-          if (activity.calculatedEmissions !== undefined && activity.calculatedEmissions !== null) {
-            try {
-              await indexedDBService.updateReportingActivity(activity);
-            } catch (error) {
-              console.error('Failed to update calculated emissions for activity:', activity._id, error);
-            }
-          }
-        });
-      }
+    setPageCursors(prev => (prev.length === 1 ? prev : [null]));
+  }, [canSort]);
+
+  // Load the current page of activities, with the total for the pager
+  const fetchActivities = async () => {
+    const [page, total] = await Promise.all([
+      indexedDBService.query('reporting_activities', {
+        where: activityFilter,
+        orderBy: (canSort && sortField) || undefined,
+        direction: sortDirection,
+        limit: PAGE_SIZE,
+        cursor: pageCursors[pageCursors.length - 1]
+      }),
+      indexedDBService.count('reporting_activities', activityFilter)
+    ]);
+    // Step back if the last page was emptied by a delete
+    if (page.items.length === 0 && pageCursors.length > 1) {
+      setPageCursors(prev => prev.slice(0, -1));
+      return;
     }
-  }, [emissionFactors, activities.length]);
+    setActivities(page.items);
+    setNextCursor(page.nextCursor);
+    setTotalActivities(total);
+  };
 
   useEffect(() => {
     // Extract unique locations and categories from emission factors
@@ -125,34 +167,33 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
   }, [emissionFactors]);
 
   useEffect(() => {
-    // Filter emission factors based on selected scope, location, and category
-    let filtered = emissionFactors;
-    
-    if (formData.scope) {
-      filtered = filtered.filter(factor => factor.scope === formData.scope);
-    }
-    
-    if (formData.location) {
-      filtered = filtered.filter(factor => factor.location === formData.location);
-    }
-    
-    if (formData.category) {
-      filtered = filtered.filter(factor => factor.category === formData.category);
-    }
-    
+    // Look up emission factors matching the selected scope, location, and category
+    let cancelled = false;
+
+    indexedDBService.findAll('emission_factors', {
+      scope: formData.scope,
+      location: formData.location,
+      category: formData.category
+    }).then(filtered => {
+      if (cancelled) return;
+      setFilteredEmissionFactors(filtered);
+
+      // Only reset emission factor if we have a selection and it's not in the filtered list
+      // AND if we have all three filter criteria selected
+      if (formData.emissionFactorId && 
+          formData.scope && 
+          formData.location && 
+          formData.category && 
+          !filtered.find(f => f._id === formData.emissionFactorId)) {
+        setFormData(prev => ({ ...prev, emissionFactorId: '' }));
+      }
+    }).catch(error => {
+      console.error('Error filtering emission factors:', error);
+    });
 
-    
-    setFilteredEmissionFactors(filtered);
-    
-    // Only reset emission factor if we have a selection and it's not in the filtered list
-    // AND if we have all three filter criteria selected
-    if (formData.emissionFactorId && 
-        formData.scope && 
-        formData.location && 
-        formData.category && 
-        !filtered.find(f => String(f._id) === String(formData.emissionFactorId))) {
-      setFormData(prev => ({ ...prev, emissionFactorId: '' }));
-    }
+    return () => {
+      cancelled = true;
+    };
   }, [formData.scope, formData.location, formData.category, emissionFactors]);
 
   // Reset dependent fields when location or category options change
@@ -203,41 +244,25 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
         return;
       }
       
-      // Find the emission factor - handle both string and number ID types
-      let factor = null;
-      
-      // Convert the selected ID to string for consistent comparison
-      const selectedIdStr = String(formData.emissionFactorId);
-      
-      // Try to find the factor by converting all IDs to strings for comparison
-      factor = emissionFactors.find(f => String(f._id) === selectedIdStr);
+      const factor = emissionFactors.find(f => f._id === formData.emissionFactorId);
       
       if (!factor) {
         toast.error(t('stage2.validation.emissionFactorNotFound'));
         return;
       }
       
-      // Store emission factor data directly instead of just the ID
-      const emissionFactorData = {
-        description: factor.description,
-        co2ePerUnit: factor.co2ePerUnit,
-        emissionFactorUnit: factor.emissionFactorUnit,
-        unit: factor.unit
-      };
-      
-      const calculatedEmissions = formData.quantity * factor.co2ePerUnit;
-      
-      const activityToSave = { 
-        ...formData, 
-        calculatedEmissions,
-        emissionFactorData // Store the actual data, not just the ID
-      };
+      // Store the factor's values for this reporting period, not just the ID
+      const activityToSave = linkToFactor(formData, factor);
+      const errors = validateReportingActivity(activityToSave);
+      if (errors.length > 0) {
+        errors.forEach(error => toast.error(getFieldErrorMessage(error, t(`stage2.formLabels.${error.field}`))));
+        return;
+      }
       
       const newId = await indexedDBService.addReportingActivity(activityToSave);
       
       toast.success(t('stage2.toast.savedSuccessfully'));
       resetForm();
-      await refreshData();
     } catch (error) {
       console.error('Error saving activity:', error);
       toast.error(t('stage2.toast.saveFailed'));
@@ -246,6 +271,22 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
     }
   };
 
+  const goToPage = (cursors: (string | null)[]) => {
+    setPageCursors(cursors);
+  };
+
+  const handleSortChange = (field: SortFields['reporting_activities'] | '', direction: 'asc' | 'desc') => {
+    setSortField(field);
+    setSortDirection(direction);
+    goToPage([null]);
+  };
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setActivityFilter(prev => ({ ...prev, [name]: value }));
+    goToPage([null]);
+  };
+
   const handleEdit = (activity: ReportingActivity) => {
     setEditingActivity(activity);
     setIsEditModalOpen(true);
@@ -265,7 +306,6 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
       toast.success(t('stage2.toast.deletedSuccessfully'));
       setShowDeleteModal(false);
       setDeletingActivity(null);
-      await refreshData();
     } catch (error) {
       console.error('Error deleting activity:', error);
       toast.error(t('stage2.toast.deleteFailed'));
@@ -300,16 +340,15 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
         const activityToUpdate = { ...updatedActivity, calculatedEmissions };
         await indexedDBService.updateReportingActivity(activityToUpdate);
       } else {
-        // Fallback to looking up emission factor by ID using string comparison
-        const factor = emissionFactors.find(f => String(f._id) === String(updatedActivity.emissionFactorId));
-        const calculatedEmissions = factor ? updatedActivity.quantity * factor.co2ePerUnit : 0;
+        // Fallback to looking up emission factor by ID
+        const factor = emissionFactors.find(f => f._id === updatedActivity.emissionFactorId);
+        const calculatedEmissions = factor
+          ? updatedActivity.quantity * effectiveCo2ePerUnit(factor, updatedActivity.reportingPeriodStart, updatedActivity.reportingPeriodEnd)
+          : 0;
         
         const activityToUpdate = { ...updatedActivity, calculatedEmissions };
         await indexedDBService.updateReportingActivity(activityToUpdate);
       }
-      
-      // Refresh the data to show the updated activity
-      await refreshData();
     } catch (error) {
       console.error('Error updating activity:', error);
       throw error;
@@ -318,92 +357,6 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
 
   // Test data creation function removed for production
 
-  const repairBrokenReferences = async () => {
-    try {
-      if (activities.length === 0) {
-        toast.error(t('stage2.toast.noActivitiesToRepair'));
-        return;
-      }
-      
-      if (emissionFactors.length === 0) {
-        toast.error(t('stage2.toast.noEmissionFactorsForRepair'));
-        return;
-      }
-      
-      const updatedActivities = activities.map(activity => {
-        // Check if the emission factor exists
-        const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
-        
-        if (!factor) {
-          // Try to find a matching emission factor by scope, category, and location
-          const matchingFactor = emissionFactors.find(f => 
-            f.scope === activity.scope && 
-            f.category === activity.category && 
-            f.location === activity.location
-          );
-          
-          if (matchingFactor && matchingFactor._id) {
-            const calculatedEmissions = activity.quantity * matchingFactor.co2ePerUnit;
-            
-            // Store emission factor data directly
-            const emissionFactorData = {
-              description: matchingFactor.description,
-              co2ePerUnit: matchingFactor.co2ePerUnit,
-              emissionFactorUnit: matchingFactor.emissionFactorUnit,
-              unit: matchingFactor.unit
-            };
-            
-            return {
-              ...activity,
-              emissionFactorId: matchingFactor._id,
-              calculatedEmissions,
-              emissionFactorData
-            };
-          } else {
-            // Set calculated emissions to 0 and keep the broken reference for now
-            return {
-              ...activity,
-              calculatedEmissions: 0
-            };
-          }
-        }
-        
-        // If factor exists but no emission factor data, add it
-        if (factor && !activity.emissionFactorData) {
-          const emissionFactorData = {
-            description: factor.description,
-            co2ePerUnit: factor.co2ePerUnit,
-            emissionFactorUnit: factor.emissionFactorUnit,
-            unit: factor.unit
-          };
-          
-          return {
-            ...activity,
-            emissionFactorData
-          };
-        }
-        
-        return activity;
-      });
-      
-      // Update activities in IndexedDB
-      for (const activity of updatedActivities) {
-        try {
-          await indexedDBService.updateReportingActivity(activity);
-        } catch (error) {
-          console.error('Failed to update calculated emissions for activity:', activity._id, error);
-        }
-      }
-      
-      // Update local state
-      setActivities(updatedActivities);
-      toast.success(t('stage2.toast.brokenReferencesRepairedSuccessfully'));
-    } catch (error) {
-      console.error('Error repairing broken references:', error);
-      toast.error(t('stage2.toast.repairBrokenReferencesFailed'));
-    }
-  };
-
   const getEmissionFactorDescription = (id?: string, activity?: ReportingActivity) => {
     // First check if the activity has emission factor data stored directly
     if (activity?.emissionFactorData) {
@@ -414,7 +367,7 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
       return 'No emission factor selected';
     }
     
-    const factor = emissionFactors.find(f => String(f._id) === String(id));
+    const factor = emissionFactors.find(f => f._id === id);
     
     if (factor) {
       const description = `${factor.description} (${factor.co2ePerUnit} ${factor.emissionFactorUnit})`;
@@ -438,10 +391,10 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
     
     // Fallback to looking up emission factor by ID
     if (activity.emissionFactorId) {
-      const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
+      const factor = emissionFactors.find(f => f._id === activity.emissionFactorId);
       
       if (factor && activity.quantity) {
-        const calculated = activity.quantity * factor.co2ePerUnit;
+        const calculated = activity.quantity * effectiveCo2ePerUnit(factor, activity.reportingPeriodStart, activity.reportingPeriodEnd);
         return calculated;
       }
     }
@@ -454,37 +407,10 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
       return '';
     }
     
-    const factor = emissionFactors.find(f => String(f._id) === String(id));
+    const factor = emissionFactors.find(f => f._id === id);
     return factor ? factor.emissionFactorUnit : '';
   };
 
-  const analyzeDataIntegrity = () => {
-    if (activities.length === 0 || emissionFactors.length === 0) {
-      return 'No data to analyze';
-    }
-    
-    const brokenReferences = activities.filter(activity => {
-      const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
-      return !factor;
-    });
-    
-    const validReferences = activities.filter(activity => {
-      const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
-      return factor;
-    });
-    
-    return {
-      totalActivities: activities.length,
-      validReferences: validReferences.length,
-      brokenReferences: brokenReferences.length,
-      brokenActivities: brokenReferences.map(a => ({
-        name: a.activityName,
-        id: a._id,
-        emissionFactorId: a.emissionFactorId
-      }))
-    };
-  };
-
   const showAvailableEmissionFactors = (activity: ReportingActivity) => {
     const availableFactors = emissionFactors.filter(f => 
       f.scope === activity.scope && 
@@ -529,80 +455,12 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
       await indexedDBService.updateReportingActivity(updatedActivity);
       
       toast.success(t('stage2.toast.createdMissingEmissionFactorSuccessfully'));
-      
-      // Refresh the data
-      await refreshData();
     } catch (error) {
       console.error('Error creating missing emission factor:', error);
       toast.error(t('stage2.toast.createMissingEmissionFactorFailed'));
     }
   };
 
-  const recalculateAllEmissions = async () => {
-    if (emissionFactors.length === 0) {
-      toast.error(t('stage2.toast.noEmissionFactorsForCalculation'));
-      return;
-    }
-    
-    if (activities.length === 0) {
-      toast.error(t('stage2.toast.noActivitiesToRecalculate'));
-      return;
-    }
-    
-    try {
-      const updatedActivities = activities.map(activity => {
-        const factor = emissionFactors.find(f => String(f._id) === String(activity.emissionFactorId));
-        if (factor && activity.quantity) {
-          const calculatedEmissions = activity.quantity * factor.co2ePerUnit;
-          return {
-            ...activity,
-            calculatedEmissions
-          };
-        } else {
-          return activity;
-        }
-      });
-      
-      // Update activities in IndexedDB
-      for (const activity of updatedActivities) {
-        if (activity.calculatedEmissions !== undefined && activity.calculatedEmissions !== null) {
-          try {
-            await indexedDBService.updateReportingActivity(activity);
-          } catch (error) {
-            console.error('Failed to update calculated emissions for activity:', activity._id, error);
-          }
-        }
-      }
-      
-      // Update local state
-      setActivities(updatedActivities);
-      toast.success(t('stage2.toast.emissionsRecalculatedSuccessfully'));
-    } catch (error) {
-      console.error('Error recalculating emissions:', error);
-      toast.error(t('stage2.toast.recalculateEmissionsFailed'));
-    }
-  };
-
-  const refreshData = async () => {
-    try {
-      setIsLoadingData(true);
-      
-      // Load emission factors first
-      const factors = await indexedDBService.getAllEmissionFactors();
-      setEmissionFactors(Array.isArray(factors) ? factors : []);
-      
-      // Then load activities
-      const activitiesData = await indexedDBService.getAllReportingActivities();
-      const activitiesArray = Array.isArray(activitiesData) ? activitiesData : [];
-      setActivities(activitiesArray);
-    } catch (error) {
-      console.error('Error refreshing data:', error);
-      toast.error(t('stage2.toast.refreshDataFailed'));
-    } finally {
-      setIsLoadingData(false);
-    }
-  };
-
   return (
     <div className="stage">
       <h2 className="stage-title">{t('stage2.title')}</h2>
@@ -773,6 +631,72 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
             </span>
           )}
         </h3>
+
+        <div className="table-toolbar">
+          <select
+            name="scope"
+            className="form-input"
+            value={activityFilter.scope || ''}
+            onChange={handleFilterChange}
+            aria-label={t('stage2.formLabels.scope')}
+          >
+            <option value="">{t('tableControls.all', { field: t('stage2.formLabels.scope') })}</option>
+            <option value="Scope 1">Scope 1</option>
+            <option value="Scope 2">Scope 2</option>
+            <option value="Scope 3">Scope 3</option>
+          </select>
+          <select
+            name="category"
+            className="form-input"
+            value={activityFilter.category || ''}
+            onChange={handleFilterChange}
+            aria-label={t('stage2.formLabels.category')}
+          >
+            <option value="">{t('tableControls.all', { field: t('stage2.formLabels.category') })}</option>
+            {categoryOptions.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+          <select
+            name="location"
+            className="form-input"
+            value={activityFilter.location || ''}
+            onChange={handleFilterChange}
+            aria-label={t('stage2.formLabels.location')}
+          >
+            <option value="">{t('tableControls.all', { field: t('stage2.formLabels.location') })}</option>
+            {locationOptions.map((location) => (
+              <option key={location} value={location}>
+                {location}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="activitySort">{t('tableControls.sortBy')}</label>
+          <select
+            id="activitySort"
+            className="form-input"
+            value={canSort ? sortField : ''}
+            disabled={!canSort}
+            onChange={(e) => handleSortChange(e.target.value as SortFields['reporting_activities'] | '', sortDirection)}
+          >
+            <option value="">{t('tableControls.dateAdded')}</option>
+            <option value="activityName">{t('stage2.formLabels.activityName')}</option>
+            <option value="reportingPeriodStart">{t('stage2.formLabels.reportingPeriodStart')}</option>
+          </select>
+          <select
+            className="form-input"
+            value={sortDirection}
+            onChange={(e) => handleSortChange(sortField, e.target.value as 'asc' | 'desc')}
+            aria-label={t('tableControls.direction')}
+            disabled={!canSort}
+          >
+            <option value="asc">{t('tableControls.ascending')}</option>
+            <option value="desc">{t('tableControls.descending')}</option>
+          </select>
+          {!canSort && <span className="form-help">{t('tableControls.sortUnavailable')}</span>}
+        </div>
         
         {isLoadingData ? (
           <div className="loading-state">
@@ -781,109 +705,134 @@ const Stage2: React.FC<Stage2Props> = ({ onNext }) => {
         ) : (
           <div className="table-container">
             {Array.isArray(activities) && activities.length > 0 ? (
-              <table className="data-table">
-                <thead>
-                  <tr>
-                    <th>{t('stage2.formLabels.activityName')}</th>
-                    <th>{t('stage2.formLabels.reportingPeriod')}</th>
-                    <th>{t('stage2.formLabels.scope')}</th>
-                    <th>{t('stage2.formLabels.category')}</th>
-                    <th>{t('stage2.formLabels.location')}</th>
-                    <th>{t('stage2.formLabels.quantity')}</th>
-                    <th>{t('stage2.formLabels.emissionFactorId')}</th>
-                    <th>{t('stage2.formLabels.calculatedEmissions')}</th>
-                    <th>{t('stage2.formLabels.remarks')}</th>
-                    <th>{t('common.actions')}</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {activities.map((activity) => {
-                    const emissions = calculateEmissions(activity);
-                    const unit = getEmissionFactorUnit(activity.emissionFactorId);
+              <>
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>{t('stage2.formLabels.activityName')}</th>
+                      <th>{t('stage2.formLabels.reportingPeriod')}</th>
+                      <th>{t('stage2.formLabels.scope')}</th>
+                      <th>{t('stage2.formLabels.category')}</th>
+                      <th>{t('stage2.formLabels.location')}</th>
+                      <th>{t('stage2.formLabels.quantity')}</th>
+                      <th>{t('stage2.formLabels.emissionFactorId')}</th>
+                      <th>{t('stage2.formLabels.calculatedEmissions')}</th>
+                      <th>{t('stage2.formLabels.remarks')}</th>
+                      <th>{t('common.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {activities.map((activity) => {
+                      const emissions = calculateEmissions(activity);
+                      const unit = getEmissionFactorUnit(activity.emissionFactorId);
                     
-                    // Check if emission factor exists
-                    const factorExists = emissionFactors.some(f => String(f._id) === String(activity.emissionFactorId));
+                      // Check if emission factor exists
+                      const factorExists = emissionFactors.some(f => f._id === activity.emissionFactorId);
+                      // Detached activities keep a copy of their deleted factor
+                      const isDetached = !factorExists && !!activity.emissionFactorData;
                     
-                    return (
-                      <tr key={activity._id} style={!factorExists ? { backgroundColor: '#fff3cd' } : {}}>
-                        <td>{activity.activityName}</td>
-                        <td>{activity.reportingPeriodStart} {t('stage2.dateRangeSeparator')} {activity.reportingPeriodEnd}</td>
-                        <td>{activity.scope}</td>
-                        <td>{activity.category}</td>
-                        <td>{activity.location}</td>
-                        <td>{activity.quantity}</td>
-                        <td>
-                          {(() => {
-                            // First try to use stored emission factor data
-                            if (activity.emissionFactorData) {
-                              return `${activity.emissionFactorData.description} (${activity.emissionFactorData.co2ePerUnit} ${activity.emissionFactorData.emissionFactorUnit})`;
-                            }
+                      return (
+                        <tr key={activity._id} style={!factorExists && !isDetached ? { backgroundColor: '#fff3cd' } : {}}>
+                          <td>{activity.activityName}</td>
+                          <td>{activity.reportingPeriodStart} {t('stage2.dateRangeSeparator')} {activity.reportingPeriodEnd}</td>
+                          <td>{activity.scope}</td>
+                          <td>{activity.category}</td>
+                          <td>{activity.location}</td>
+                          <td>{activity.quantity}</td>
+                          <td>
+                            {(() => {
+                              // First try to use stored emission factor data
+                              if (activity.emissionFactorData) {
+                                const description = `${activity.emissionFactorData.description} (${activity.emissionFactorData.co2ePerUnit} ${activity.emissionFactorData.emissionFactorUnit})`;
+                                return isDetached ? (
+                                  <>
+                                    {description}{' '}
+                                    <span className="detached-badge" title={t('stage2.detachedFactorHelp')}>
+                                      {t('stage2.detachedFactor')}
+                                    </span>
+                                  </>
+                                ) : description;
+                              }
                             
-                            // Fallback to looking up by ID
-                            if (factorExists) {
-                              return getEmissionFactorDescription(activity.emissionFactorId, activity);
-                            }
+                              // Fallback to looking up by ID
+                              if (factorExists) {
+                                return getEmissionFactorDescription(activity.emissionFactorId, activity);
+                              }
                             
-                            return (
-                              <span style={{ color: '#dc3545', fontWeight: 'bold' }}>
-                                ⚠️ Emission factor not found (ID: {activity.emissionFactorId})
-                              </span>
-                            );
-                          })()}
-                        </td>
-                        <td>
-                          {(() => {
-                            if (emissions !== null) {
-                              // Use stored emission factor data for unit if available
-                              const unit = activity.emissionFactorData?.emissionFactorUnit || getEmissionFactorUnit(activity.emissionFactorId);
-                              return `${emissions.toFixed(2)} ${unit || t('stage2.defaultUnit')}`;
-                            }
-                            if (!factorExists && !activity.emissionFactorData) {
-                              return <span style={{ color: '#dc3545' }}>{t('stage2.cannotCalculateEFMissing')}</span>;
-                            }
-                            return t('common.noData');
-                          })()}
-                        </td>
-                        <td>
-                          {activity.remarks || t('common.noData')}
-                        </td>
-                        <td>
-                          <div className="action-buttons">
-                            <button
-                              onClick={() => handleEdit(activity)}
-                              className="btn btn-small btn-secondary"
-                              title={t('common.edit')}
-                            >
-                              <FaEdit /> {t('common.edit')}
-                            </button>
-                            <button
-                              onClick={() => handleDelete(activity)}
-                              className="btn btn-small btn-danger"
-                              title={t('common.delete')}
-                              disabled={isDeleting}
-                            >
-                              <FaTrash /> {t('common.delete')}
-                            </button>
-                            {!factorExists && (
+                              return (
+                                <span style={{ color: '#dc3545', fontWeight: 'bold' }}>
+                                  ⚠️ Emission factor not found (ID: {activity.emissionFactorId})
+                                </span>
+                              );
+                            })()}
+                          </td>
+                          <td>
+                            {(() => {
+                              if (emissions !== null) {
+                                // Use stored emission factor data for unit if available
+                                const unit = activity.emissionFactorData?.emissionFactorUnit || getEmissionFactorUnit(activity.emissionFactorId);
+                                return `${emissions.toFixed(2)} ${unit || t('stage2.defaultUnit')}`;
+                              }
+                              if (!factorExists && !activity.emissionFactorData) {
+                                return <span style={{ color: '#dc3545' }}>{t('stage2.cannotCalculateEFMissing')}</span>;
+                              }
+                              return t('common.noData');
+                            })()}
+                          </td>
+                          <td>
+                            {activity.remarks || t('common.noData')}
+                          </td>
+                          <td>
+                            <div className="action-buttons">
+                              <button
+                                onClick={() => handleEdit(activity)}
+                                className="btn btn-small btn-secondary"
+                                title={t('common.edit')}
+                              >
+                                <FaEdit /> {t('common.edit')}
+                              </button>
                               <button
-                                onClick={() => createMissingEmissionFactor(activity)}
-                                className="btn btn-small btn-primary"
-                                style={{ fontSize: '10px', padding: '2px 4px' }}
-                                title={t('stage2.createMissingEmissionFactor')}
+                                onClick={() => handleDelete(activity)}
+                                className="btn btn-small btn-danger"
+                                title={t('common.delete')}
+                                disabled={isDeleting}
                               >
-                                {t('stage2.createMissingEmissionFactor')}
+                                <FaTrash /> {t('common.delete')}
                               </button>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
+                              {!factorExists && !isDetached && (
+                                <button
+                                  onClick={() => createMissingEmissionFactor(activity)}
+                                  className="btn btn-small btn-primary"
+                                  style={{ fontSize: '10px', padding: '2px 4px' }}
+                                  title={t('stage2.createMissingEmissionFactor')}
+                                >
+                                  {t('stage2.createMissingEmissionFactor')}
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <TablePagination
+                  page={pageCursors.length - 1}
+                  pageSize={PAGE_SIZE}
+                  itemCount={activities.length}
+                  total={totalActivities}
+                  hasNext={nextCursor !== null}
+                  onPrevious={() => goToPage(pageCursors.slice(0, -1))}
+                  onNext={() => goToPage([...pageCursors, nextCursor])}
+                />
+              </>
             ) : (
               <div className="no-data">
-                <p>{t('stage2.noActivitiesMessage')}</p>
+                <p>
+                  {activityFilter.scope || activityFilter.category || activityFilter.location
+                    ? t('tableControls.noMatches')
+                    : t('stage2.noActivitiesMessage')}
+                </p>
                 {connectionStatus === 'fallback' && (
                   <p className="fallback-note">
                     <small>{t('stage2.connectionStatus.fallback')}</small>
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type StorageKind } from '@/lib/indexedDB';
+import { createBackup, downloadBackup } from '@/lib/backup';
+import { fileHandleStorage, JsonFileAdapter, StorageFileError } from '@/lib/jsonFileAdapter';
+
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}
+
+// File System Access API pickers, which the DOM typings don't include yet
+interface FilePickerWindow extends Window {
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+}
+
+// Shown while the data is kept somewhere other than IndexedDB, prompting the
+// user to export it before it is lost
+const StorageFallbackBanner: React.FC = () => {
+  const t = useTranslations();
+  const [storageKind, setStorageKind] = useState<StorageKind>('indexeddb');
+  const [fileName, setFileName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [canUseFiles, setCanUseFiles] = useState(false);
+
+  useEffect(() => {
+    setCanUseFiles('showSaveFilePicker' in window && 'showOpenFilePicker' in window);
+    return indexedDBService.onStorageChange(setStorageKind);
+  }, []);
+
+  // Data kept only in memory is gone once the tab closes
+  useEffect(() => {
+    if (storageKind !== 'memory') return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [storageKind]);
+
+  if (storageKind === 'indexeddb') {
+    return null;
+  }
+
+  const pickerOptions: FilePickerOptions = {
+    types: [{ description: t('storageFallback.fileType'), accept: { 'application/json': ['.json'] } }]
+  };
+
+  const handleDownloadBackup = async () => {
+    setIsBusy(true);
+    try {
+      downloadBackup(await createBackup());
+      toast.success(t('backup.toast.exported'));
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error(t('backup.toast.exportFailed'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const switchToFile = async (
+    pickFile: (picker: FilePickerWindow) => Promise<FileSystemFileHandle>,
+    keepData: boolean
+  ) => {
+    setIsBusy(true);
+    try {
+      const handle = await pickFile(window as FilePickerWindow);
+      const file = fileHandleStorage(handle);
+      // When saving, the chosen file is overwritten rather than read
+      const adapter = new JsonFileAdapter(keepData ? { ...file, read: async () => null } : file);
+      await indexedDBService.switchStorage(adapter, { keepData });
+      setFileName(handle.name);
+      toast.success(
+        keepData
+          ? t('storageFallback.toast.savingToFile', { fileName: handle.name })
+          : t('storageFallback.toast.openedFile', { fileName: handle.name })
+      );
+    } catch (error) {
+      // The user closed the file picker
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error switching to file storage:', error);
+      toast.error(t('storageFallback.toast.fileFailed', {
+        error: error instanceof StorageFileError ? error.message : t('common.unknownError')
+      }));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveToFile = () =>
+    switchToFile(
+      (picker) => picker.showSaveFilePicker!({ ...pickerOptions, suggestedName: 'carbon-hub-data.json' }),
+      true
+    );
+
+  const handleOpenFile = () => {
+    // Opening a file replaces what is held in memory
+    if (storageKind === 'memory' && !confirm(t('storageFallback.openFileConfirm'))) return;
+    switchToFile(async (picker) => (await picker.showOpenFilePicker!(pickerOptions))[0], false);
+  };
+
+  return (
+    <div className="storage-fallback-banner" role="alert">
+      <p>
+        {storageKind === 'memory' ? (
+          <>
+            <strong>{t('storageFallback.memoryTitle')}</strong> {t('storageFallback.memoryDescription')}
+          </>
+        ) : (
+          <>
+            <strong>{t('storageFallback.fileTitle', { fileName })}</strong> {t('storageFallback.fileDescription')}
+          </>
+        )}
+      </p>
+      <div className="storage-fallback-actions">
+        <button type="button" className="btn btn-primary btn-small" onClick={handleDownloadBackup} disabled={isBusy}>
+          {t('storageFallback.downloadBackup')}
+        </button>
+        {canUseFiles && storageKind === 'memory' && (
+          <button type="button" className="btn btn-secondary btn-small" onClick={handleSaveToFile} disabled={isBusy}>
+            {t('storageFallback.saveToFile')}
+          </button>
+        )}
+        {canUseFiles && (
+          <button type="button" className="btn btn-secondary btn-small" onClick={handleOpenFile} disabled={isBusy}>
+            {t('storageFallback.openFile')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StorageFallbackBanner;
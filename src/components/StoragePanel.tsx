@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type StoreUsage } from '@/lib/indexedDB';
+import {
+  formatBytes,
+  getPersistenceStatus,
+  getStorageQuota,
+  requestPersistentStorage,
+  type PersistenceStatus,
+  type StorageQuota
+} from '@/lib/storageQuota';
+
+const StoragePanel: React.FC = () => {
+  const t = useTranslations();
+  const [quota, setQuota] = useState<StorageQuota | null>(null);
+  const [persistence, setPersistence] = useState<PersistenceStatus | null>(null);
+  const [storeUsage, setStoreUsage] = useState<StoreUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const fetchUsage = async () => {
+    setIsLoading(true);
+    try {
+      const [nextQuota, nextPersistence, nextStoreUsage] = await Promise.all([
+        getStorageQuota(),
+        getPersistenceStatus(),
+        indexedDBService.getStoreUsage()
+      ]);
+      setQuota(nextQuota);
+      setPersistence(nextPersistence);
+      setStoreUsage(nextStoreUsage.sort((a, b) => b.bytes - a.bytes));
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+  }, []);
+
+  const handleRequestPersistence = async () => {
+    setIsRequesting(true);
+    try {
+      const status = await requestPersistentStorage();
+      setPersistence(status);
+      if (status === 'persisted') {
+        toast.success(t('storage.toast.persisted'));
+      } else {
+        toast.error(t('storage.toast.persistenceDenied'));
+      }
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const storeLabel = (storeName: string) =>
+    t.has(`storage.stores.${storeName}`) ? t(`storage.stores.${storeName}`) : storeName;
+
+  const usedPercent = quota ? Math.min(100, (quota.usage / quota.quota) * 100) : 0;
+
+  return (
+    <div className="form-section storage-panel">
+      <h3 className="section-title">{t('storage.title')}</h3>
+      <p className="form-help">{t('storage.description')}</p>
+
+      {quota ? (
+        <div className="storage-quota">
+          <div
+            className={`storage-quota-bar${quota.nearLimit ? ' near-limit' : ''}`}
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(usedPercent)}
+          >
+            <div className="storage-quota-fill" style={{ width: `${usedPercent}%` }} />
+          </div>
+          <p className="form-help">
+            {t('storage.usage', {
+              used: formatBytes(quota.usage),
+              quota: formatBytes(quota.quota),
+              percent: usedPercent.toFixed(1)
+            })}
+            {quota.indexedDBUsage !== null && (
+              <> {t('storage.databaseUsage', { size: formatBytes(quota.indexedDBUsage) })}</>
+            )}
+          </p>
+          {quota.nearLimit && (
+            <p className="warning-message">{t('storage.nearLimit')}</p>
+          )}
+        </div>
+      ) : (
+        !isLoading && <p className="form-help">{t('storage.estimateUnavailable')}</p>
+      )}
+
+      {persistence === 'persisted' && (
+        <p className="form-help">{t('storage.persisted')}</p>
+      )}
+      {persistence === 'denied' && (
+        <p className="warning-message">{t('storage.notPersisted')}</p>
+      )}
+
+      <div className="form-actions">
+        <button type="button" className="btn btn-secondary" onClick={fetchUsage} disabled={isLoading}>
+          {t('common.refresh')}
+        </button>
+        {persistence === 'denied' && (
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleRequestPersistence}
+            disabled={isRequesting}
+          >
+            {t('storage.requestPersistence')}
+          </button>
+        )}
+      </div>
+
+      {storeUsage.length > 0 && (
+        <table className="storage-usage-table">
+          <thead>
+            <tr>
+              <th>{t('storage.columns.store')}</th>
+              <th>{t('storage.columns.records')}</th>
+              <th>{t('storage.columns.size')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {storeUsage.map((store) => (
+              <tr key={store.storeName}>
+                <td>{storeLabel(store.storeName)}</td>
+                <td>{store.records.toLocaleString()}</td>
+                <td>{formatBytes(store.bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { useTranslations } from 'next-intl';
+
+interface TablePaginationProps {
+  // Zero-based page number
+  page: number;
+  pageSize: number;
+  // Records on the current page
+  itemCount: number;
+  total: number;
+  hasNext: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  disabled?: boolean;
+}
+
+const TablePagination: React.FC<TablePaginationProps> = ({
+  page,
+  pageSize,
+  itemCount,
+  total,
+  hasNext,
+  onPrevious,
+  onNext,
+  disabled = false
+}) => {
+  const t = useTranslations();
+  const from = itemCount > 0 ? page * pageSize + 1 : 0;
+  const to = page * pageSize + itemCount;
+
+  return (
+    <div className="table-pagination">
+      <span className="table-pagination-summary">
+        {t('tableControls.summary', { from, to, total })}
+      </span>
+      <div className="table-pagination-buttons">
+        <button
+          type="button"
+          className="btn btn-secondary btn-small"
+          onClick={onPrevious}
+          disabled={disabled || page === 0}
+        >
+          {t('tableControls.previous')}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary btn-small"
+          onClick={onNext}
+          disabled={disabled || !hasNext}
+        >
+          {t('tableControls.next')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TablePagination;
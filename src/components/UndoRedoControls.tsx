@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import undoManager, { type UndoState } from '@/lib/undoManager';
+
+// Let the browser handle Ctrl+Z inside text fields
+const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const UndoRedoControls: React.FC = () => {
+  const t = useTranslations();
+  const [state, setState] = useState<UndoState>(undoManager.getState());
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    return undoManager.onChange(setState);
+  }, []);
+
+  const apply = async (direction: 'undo' | 'redo') => {
+    if (isApplying) return;
+
+    setIsApplying(true);
+    try {
+      const label = direction === 'undo' ? await undoManager.undo() : await undoManager.redo();
+      if (label) {
+        toast.success(t(`undo.toast.${direction}`, { action: t(`undo.labels.${label}`) }), { id: 'undo-redo' });
+      }
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      toast.error(t(`undo.toast.${direction}Failed`), { id: 'undo-redo' });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        apply('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        apply('redo');
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  });
+
+  if (!state.canUndo && !state.canRedo) return null;
+
+  return (
+    <div className="undo-redo-controls">
+      <button
+        type="button"
+        className="btn btn-secondary btn-small"
+        onClick={() => apply('undo')}
+        disabled={!state.canUndo || isApplying}
+        title={state.undoLabel ? t('undo.undoTitle', { action: t(`undo.labels.${state.undoLabel}`) }) : undefined}
+      >
+        ↶ {t('undo.undo')}
+      </button>
+      <button
+        type="button"
+        className="btn btn-secondary btn-small"
+        onClick={() => apply('redo')}
+        disabled={!state.canRedo || isApplying}
+        title={state.redoLabel ? t('undo.redoTitle', { action: t(`undo.labels.${state.redoLabel}`) }) : undefined}
+      >
+        ↷ {t('undo.redo')}
+      </button>
+    </div>
+  );
+};
+
+export default UndoRedoControls;
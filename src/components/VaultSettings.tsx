@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService, { type VaultStatus } from '@/lib/indexedDB';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/vault';
+
+interface VaultSettingsProps {
+  status: VaultStatus;
+}
+
+const VaultSettings: React.FC<VaultSettingsProps> = ({ status }) => {
+  const t = useTranslations();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setErrorMsg(t('vault.settings.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setErrorMsg(t('vault.settings.mismatch'));
+      return;
+    }
+
+    setIsWorking(true);
+    setErrorMsg('');
+    try {
+      await indexedDBService.enableVault(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      toast.success(t('vault.toast.enabled'));
+    } catch (error) {
+      console.error('Error enabling vault:', error);
+      toast.error(t('vault.toast.enableFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm(t('vault.settings.disableConfirm'))) return;
+
+    setIsWorking(true);
+    try {
+      await indexedDBService.disableVault();
+      toast.success(t('vault.toast.disabled'));
+    } catch (error) {
+      console.error('Error disabling vault:', error);
+      toast.error(t('vault.toast.disableFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="form-section vault-settings">
+      <h3 className="section-title">{t('vault.settings.title')}</h3>
+
+      {status === 'disabled' ? (
+        <form onSubmit={handleEnable}>
+          <p className="form-help">{t('vault.settings.description')}</p>
+          <div className="form-grid">
+            <div className="form-group">
+              <label htmlFor="vault-new-passphrase">{t('vault.passphrase')}</label>
+              <input
+                id="vault-new-passphrase"
+                type="password"
+                className="form-input"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+                disabled={isWorking}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="vault-confirm-passphrase">{t('vault.settings.confirmPassphrase')}</label>
+              <input
+                id="vault-confirm-passphrase"
+                type="password"
+                className="form-input"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                autoComplete="new-password"
+                disabled={isWorking}
+              />
+            </div>
+          </div>
+          <p className="form-help">{t('vault.settings.warning')}</p>
+
+          {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+          <div className="form-actions">
+            <button type="submit" className="btn btn-primary" disabled={isWorking || !passphrase}>
+              {isWorking ? t('vault.settings.enabling') : t('vault.settings.enableButton')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <p className="form-help">{t('vault.settings.enabledDescription')}</p>
+          <div className="form-actions">
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => indexedDBService.lockVault()}
+              disabled={isWorking}
+            >
+              {t('vault.settings.lockButton')}
+            </button>
+            <button
+              type="button"
+              className="btn btn-danger"
+              onClick={handleDisable}
+              disabled={isWorking}
+            >
+              {t('vault.settings.disableButton')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VaultSettings;
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import { VaultPassphraseError } from '@/lib/vault';
+
+const VaultUnlockScreen: React.FC = () => {
+  const t = useTranslations();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setErrorMsg('');
+    try {
+      await indexedDBService.unlockVault(passphrase);
+      setPassphrase('');
+    } catch (error) {
+      console.error('Error unlocking vault:', error);
+      setErrorMsg(error instanceof VaultPassphraseError ? t('vault.unlock.wrongPassphrase') : t('vault.unlock.failed'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm(t('vault.unlock.resetConfirm'))) return;
+
+    try {
+      await indexedDBService.resetVault();
+      toast.success(t('vault.toast.reset'));
+    } catch (error) {
+      console.error('Error resetting vault:', error);
+      toast.error(t('vault.toast.resetFailed'));
+    }
+  };
+
+  return (
+    <div className="form-section vault-unlock">
+      <h2 className="section-title">{t('vault.unlock.title')}</h2>
+      <p className="form-help">{t('vault.unlock.description')}</p>
+
+      <form onSubmit={handleUnlock}>
+        <div className="form-group">
+          <label htmlFor="vault-passphrase">{t('vault.passphrase')}</label>
+          <input
+            id="vault-passphrase"
+            type="password"
+            className="form-input"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+            autoFocus
+            disabled={isUnlocking}
+          />
+        </div>
+
+        {errorMsg && <div className="csv-error">{errorMsg}</div>}
+
+        <div className="form-actions">
+          <button type="submit" className="btn btn-primary" disabled={isUnlocking || !passphrase}>
+            {isUnlocking ? t('vault.unlock.unlocking') : t('vault.unlock.button')}
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={handleReset} disabled={isUnlocking}>
+            {t('vault.unlock.forgot')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default VaultUnlockScreen;
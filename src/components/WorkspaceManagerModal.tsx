@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useTranslations } from 'next-intl';
+import indexedDBService from '@/lib/indexedDB';
+import workspaceManager, { type Workspace } from '@/lib/workspaces';
+import DeleteConfirmationModal from './DeleteConfirmationModal';
+
+interface WorkspaceManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: () => void;
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+const WorkspaceManagerModal: React.FC<WorkspaceManagerModalProps> = ({
+  isOpen,
+  onClose,
+  onChange,
+  workspaces,
+  activeWorkspaceId
+}) => {
+  const t = useTranslations();
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [deletingWorkspace, setDeletingWorkspace] = useState<Workspace | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      const workspace = workspaceManager.createWorkspace(newName);
+      setNewName('');
+      onChange();
+      toast.success(t('workspaces.toast.created', { name: workspace.name }));
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      toast.error(t('workspaces.toast.createFailed'));
+    }
+  };
+
+  const handleRename = (id: string) => {
+    if (!editingName.trim()) return;
+
+    try {
+      workspaceManager.renameWorkspace(id, editingName);
+      setEditingId(null);
+      onChange();
+    } catch (error) {
+      console.error('Error renaming workspace:', error);
+      toast.error(t('workspaces.toast.renameFailed'));
+    }
+  };
+
+  const handleDuplicate = async (workspace: Workspace) => {
+    setIsWorking(true);
+    try {
+      const copy = await indexedDBService.duplicateWorkspace(
+        workspace.id,
+        t('workspaces.copyName', { name: workspace.name })
+      );
+      onChange();
+      toast.success(t('workspaces.toast.duplicated', { name: copy.name }));
+    } catch (error) {
+      console.error('Error duplicating workspace:', error);
+      toast.error(t('workspaces.toast.duplicateFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingWorkspace) return;
+
+    setIsWorking(true);
+    try {
+      await indexedDBService.deleteWorkspace(deletingWorkspace.id);
+      onChange();
+      toast.success(t('workspaces.toast.deleted', { name: deletingWorkspace.name }));
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      toast.error(t('workspaces.toast.deleteFailed'));
+    } finally {
+      setIsWorking(false);
+      setDeletingWorkspace(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content workspace-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3 className="modal-title">{t('workspaces.title')}</h3>
+        </div>
+
+        <div className="modal-body">
+          <p className="form-help">{t('workspaces.description')}</p>
+
+          <ul className="workspace-list">
+            {workspaces.map((workspace) => (
+              <li key={workspace.id} className="workspace-item">
+                {editingId === workspace.id ? (
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(workspace.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    aria-label={t('workspaces.nameLabel')}
+                    autoFocus
+                  />
+                ) : (
+                  <span className="workspace-item-name">
+                    {workspace.name}
+                    {workspace.id === activeWorkspaceId && (
+                      <span className="workspace-active-badge">{t('workspaces.active')}</span>
+                    )}
+                  </span>
+                )}
+
+                <div className="workspace-item-actions">
+                  {editingId === workspace.id ? (
+                    <>
+                      <button type="button" className="btn btn-primary btn-small" onClick={() => handleRename(workspace.id)}>
+                        {t('common.save')}
+                      </button>
+                      <button type="button" className="btn btn-secondary btn-small" onClick={() => setEditingId(null)}>
+                        {t('common.cancel')}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        className="btn btn-secondary btn-small"
+                        onClick={() => {
+                          setEditingId(workspace.id);
+                          setEditingName(workspace.name);
+                        }}
+                        disabled={isWorking}
+                      >
+                        {t('workspaces.rename')}
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-secondary btn-small"
+                        onClick={() => handleDuplicate(workspace)}
+                        disabled={isWorking}
+                      >
+                        {t('workspaces.duplicate')}
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-danger btn-small"
+                        onClick={() => setDeletingWorkspace(workspace)}
+                        disabled={isWorking || workspace.id === activeWorkspaceId}
+                        title={workspace.id === activeWorkspaceId ? t('workspaces.cannotDeleteActive') : undefined}
+                      >
+                        {t('workspaces.delete')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleCreate} className="workspace-create">
+            <input
+              type="text"
+              className="form-input"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={t('workspaces.newPlaceholder')}
+              aria-label={t('workspaces.nameLabel')}
+            />
+            <button type="submit" className="btn btn-primary" disabled={!newName.trim()}>
+              {t('workspaces.create')}
+            </button>
+          </form>
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={onClose}>
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+
+      <DeleteConfirmationModal
+        isOpen={deletingWorkspace !== null}
+        onClose={() => setDeletingWorkspace(null)}
+        onConfirm={confirmDelete}
+        title={t('workspaces.deleteTitle')}
+        message={t('workspaces.deleteMessage', { name: deletingWorkspace?.name ?? '' })}
+        confirmText={t('workspaces.delete')}
+        cancelText={t('common.cancel')}
+      />
+    </div>
+  );
+};
+
+export default WorkspaceManagerModal;
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import workspaceManager, { type Workspace } from '@/lib/workspaces';
+import WorkspaceManagerModal from './WorkspaceManagerModal';
+
+const WorkspaceSwitcher: React.FC = () => {
+  const t = useTranslations();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showManager, setShowManager] = useState(false);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspace, setActiveWorkspace] = useState<Workspace | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const loadWorkspaces = () => {
+    setWorkspaces(workspaceManager.getWorkspaces());
+    setActiveWorkspace(workspaceManager.getActiveWorkspace());
+  };
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleWorkspaceSelect = (id: string) => {
+    setIsOpen(false);
+    if (id === activeWorkspace?.id) return;
+
+    workspaceManager.setActiveWorkspace(id);
+    // Reload so the database service connects to the selected workspace
+    window.location.reload();
+  };
+
+  if (!activeWorkspace) return null;
+
+  return (
+    <div className="workspace-switcher language-selector" ref={dropdownRef}>
+      <button
+        className="language-selector-button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={t('workspaces.selectWorkspace')}
+        aria-expanded={isOpen}
+        aria-haspopup="listbox"
+      >
+        <span className="language-icon">🗂️</span>
+        <span className="workspace-name">{activeWorkspace.name}</span>
+        <span className={`language-arrow ${isOpen ? 'open' : ''}`}>▼</span>
+      </button>
+
+      {isOpen && (
+        <div className="language-dropdown" role="listbox">
+          {workspaces.map((workspace) => (
+            <button
+              key={workspace.id}
+              className={`language-option ${workspace.id === activeWorkspace.id ? 'selected' : ''}`}
+              onClick={() => handleWorkspaceSelect(workspace.id)}
+              role="option"
+              aria-selected={workspace.id === activeWorkspace.id}
+            >
+              <span className="workspace-name">{workspace.name}</span>
+              {workspace.id === activeWorkspace.id && <span className="checkmark">✓</span>}
+            </button>
+          ))}
+          <button
+            className="language-option workspace-manage-option"
+            onClick={() => {
+              setIsOpen(false);
+              setShowManager(true);
+            }}
+          >
+            {t('workspaces.manage')}
+          </button>
+        </div>
+      )}
+
+      <WorkspaceManagerModal
+        isOpen={showManager}
+        onClose={() => setShowManager(false)}
+        onChange={loadWorkspaces}
+        workspaces={workspaces}
+        activeWorkspaceId={activeWorkspace.id}
+      />
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,104 @@
+// Evidence files attached to activities and emission factors
+// Bills, invoices and meter photos are kept next to the records they
+// support, so auditors can see where a number came from.
+
+import {
+  validateFields,
+  type FieldDefinition,
+  type FieldError,
+} from "./fields";
+import type { RecordId } from "../lib/ids";
+
+export type AttachmentOwnerStore = "reporting_activities" | "emission_factors";
+
+export interface Attachment {
+  _id?: RecordId;
+  ownerStore: AttachmentOwnerStore;
+  ownerId: RecordId;
+  name: string;
+  // MIME type
+  type: string;
+  size: number;
+  addedAt: string;
+  data: Blob;
+}
+
+export type AttachmentKind = "pdf" | "image" | "spreadsheet";
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// File extensions accepted as attachments. Browsers often leave the MIME type
+// of spreadsheets empty, so files are recognised by their extension.
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  pdf: "pdf",
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  webp: "image",
+  csv: "spreadsheet",
+  xls: "spreadsheet",
+  xlsx: "spreadsheet",
+  ods: "spreadsheet",
+};
+
+export const ATTACHMENT_EXTENSIONS = Object.keys(EXTENSION_KINDS).map(
+  (extension) => `.${extension}`
+);
+
+export function attachmentKind(name: string): AttachmentKind | null {
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_KINDS[extension] ?? null;
+}
+
+export const attachmentFields: FieldDefinition<
+  "ownerStore" | "ownerId" | "name" | "size"
+>[] = [
+  {
+    key: "ownerStore",
+    label: "Attached To",
+    type: "enum",
+    required: true,
+    validation: { enumOptions: ["reporting_activities", "emission_factors"] },
+    example: "reporting_activities",
+  },
+  {
+    key: "ownerId",
+    label: "Record",
+    type: "string",
+    required: true,
+    example: "",
+  },
+  {
+    key: "name",
+    label: "File Name",
+    type: "string",
+    required: true,
+    example: "electricity-bill-2024-01.pdf",
+  },
+  {
+    key: "size",
+    label: "File Size",
+    type: "number",
+    required: true,
+    validation: { min: 0, max: MAX_ATTACHMENT_BYTES },
+    example: 120000,
+  },
+];
+
+export function validateAttachment(
+  attachment: Partial<Attachment>
+): FieldError[] {
+  const errors = validateFields(attachmentFields, attachment);
+  if (attachment.name && !attachmentKind(attachment.name)) {
+    errors.push({
+      field: "name",
+      code: "enum",
+      params: { options: ATTACHMENT_EXTENSIONS.join(", ") },
+    });
+  }
+  if (!(attachment.data instanceof Blob)) {
+    errors.push({ field: "data", code: "required" });
+  }
+  return errors;
+}
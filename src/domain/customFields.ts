@@ -0,0 +1,160 @@
+// User-defined emission factor fields
+// Fields added at runtime, on top of the built-in ones in emissionFactor.ts,
+// and kept in the emission_factor_fields store. They use the same
+// FieldDefinition shape, so the forms, the CSV template and CSV validation
+// treat them like the built-in fields. A factor keeps their values under
+// `custom`, by field key. Deleting a field leaves the stored values in place,
+// so adding it back with the same key brings them back. A field's type and
+// rules can only change to ones its stored values satisfy.
+
+import { emissionFactorFields, type EmissionFactor } from "./emissionFactor";
+import { validateField, type FieldDefinition } from "./fields";
+import type { RecordId } from "../lib/ids";
+
+export interface CustomFieldDefinition extends FieldDefinition {
+  _id?: RecordId;
+}
+
+export type CustomFieldValue = string | number;
+
+export type CustomFieldProblem =
+  | "labelRequired"
+  | "labelTaken"
+  | "keyFormat"
+  | "keyTaken"
+  | "enumOptions"
+  | "minAboveMax"
+  | "regex"
+  | "storedValues";
+
+// Thrown by the storage layer when a field definition can't be saved.
+// `factors` are the descriptions of the factors behind a "storedValues"
+// problem.
+export class CustomFieldError extends Error {
+  readonly problem: CustomFieldProblem;
+  readonly factors: string[];
+
+  constructor(
+    field: CustomFieldDefinition,
+    problem: CustomFieldProblem,
+    factors: string[] = []
+  ) {
+    super(`Invalid custom field "${field.label}": ${problem}`);
+    this.name = "CustomFieldError";
+    this.problem = problem;
+    this.factors = factors;
+  }
+}
+
+// Keys are used as object keys and CSV-safe identifiers
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// Emission factor properties a custom field can't shadow
+const RESERVED_KEYS = [
+  "_id",
+  "versions",
+  "custom",
+  ...emissionFactorFields.map((field) => field.key),
+];
+
+// A key for a new field, derived from its label: "Fuel type" -> "fuelType"
+export function toCustomFieldKey(label: string): string {
+  const words = label
+    .normalize("NFKD")
+    .replace(/[^A-Za-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  const key = words
+    .map((word, i) =>
+      i === 0
+        ? word.toLowerCase()
+        : word[0].toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join("");
+  return /^[0-9]/.test(key) ? `field${key}` : key;
+}
+
+// The first problem with a field definition, or null if it can be saved.
+// `others` are the other custom fields; labels must be unique among all
+// fields because the CSV columns are matched by label.
+export function validateCustomField(
+  field: CustomFieldDefinition,
+  others: CustomFieldDefinition[]
+): CustomFieldProblem | null {
+  const label = field.label.trim().toLowerCase();
+  if (!label) return "labelRequired";
+  if (
+    [...emissionFactorFields, ...others].some(
+      (other) => other.label.trim().toLowerCase() === label
+    )
+  ) {
+    return "labelTaken";
+  }
+  if (!KEY_PATTERN.test(field.key)) return "keyFormat";
+  if (
+    RESERVED_KEYS.includes(field.key) ||
+    others.some((other) => other.key === field.key)
+  ) {
+    return "keyTaken";
+  }
+
+  const rules = field.validation ?? {};
+  if (field.type === "enum" && !rules.enumOptions?.length) {
+    return "enumOptions";
+  }
+  if (
+    rules.min !== undefined &&
+    rules.max !== undefined &&
+    rules.min > rules.max
+  ) {
+    return "minAboveMax";
+  }
+  if (rules.regex) {
+    try {
+      new RegExp(rules.regex);
+    } catch {
+      return "regex";
+    }
+  }
+  return null;
+}
+
+// Factors whose stored value for the field doesn't satisfy its type and
+// rules. A missing value is fine even for a required field, since factors
+// saved before the field existed have none.
+export function factorsWithInvalidValues(
+  field: CustomFieldDefinition,
+  factors: EmissionFactor[]
+): EmissionFactor[] {
+  const rules = { ...field, required: false };
+  return factors.filter(
+    (factor) => validateField(rules, factor.custom?.[field.key]) !== null
+  );
+}
+
+// The stored value for text entered in a form or CSV cell. Empty text means
+// no value; text that isn't a number is kept as NaN so validation reports it.
+export function parseCustomValue(
+  field: FieldDefinition,
+  text: string
+): CustomFieldValue | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  return field.type === "number" ? Number(trimmed) : trimmed;
+}
+
+// Set or remove one value, returning a new `custom` object
+export function withCustomValue(
+  custom: Record<string, CustomFieldValue> | undefined,
+  key: string,
+  value: CustomFieldValue | undefined
+): Record<string, CustomFieldValue> {
+  const next = { ...custom };
+  if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+}
@@ -1,40 +1,53 @@
-// Centralized schema for emission factor profile fields
-// To add, remove, or update fields, edit this file only. All form, CSV, and validation logic will use this schema.
-// Each field should have: key, label, type, required, validation, and example.
+// Emission factor records
+// The field list below is the single definition of an emission factor's
+// built-in profile fields. To add, remove, or update them, edit this list
+// only: the forms, CSV import and export, and write-time validation all use
+// it. Fields a workspace needs beyond these are added at runtime instead (see
+// customFields.ts).
 
-export interface EmissionFactorData {
-  _id?: string;
+import {
+  validateFields,
+  type FieldDefinition,
+  type FieldError,
+} from "./fields";
+import type { CustomFieldDefinition, CustomFieldValue } from "./customFields";
+import { validateVersions, type FactorVersion } from "../lib/factorVersions";
+import type { RecordId } from "../lib/ids";
+
+export type MethodType =
+  | "Volume Based"
+  | "Spend Based"
+  | "Distance Based"
+  | "Mass Based";
+
+export interface EmissionFactor {
+  _id?: RecordId;
   description: string;
   scope: string;
   category: string;
   location: string;
   unit: string;
   dataSource: string;
-  methodType: "Volume Based" | "Spend Based" | "Distance Based" | "Mass Based";
+  methodType: MethodType;
   co2ePerUnit: number;
   emissionFactorUnit: string;
   ghgReportingStandard: string;
   sourceOrDisclosureRequirement: string;
+  // Values for particular date ranges; co2ePerUnit applies outside them.
+  // Edited separately from the profile fields below.
+  versions?: FactorVersion[];
+  // Values of user-defined fields, by field key
+  custom?: Record<string, CustomFieldValue>;
 }
 
-export interface EmissionFactorField {
-  key: string;
-  label: string;
-  type: "string" | "number" | "enum";
-  required: boolean;
-  allowEmpty?: boolean; // New field to allow empty strings for CSV imports
-  validation?: {
-    min?: number;
-    max?: number;
-    regex?: string;
-    enumOptions?: string[];
-    customError?: string;
-  };
-  example: string | number;
-}
+// Keys of the fields listed in emissionFactorFields
+export type EmissionFactorFieldKey = Exclude<
+  keyof EmissionFactor,
+  "_id" | "versions" | "custom"
+>;
 
 // Update this array to change the required fields for emission factor profiles.
-export const emissionFactorFields: EmissionFactorField[] = [
+export const emissionFactorFields: FieldDefinition<EmissionFactorFieldKey>[] = [
   {
     key: "description",
     label: "Description",
@@ -151,3 +164,23 @@ export const emissionFactorFields: EmissionFactorField[] = [
 
 // To update validation rules, add or modify the 'validation' property for each field.
 // To update the CSV template or example row, edit the 'example' property for each field.
+
+// Custom field errors are reported under the custom field's key
+export function validateEmissionFactor(
+  factor: Partial<EmissionFactor>,
+  customFields: CustomFieldDefinition[] = []
+): FieldError[] {
+  const errors = [
+    ...validateFields(emissionFactorFields, factor),
+    ...validateFields(customFields, factor.custom ?? {}),
+  ];
+  const versionProblem = factor.versions && validateVersions(factor.versions);
+  if (versionProblem) {
+    errors.push({
+      field: "versions",
+      code: "versions",
+      params: { problem: versionProblem.problem },
+    });
+  }
+  return errors;
+}
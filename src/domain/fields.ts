@@ -0,0 +1,167 @@
+// Field schemas and the validators built from them
+// Each record type lists its fields once. Forms, CSV import, analytics and the
+// storage layer all validate against that list, so a record is checked by the
+// same rules wherever it comes from.
+
+export type FieldType = "string" | "number" | "enum" | "date";
+
+export interface FieldDefinition<K extends string = string> {
+  key: K;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  allowEmpty?: boolean; // Allow empty strings, for example in CSV imports
+  validation?: {
+    min?: number;
+    // Values must be greater than min rather than equal to it
+    exclusiveMin?: boolean;
+    max?: number;
+    regex?: string;
+    enumOptions?: string[];
+    customError?: string;
+  };
+  example: string | number;
+}
+
+export type FieldErrorCode =
+  | "required"
+  | "invalidNumber"
+  | "invalidDate"
+  | "min"
+  | "minExclusive"
+  | "max"
+  | "enum"
+  | "format"
+  | "periodOrder"
+  | "versions";
+
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  params?: Record<string, string | number>;
+}
+
+// Thrown by the storage layer when a record fails validation
+export class ValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(recordType: string, errors: FieldError[]) {
+    super(
+      `Invalid ${recordType}: ${errors.map((error) => describeFieldError(error)).join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.errors = errors;
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+// Check one value against its field definition
+export function validateField<K extends string>(
+  field: FieldDefinition<K>,
+  value: unknown
+): FieldError | null {
+  const error = (code: FieldErrorCode, params?: FieldError["params"]) => ({
+    field: field.key,
+    code,
+    ...(params ? { params } : {}),
+  });
+
+  if (isEmpty(value)) {
+    const allowed =
+      !field.required || (field.allowEmpty && typeof value === "string");
+    return allowed ? null : error("required");
+  }
+
+  const rules = field.validation ?? {};
+  switch (field.type) {
+    case "number": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return error("invalidNumber");
+      }
+      if (rules.min !== undefined) {
+        if (rules.exclusiveMin && value <= rules.min) {
+          return error("minExclusive", { min: rules.min });
+        }
+        if (value < rules.min) return error("min", { min: rules.min });
+      }
+      if (rules.max !== undefined && value > rules.max) {
+        return error("max", { max: rules.max });
+      }
+      return null;
+    }
+    case "date":
+      return typeof value === "string" &&
+        ISO_DATE.test(value) &&
+        !Number.isNaN(Date.parse(value))
+        ? null
+        : error("invalidDate");
+    case "enum":
+      return typeof value === "string" &&
+        rules.enumOptions &&
+        !rules.enumOptions.includes(value)
+        ? error("enum", { options: rules.enumOptions.join(", ") })
+        : null;
+    default:
+      if (typeof value !== "string") return error("format");
+      if (rules.regex && !new RegExp(rules.regex).test(value)) {
+        return error("format");
+      }
+      return null;
+  }
+}
+
+// Check every field of a record
+export function validateFields<K extends string>(
+  fields: FieldDefinition<K>[],
+  record: Partial<Record<K, unknown>>
+): FieldError[] {
+  return fields.flatMap((field) => {
+    const error = validateField(field, record[field.key]);
+    return error ? [error] : [];
+  });
+}
+
+// English description of an error, for logs, CSV reports and error messages.
+// Forms show translated messages instead.
+export function describeFieldError(
+  error: FieldError,
+  fields: FieldDefinition[] = []
+): string {
+  const label =
+    fields.find((field) => field.key === error.field)?.label ?? error.field;
+  const params = error.params ?? {};
+  switch (error.code) {
+    case "required":
+      return `${label} is required`;
+    case "invalidNumber":
+      return `${label} must be a valid number`;
+    case "invalidDate":
+      return `${label} must be a date (YYYY-MM-DD)`;
+    case "min":
+      return `${label} must be at least ${params.min}`;
+    case "minExclusive":
+      return `${label} must be greater than ${params.min}`;
+    case "max":
+      return `${label} must be at most ${params.max}`;
+    case "enum":
+      return `${label} must be one of: ${params.options}`;
+    case "periodOrder":
+      return "The reporting period can't end before it starts";
+    case "versions":
+      return `${label} has an invalid value history (${params.problem})`;
+    default:
+      return (
+        fields.find((field) => field.key === error.field)?.validation
+          ?.customError ?? `${label} format is invalid`
+      );
+  }
+}
@@ -0,0 +1,8 @@
+// GHG reporting standards an emission factor can cite
+
+import type { RecordId } from "../lib/ids";
+
+export interface GhgReportingStandard {
+  _id?: RecordId;
+  name: string;
+}
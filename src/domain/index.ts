@@ -0,0 +1,8 @@
+// The app's record types and their field schemas
+
+export * from "./fields";
+export * from "./emissionFactor";
+export * from "./customFields";
+export * from "./reportingActivity";
+export * from "./ghgReportingStandard";
+export * from "./attachment";
@@ -0,0 +1,144 @@
+// Reporting activity records
+// An activity is a quantity of something consumed or emitted over a reporting
+// period, calculated with an emission factor. The field list below is used by
+// the activity forms, the analytics filters and write-time validation.
+
+import {
+  validateFields,
+  type FieldDefinition,
+  type FieldError,
+} from "./fields";
+import type { RecordId } from "../lib/ids";
+
+export interface ReportingActivity {
+  _id?: RecordId;
+  reportingPeriodStart: string;
+  reportingPeriodEnd: string;
+  scope: string;
+  category: string;
+  activityName: string;
+  location: string;
+  quantity: number;
+  emissionFactorId?: RecordId; // Keep for backward compatibility
+  emissionFactorData?: {
+    // New: Store emission factor data directly
+    description: string;
+    co2ePerUnit: number;
+    emissionFactorUnit: string;
+    unit: string;
+  };
+  remarks?: string;
+  calculatedEmissions?: number;
+}
+
+// Keys of the fields listed in reportingActivityFields
+export type ReportingActivityFieldKey = Exclude<
+  keyof ReportingActivity,
+  "_id" | "emissionFactorId" | "emissionFactorData" | "calculatedEmissions"
+>;
+
+export const reportingActivityFields: FieldDefinition<ReportingActivityFieldKey>[] =
+  [
+    {
+      key: "reportingPeriodStart",
+      label: "Reporting Period Start",
+      type: "date",
+      required: true,
+      example: "2024-01-01",
+    },
+    {
+      key: "reportingPeriodEnd",
+      label: "Reporting Period End",
+      type: "date",
+      required: true,
+      example: "2024-12-31",
+    },
+    {
+      key: "scope",
+      label: "Scope",
+      type: "enum",
+      required: true,
+      validation: {
+        enumOptions: ["Scope 1", "Scope 2", "Scope 3"],
+      },
+      example: "Scope 2",
+    },
+    {
+      key: "category",
+      label: "Category",
+      type: "string",
+      required: true,
+      example: "Purchased Electricity",
+    },
+    {
+      key: "activityName",
+      label: "Activity Name",
+      type: "string",
+      required: true,
+      example: "Office electricity",
+    },
+    {
+      key: "location",
+      label: "Location",
+      type: "string",
+      required: true,
+      example: "Hong Kong",
+    },
+    {
+      key: "quantity",
+      label: "Quantity",
+      type: "number",
+      required: true,
+      validation: { min: 0, exclusiveMin: true },
+      example: 1200,
+    },
+    {
+      key: "remarks",
+      label: "Remarks",
+      type: "string",
+      required: false,
+      example: "",
+    },
+  ];
+
+export function validateReportingActivity(
+  activity: Partial<ReportingActivity>
+): FieldError[] {
+  const errors = validateFields(reportingActivityFields, activity);
+  const { reportingPeriodStart: start, reportingPeriodEnd: end } = activity;
+  // Only compare the dates once both are valid
+  if (
+    !errors.some((error) => error.field.startsWith("reportingPeriod")) &&
+    start &&
+    end &&
+    end < start
+  ) {
+    errors.push({ field: "reportingPeriodEnd", code: "periodOrder" });
+  }
+  return errors;
+}
+
+// Fields the analytics charts and filters can group, sum and match on
+export type ActivityValueKey =
+  | ReportingActivityFieldKey
+  | "emissionFactorId"
+  | "calculatedEmissions";
+
+const VALUE_KEYS = new Set<string>([
+  ...reportingActivityFields.map((field) => field.key),
+  "emissionFactorId",
+  "calculatedEmissions",
+]);
+
+export function isActivityValueKey(key: string): key is ActivityValueKey {
+  return VALUE_KEYS.has(key);
+}
+
+// The value of a field picked by name, such as a chart axis. Unknown names
+// have no value.
+export function activityValue(
+  activity: ReportingActivity,
+  key: string
+): string | number | undefined {
+  return isActivityValueKey(key) ? activity[key] : undefined;
+}
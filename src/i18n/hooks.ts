@@ -1,5 +1,6 @@
 import { useTranslations } from "next-intl";
 import { useI18n } from "./provider";
+import type { FieldError } from "@/domain";
 
 export const useLocalizedTranslations = () => {
   const t = useTranslations();
@@ -59,3 +60,19 @@ export const useLocalizedTranslations = () => {
     },
   };
 };
+
+// Translated message for a field validation error from the domain schema.
+// `label` is the field's name as shown in the form.
+export const useFieldErrorMessage = () => {
+  const t = useTranslations();
+
+  return (error: FieldError, label: string): string => {
+    if (error.code === "versions") {
+      return t(`stage1.versions.problems.${error.params?.problem}`);
+    }
+    return t(`forms.fieldErrors.${error.code}`, {
+      field: label,
+      ...error.params,
+    });
+  };
+};
@@ -0,0 +1,94 @@
+// Lock screen PIN
+// With the lock-only retention policy the app locks itself when idle. When
+// the data vault is on, unlocking takes the vault passphrase, since the vault
+// keys are dropped on lock. Without the vault a PIN keeps the screen closed.
+// Only a salted PBKDF2 hash of the PIN is stored, in localStorage. A PIN keeps
+// passers-by away from an unattended screen; only the vault encrypts records.
+
+import { fromBase64, PBKDF2_ITERATIONS, toBase64 } from "./vault";
+
+interface StoredPin {
+  salt: string;
+  iterations: number;
+  hash: string;
+}
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+
+const STORAGE_KEY = "carbonHubLockPin";
+const PIN_PATTERN = new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`);
+
+export function isValidPin(pin: string): boolean {
+  return PIN_PATTERN.test(pin);
+}
+
+async function hashPin(
+  pin: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<string> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    256
+  );
+  return toBase64(bits);
+}
+
+class AppLock {
+  private loadPin(): StoredPin | null {
+    if (typeof window === "undefined") return null;
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? (JSON.parse(saved) as StoredPin) : null;
+    } catch (error) {
+      console.error("AppLock: Error loading PIN:", error);
+      return null;
+    }
+  }
+
+  hasPin(): boolean {
+    return this.loadPin() !== null;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    if (!isValidPin(pin)) {
+      throw new Error(
+        `The PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits.`
+      );
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const stored: StoredPin = {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: await hashPin(pin, salt, PBKDF2_ITERATIONS),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    console.log("AppLock: PIN set");
+  }
+
+  clearPin(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    console.log("AppLock: PIN removed");
+  }
+
+  async verifyPin(pin: string): Promise<boolean> {
+    const stored = this.loadPin();
+    if (!stored) return false;
+    const hash = await hashPin(pin, fromBase64(stored.salt), stored.iterations);
+    return hash === stored.hash;
+  }
+}
+
+// Create and export singleton instance
+const appLock = new AppLock();
+
+export default appLock;
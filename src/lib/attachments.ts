@@ -0,0 +1,58 @@
+// Encoding attachment files as text
+// IndexedDB keeps attachment contents as Blobs. Where records have to become
+// JSON (backups, the JSON file backend, vault encryption) the contents are
+// carried as base64 instead.
+
+import type { Attachment, AttachmentOwnerStore } from "../domain";
+import type { RecordId } from "./ids";
+
+// An attachment with its contents as base64
+export type EncodedAttachment = Omit<Attachment, "data"> & { data: string };
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function base64ToBlob(base64: string, type: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+export async function encodeAttachment(
+  attachment: Attachment
+): Promise<EncodedAttachment> {
+  return { ...attachment, data: await blobToBase64(attachment.data) };
+}
+
+export function decodeAttachment(encoded: EncodedAttachment): Attachment {
+  return { ...encoded, data: base64ToBlob(encoded.data, encoded.type) };
+}
+
+// A new attachment record for a file the user picked
+export function fileToAttachment(
+  file: File,
+  ownerStore: AttachmentOwnerStore,
+  ownerId: RecordId
+): Omit<Attachment, "_id"> {
+  return {
+    ownerStore,
+    ownerId,
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    addedAt: new Date().toISOString(),
+    data: file,
+  };
+}
@@ -0,0 +1,101 @@
+// Change history (audit trail)
+// Every create, update and delete of an emission factor or reporting activity
+// is recorded in the audit_log store together with the full record before and
+// after the change. The entries are written in the same transaction as the
+// change itself, so the log can't miss a change or record one that failed.
+
+import type { RecordId } from "./ids";
+
+export type AuditAction = "create" | "update" | "delete" | "restore";
+
+export type AuditedStore = "reporting_activities" | "emission_factors";
+
+export const AUDITED_STORES: AuditedStore[] = [
+  "reporting_activities",
+  "emission_factors",
+];
+
+export interface AuditEntry<T = Record<string, unknown>> {
+  _id?: RecordId;
+  timestamp: string;
+  actor: string;
+  action: AuditAction;
+  storeName: AuditedStore;
+  recordId: RecordId;
+  before: T | null;
+  after: T | null;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const ACTOR_STORAGE_KEY = "carbon-hub-audit-actor";
+const DEFAULT_ACTOR = "Anonymous";
+
+export function isAuditedStore(storeName: string): storeName is AuditedStore {
+  return (AUDITED_STORES as string[]).includes(storeName);
+}
+
+// The app has no user accounts, so the person making changes is identified by
+// a name they enter themselves. It is kept per browser.
+export function getAuditActor(): string {
+  if (typeof window === "undefined") return DEFAULT_ACTOR;
+  return localStorage.getItem(ACTOR_STORAGE_KEY) || DEFAULT_ACTOR;
+}
+
+export function setAuditActor(name: string): void {
+  const trimmed = name.trim();
+  if (trimmed) {
+    localStorage.setItem(ACTOR_STORAGE_KEY, trimmed);
+  } else {
+    localStorage.removeItem(ACTOR_STORAGE_KEY);
+  }
+}
+
+// List the fields that differ between two versions of a record. Nested values
+// (such as emissionFactorData) are compared as a whole.
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChange[] {
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  fields.delete("_id");
+
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    const oldValue = before?.[field];
+    const newValue = after?.[field];
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  });
+  return changes;
+}
+
+// Human-readable label for an activity or emission factor
+export function describeRecord(
+  storeName: AuditedStore,
+  record: Record<string, unknown> | null,
+  recordId: RecordId
+): string {
+  const label =
+    storeName === "reporting_activities"
+      ? record?.activityName
+      : record?.description;
+  return typeof label === "string" && label ? label : `#${recordId}`;
+}
+
+// Human-readable label for the record an entry refers to
+export function describeAuditRecord(entry: AuditEntry): string {
+  return describeRecord(
+    entry.storeName,
+    entry.after || entry.before,
+    entry.recordId
+  );
+}
@@ -0,0 +1,145 @@
+// Backup and restore of the full dataset
+// Backups are JSON files wrapping the exported data in a versioned envelope so
+// that restores can check where a file came from and whether it is intact.
+
+import indexedDBService from "./indexedDB";
+import type {
+  BackupData,
+  ImportMode,
+  ImportSummary,
+  IndexedDBService,
+} from "./indexedDB";
+import { LATEST_SCHEMA_VERSION } from "./migrations";
+import packageJson from "../../package.json";
+
+export const BACKUP_FORMAT = "carbon-hub-backup";
+export const BACKUP_FORMAT_VERSION = 1;
+const APP_VERSION = packageJson.version;
+
+export interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  schemaVersion: number;
+  createdAt: string;
+  // SHA-256 of the serialized `data` object, hex encoded
+  checksum: string;
+  data: BackupData;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+async function computeChecksum(data: BackupData): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(data));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Back up the active workspace, or the workspace of the given service
+export async function createBackup(
+  service: IndexedDBService = indexedDBService
+): Promise<BackupEnvelope> {
+  return wrapBackup(await service.exportData());
+}
+
+// The envelope for exported data, dated when the data was read
+export async function wrapBackup(
+  data: BackupData,
+  createdAt: string = new Date().toISOString()
+): Promise<BackupEnvelope> {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: APP_VERSION,
+    schemaVersion: LATEST_SCHEMA_VERSION,
+    createdAt,
+    checksum: await computeChecksum(data),
+    data,
+  };
+}
+
+// Parse and verify a backup file. Throws a BackupError describing the first
+// problem found so the UI can show it to the user.
+export async function parseBackup(text: string): Promise<BackupEnvelope> {
+  let parsed: Partial<BackupEnvelope>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError("The file is not valid JSON.");
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError("The file is not a Carbon Hub backup.");
+  }
+  if (
+    typeof parsed.formatVersion !== "number" ||
+    parsed.formatVersion > BACKUP_FORMAT_VERSION
+  ) {
+    throw new BackupError(
+      `Backup format version ${parsed.formatVersion} is not supported by this version of Carbon Hub.`
+    );
+  }
+  if (
+    typeof parsed.schemaVersion !== "number" ||
+    parsed.schemaVersion > LATEST_SCHEMA_VERSION
+  ) {
+    throw new BackupError(
+      `The backup was made with a newer database schema (version ${parsed.schemaVersion}). Please update Carbon Hub before restoring it.`
+    );
+  }
+
+  const data = parsed.data;
+  if (
+    !data ||
+    !Array.isArray(data.reporting_activities) ||
+    !Array.isArray(data.emission_factors) ||
+    !Array.isArray(data.ghg_reporting_standards)
+  ) {
+    throw new BackupError("The backup is missing one or more data sections.");
+  }
+  if (data.attachments !== undefined && !Array.isArray(data.attachments)) {
+    throw new BackupError("The backup's attachments section is malformed.");
+  }
+  if (
+    data.emission_factor_fields !== undefined &&
+    !Array.isArray(data.emission_factor_fields)
+  ) {
+    throw new BackupError("The backup's custom fields section is malformed.");
+  }
+
+  if (parsed.checksum !== (await computeChecksum(data))) {
+    throw new BackupError(
+      "The backup checksum does not match its contents. The file may be corrupted or was edited by hand."
+    );
+  }
+
+  return parsed as BackupEnvelope;
+}
+
+export async function restoreBackup(
+  backup: BackupEnvelope,
+  mode: ImportMode
+): Promise<ImportSummary> {
+  return indexedDBService.importData(backup.data, { mode });
+}
+
+export function downloadBackup(backup: BackupEnvelope): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `carbon-hub-backup-${backup.createdAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,89 @@
+// Data change notifications
+// IndexedDBService announces every write here once its transaction has
+// committed. Listeners in the same tab are called directly, and the change is
+// forwarded over a BroadcastChannel to other tabs showing the same workspace,
+// so every open view can refresh without a reload.
+
+import type { RecordId } from "./ids";
+
+export type DataChangeType = "add" | "update" | "delete" | "reset";
+
+export interface DataChange {
+  storeName: string;
+  type: DataChangeType;
+  // Keys of the changed records. Empty for "reset", which means the whole
+  // store may have changed and should be read again.
+  ids: RecordId[];
+  // True when the change was made in another tab
+  remote: boolean;
+}
+
+export type DataChangeListener = (change: DataChange) => void;
+
+interface Subscription {
+  // null listens to every store
+  storeNames: string[] | null;
+  listener: DataChangeListener;
+}
+
+export class DataEventBus {
+  private subscriptions = new Set<Subscription>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(channelName: string) {
+    if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") {
+      return;
+    }
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.onmessage = (event: MessageEvent<Omit<DataChange, "remote">>) => {
+      console.log("DataEvents: Change from another tab:", event.data);
+      this.dispatch({ ...event.data, remote: true });
+    };
+  }
+
+  emit(change: Omit<DataChange, "remote">): void {
+    if (change.type !== "reset" && change.ids.length === 0) return;
+
+    this.dispatch({ ...change, remote: false });
+    try {
+      this.channel?.postMessage(change);
+    } catch (error) {
+      console.error("DataEvents: Could not notify other tabs:", error);
+    }
+  }
+
+  subscribe(
+    storeNames: string[] | null,
+    listener: DataChangeListener
+  ): () => void {
+    const subscription = { storeNames, listener };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  private dispatch(change: DataChange): void {
+    this.subscriptions.forEach(({ storeNames, listener }) => {
+      if (storeNames && !storeNames.includes(change.storeName)) return;
+      try {
+        listener(change);
+      } catch (error) {
+        // One failing view must not stop the others from refreshing
+        console.error("DataEvents: Listener failed:", error);
+      }
+    });
+  }
+}
+
+// Apply a change to a list of records already in memory. `changed` holds the
+// current versions of the added or updated records.
+export function mergeChangedRecords<T extends { _id?: RecordId }>(
+  records: T[],
+  change: DataChange,
+  changed: T[]
+): T[] {
+  const ids = new Set(change.ids);
+  const kept = records.filter((record) => !ids.has(record._id!));
+  return change.type === "delete" ? kept : [...kept, ...changed];
+}
@@ -0,0 +1,158 @@
+// Bundled emission factor packs
+// Curated factor sets from published sources ship as static JSON under
+// public/factor-packs/, so they are part of the export build and load without
+// a server. index.json lists the packs; each pack file holds its factors.
+// Importing copies the chosen factors into emission_factors, with the pack's
+// citation in sourceOrDisclosureRequirement so reports can name the source.
+// Pack factors are ordinary records once imported: editing them changes only
+// the copy, and a newer pack version is imported alongside the old one.
+
+import indexedDBService, { isSameEmissionFactor } from "./indexedDB";
+import undoManager from "./undoManager";
+import type { EmissionFactor } from "../domain";
+
+export interface FactorPackSummary {
+  id: string;
+  file: string;
+  name: string;
+  publisher: string;
+  // Edition of the source publication, usually its year
+  version: string;
+  location: string;
+}
+
+export interface FactorPackFactor
+  extends Omit<EmissionFactor, "_id" | "sourceOrDisclosureRequirement"> {
+  // Where in the publication the value comes from
+  citation?: string;
+}
+
+export interface FactorPack extends Omit<FactorPackSummary, "file"> {
+  citation: string;
+  url?: string;
+  factors: FactorPackFactor[];
+}
+
+export interface FactorPackImportSummary {
+  added: number;
+  // Factors identical to one already saved
+  skipped: number;
+}
+
+const PACK_DIRECTORY = "factor-packs";
+const basePath = process.env.NODE_ENV === "production" ? "/carbon_hub" : "";
+
+let indexLoad: Promise<FactorPackSummary[]> | null = null;
+const packLoads = new Map<string, Promise<FactorPack>>();
+
+async function fetchJson<T>(file: string): Promise<T> {
+  const response = await fetch(`${basePath}/${PACK_DIRECTORY}/${file}`);
+  if (!response.ok) {
+    throw new Error(`Could not load ${file} (HTTP ${response.status}).`);
+  }
+  return (await response.json()) as T;
+}
+
+// The bundled packs. Failed loads are retried on the next call.
+export function loadFactorPackIndex(): Promise<FactorPackSummary[]> {
+  if (!indexLoad) {
+    indexLoad = fetchJson<{ packs: FactorPackSummary[] }>("index.json")
+      .then((index) => index.packs)
+      .catch((error) => {
+        indexLoad = null;
+        throw error;
+      });
+  }
+  return indexLoad;
+}
+
+export function loadFactorPack(summary: FactorPackSummary): Promise<FactorPack> {
+  let load = packLoads.get(summary.id);
+  if (!load) {
+    load = fetchJson<FactorPack>(summary.file).catch((error) => {
+      packLoads.delete(summary.id);
+      throw error;
+    });
+    packLoads.set(summary.id, load);
+  }
+  return load;
+}
+
+// Factors whose text fields contain every word of the query
+export function searchFactorPack(
+  pack: FactorPack,
+  query: string
+): FactorPackFactor[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return pack.factors;
+  return pack.factors.filter((factor) => {
+    const text = [
+      factor.description,
+      factor.scope,
+      factor.category,
+      factor.location,
+      factor.unit,
+      factor.emissionFactorUnit,
+      factor.citation ?? "",
+    ]
+      .join(" ")
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+// The source line stored with an imported factor
+export function formatCitation(
+  pack: FactorPack,
+  factor: FactorPackFactor
+): string {
+  return [
+    factor.citation ? `${pack.citation}. ${factor.citation}` : pack.citation,
+    pack.url,
+    `Factor pack: ${pack.id} v${pack.version}`,
+  ]
+    .filter(Boolean)
+    .join(". ");
+}
+
+export function toEmissionFactor(
+  pack: FactorPack,
+  factor: FactorPackFactor
+): Omit<EmissionFactor, "_id"> {
+  const record: FactorPackFactor & Omit<EmissionFactor, "_id"> = {
+    ...factor,
+    sourceOrDisclosureRequirement: formatCitation(pack, factor),
+  };
+  delete record.citation;
+  return record;
+}
+
+// Whether an identical factor is already saved
+export function isFactorImported(
+  pack: FactorPack,
+  factor: FactorPackFactor,
+  existing: EmissionFactor[]
+): boolean {
+  const record = toEmissionFactor(pack, factor);
+  return existing.some((saved) => isSameEmissionFactor(saved, record));
+}
+
+// Add the chosen factors in one transaction, leaving out any already saved.
+// The import is undone as one step.
+export async function importFactorPackFactors(
+  pack: FactorPack,
+  factors: FactorPackFactor[]
+): Promise<FactorPackImportSummary> {
+  const existing = await indexedDBService.getAllEmissionFactors();
+  const records = factors
+    .filter((factor) => !isFactorImported(pack, factor, existing))
+    .map((factor) => toEmissionFactor(pack, factor));
+
+  await undoManager.runBatch("import.factorPack", () =>
+    indexedDBService.bulkAdd("emission_factors", records)
+  );
+  console.log(
+    `FactorPacks: Imported ${records.length} factors from ${pack.id} v${pack.version}`
+  );
+  return { added: records.length, skipped: factors.length - records.length };
+}
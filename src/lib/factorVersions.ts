@@ -0,0 +1,97 @@
+// Time-versioned emission factor values
+// Values such as a power company's grid factor change every year. A factor
+// can carry a series of values, each valid from one date to another, and an
+// activity is calculated with the values in force during its reporting
+// period. A period spanning several versions gets a weighted average by days.
+// Days no version covers use the factor's own co2ePerUnit.
+
+export interface FactorVersion {
+  // Inclusive ISO dates (YYYY-MM-DD). A version without validTo has no end.
+  validFrom: string;
+  validTo?: string | null;
+  co2ePerUnit: number;
+}
+
+export interface VersionedFactor {
+  co2ePerUnit: number;
+  versions?: FactorVersion[];
+}
+
+export type VersionProblem = "missingStart" | "endBeforeStart" | "overlap";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days since the epoch, or null for an invalid date
+function toDay(date: string | null | undefined): number | null {
+  if (!date) return null;
+  const time = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  return Number.isNaN(time) ? null : Math.round(time / DAY_MS);
+}
+
+export function sortVersions(versions: FactorVersion[]): FactorVersion[] {
+  return [...versions].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+}
+
+// The first problem found in a version history, or null if it is valid
+export function validateVersions(
+  versions: FactorVersion[]
+): { index: number; problem: VersionProblem } | null {
+  const sorted = sortVersions(versions);
+  for (let i = 0; i < sorted.length; i++) {
+    const index = versions.indexOf(sorted[i]);
+    const start = toDay(sorted[i].validFrom);
+    const end = toDay(sorted[i].validTo);
+    if (start === null) return { index, problem: "missingStart" };
+    if (end !== null && end < start) return { index, problem: "endBeforeStart" };
+
+    const next = sorted[i + 1];
+    const nextStart = next ? toDay(next.validFrom) : null;
+    if (nextStart !== null && (end === null || end >= nextStart)) {
+      return { index: versions.indexOf(next), problem: "overlap" };
+    }
+  }
+  return null;
+}
+
+// The version in force on a date, if any
+export function versionOn(
+  factor: VersionedFactor,
+  date: string
+): FactorVersion | null {
+  const day = toDay(date);
+  if (day === null) return null;
+  return (
+    factor.versions?.find((version) => {
+      const start = toDay(version.validFrom);
+      const end = toDay(version.validTo);
+      return start !== null && start <= day && (end === null || day <= end);
+    }) ?? null
+  );
+}
+
+// CO2e per unit for an activity reported over [periodStart, periodEnd]
+export function effectiveCo2ePerUnit(
+  factor: VersionedFactor,
+  periodStart: string,
+  periodEnd: string
+): number {
+  const start = toDay(periodStart);
+  const end = toDay(periodEnd) ?? start;
+  if (!factor.versions?.length || start === null || end === null || end < start) {
+    return factor.co2ePerUnit;
+  }
+
+  const totalDays = end - start + 1;
+  let coveredDays = 0;
+  let weighted = 0;
+  for (const version of factor.versions) {
+    const from = Math.max(start, toDay(version.validFrom) ?? Infinity);
+    const to = Math.min(end, toDay(version.validTo) ?? Infinity);
+    if (to < from) continue;
+    const days = to - from + 1;
+    coveredDays += days;
+    weighted += days * version.co2ePerUnit;
+  }
+  weighted += (totalDays - coveredDays) * factor.co2ePerUnit;
+  return weighted / totalDays;
+}
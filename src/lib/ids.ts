@@ -0,0 +1,42 @@
+// Record identifiers
+// Every record is keyed by a UUID generated in the browser, so records created
+// in different browsers or workspaces never collide when their data is merged.
+//
+// The UUIDs are version 7: they start with a millisecond timestamp, so sorting
+// records by key keeps them in the order they were created. The 12 bits after
+// the version hold a counter that keeps keys created within the same
+// millisecond in order too.
+
+export type RecordId = string;
+
+let lastTime = 0;
+let sequence = 0;
+
+export function createId(): RecordId {
+  const now = Date.now();
+  if (now > lastTime) {
+    lastTime = now;
+    sequence = 0;
+  } else if (++sequence > 0xfff) {
+    // Counter exhausted: borrow the next millisecond
+    lastTime++;
+    sequence = 0;
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Math.floor(lastTime / 2 ** (8 * (5 - i))) & 0xff;
+  }
+  bytes[6] = 0x70 | (sequence >> 8);
+  bytes[7] = sequence & 0xff;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
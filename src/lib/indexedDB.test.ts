@@ -0,0 +1,209 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import { IndexedDBService, type BackupData } from "./indexedDB";
+import { MemoryAdapter } from "./memoryAdapter";
+import undoManager from "./undoManager";
+import {
+  CustomFieldError,
+  ValidationError,
+  type EmissionFactor,
+  type ReportingActivity,
+} from "../domain";
+
+// While `failing` is set, refuses to commit once an activity linked to a
+// factor is written, like running out of space partway through an import
+class FailingAdapter extends MemoryAdapter {
+  failing = false;
+
+  protected async persist(): Promise<void> {
+    const activities = this.stores.get("reporting_activities")!.entries;
+    const isLinked = [...activities.values()].some(
+      ({ value }) => (value as ReportingActivity).emissionFactorId
+    );
+    if (this.failing && isLinked) throw new Error("QuotaExceededError");
+  }
+}
+
+const factor: Omit<EmissionFactor, "_id"> = {
+  description: "Grid electricity",
+  scope: "Scope 2",
+  category: "Purchased electricity",
+  location: "Hong Kong",
+  unit: "kWh",
+  dataSource: "Utility bill",
+  methodType: "Volume Based",
+  co2ePerUnit: 0.39,
+  emissionFactorUnit: "kg CO2e/kWh",
+  ghgReportingStandard: "GHG Protocol",
+  sourceOrDisclosureRequirement: "",
+};
+
+const backup: BackupData = {
+  reporting_activities: [
+    {
+      _id: "old-activity",
+      reportingPeriodStart: "2025-01-01",
+      reportingPeriodEnd: "2025-12-31",
+      scope: "Scope 2",
+      category: "Purchased electricity",
+      activityName: "Office",
+      location: "Hong Kong",
+      quantity: 1200,
+      emissionFactorId: "old-factor",
+    },
+  ],
+  emission_factors: [
+    { ...factor, _id: "old-factor", description: "Backed up electricity" },
+  ],
+  ghg_reporting_standards: [{ _id: "old-standard", name: "GHG Protocol" }],
+};
+
+describe("IndexedDBService.importData in replace mode", () => {
+  let storage: FailingAdapter;
+  let service: IndexedDBService;
+
+  beforeEach(async () => {
+    storage = new FailingAdapter();
+    service = new IndexedDBService(storage);
+    undoManager.clear();
+    await service.bulkAdd("emission_factors", [factor]);
+  });
+
+  it("replaces the data and logs the wipe once it has committed", async () => {
+    const summary = await service.importData(backup, { mode: "replace" });
+    expect(summary.factorsAdded).toBe(1);
+    expect(summary.unresolvedReferences).toBe(0);
+
+    const [imported] = await service.getAllEmissionFactors();
+    expect(imported.description).toBe("Backed up electricity");
+    const [activity] = await service.getAllReportingActivities();
+    expect(activity.emissionFactorId).toBe(imported._id);
+
+    const log = await service.getRetentionLog();
+    expect(log).toHaveLength(1);
+    expect(log[0].trigger).toBe("backup-replace");
+    expect(log[0].removed.emission_factors).toBe(1);
+  });
+
+  it("leaves the existing data, log and undo history alone when the write fails", async () => {
+    const activity = { ...backup.reporting_activities[0] };
+    delete activity._id;
+    delete activity.emissionFactorId;
+    await service.bulkAdd("reporting_activities", [activity]);
+    expect(undoManager.getState().canUndo).toBe(true);
+
+    storage.failing = true;
+    await expect(
+      service.importData(backup, { mode: "replace" })
+    ).rejects.toThrow("QuotaExceededError");
+    storage.failing = false;
+
+    const factors = await service.getAllEmissionFactors();
+    expect(factors.map((f) => f.description)).toEqual(["Grid electricity"]);
+    expect(await service.getAllReportingActivities()).toHaveLength(1);
+    expect(await service.getRetentionLog()).toEqual([]);
+    expect(undoManager.getState().canUndo).toBe(true);
+  });
+
+  it("restores records saved before validation was added", async () => {
+    const legacy: BackupData = {
+      ...backup,
+      reporting_activities: [
+        { ...backup.reporting_activities[0], scope: "Scope 4", quantity: 0 },
+      ],
+    };
+    const summary = await service.importData(legacy, { mode: "replace" });
+    expect(summary.activitiesAdded).toBe(1);
+
+    const [activity] = await service.getAllReportingActivities();
+    expect(activity.scope).toBe("Scope 4");
+    expect(activity.quantity).toBe(0);
+  });
+});
+
+describe("IndexedDBService.updateReportingActivity", () => {
+  it("only rejects errors the edit introduces", async () => {
+    const storage = new MemoryAdapter();
+    const service = new IndexedDBService(storage);
+    // Written around the validation, as older versions of the app did
+    await storage.transaction(["reporting_activities"], "readwrite", (transaction) =>
+      transaction.put("reporting_activities", {
+        ...backup.reporting_activities[0],
+        _id: "legacy-activity",
+        quantity: 0,
+      })
+    );
+    const [activity] = await service.getAllReportingActivities();
+
+    await service.updateReportingActivity({ ...activity, activityName: "HQ" });
+    const [updated] = await service.getAllReportingActivities();
+    expect(updated.activityName).toBe("HQ");
+
+    await expect(
+      service.updateReportingActivity({ ...updated, scope: "Scope 4" })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("IndexedDBService.updateEmissionFactor", () => {
+  it("recalculates activities stored before validation was added", async () => {
+    const storage = new MemoryAdapter();
+    const service = new IndexedDBService(storage);
+    const [factorId] = await service.bulkAdd("emission_factors", [factor]);
+    // Written around the validation, as older versions of the app did
+    await storage.transaction(["reporting_activities"], "readwrite", (transaction) =>
+      transaction.put("reporting_activities", {
+        ...backup.reporting_activities[0],
+        _id: "legacy-activity",
+        scope: "Scope 4",
+        quantity: 0,
+        emissionFactorId: factorId,
+      })
+    );
+
+    const summary = await service.updateEmissionFactor({
+      ...factor,
+      _id: factorId,
+      co2ePerUnit: 0.5,
+    });
+    expect(summary.recalculatedActivities).toBe(1);
+    const [activity] = await service.getAllReportingActivities();
+    expect(activity.emissionFactorData?.co2ePerUnit).toBe(0.5);
+    expect(activity.scope).toBe("Scope 4");
+  });
+});
+
+describe("IndexedDBService.saveEmissionFactorField", () => {
+  it("refuses a type change the stored values don't fit", async () => {
+    const service = new IndexedDBService(new MemoryAdapter());
+    const supplier = {
+      key: "supplier",
+      label: "Supplier",
+      type: "string" as const,
+      required: false,
+      example: "",
+    };
+    const fieldId = await service.saveEmissionFactorField(supplier);
+    await service.bulkAdd("emission_factors", [
+      { ...factor, custom: { supplier: "CLP Power" } },
+    ]);
+
+    const change = service.saveEmissionFactorField({
+      ...supplier,
+      _id: fieldId,
+      type: "number",
+    });
+    await expect(change).rejects.toBeInstanceOf(CustomFieldError);
+    await expect(change).rejects.toMatchObject({
+      problem: "storedValues",
+      factors: ["Grid electricity"],
+    });
+
+    // Rules the values still satisfy are fine
+    await service.saveEmissionFactorField({
+      ...supplier,
+      _id: fieldId,
+      validation: { regex: "^[A-Z]" },
+    });
+  });
+});
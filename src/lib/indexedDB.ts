@@ -1,258 +1,1338 @@
 // IndexedDB service layer for client-side data storage
+// Records are kept in a StorageAdapter: IndexedDB normally, or memory (backed
+// by a JSON file if the user picks one) when IndexedDB is unavailable.
 
-interface ReportingActivity {
-  _id?: string;
-  reportingPeriodStart: string;
-  reportingPeriodEnd: string;
-  scope: string;
-  category: string;
-  activityName: string;
-  location: string;
-  quantity: number;
-  emissionFactorId?: string; // Keep for backward compatibility
-  emissionFactorData?: {
-    // New: Store emission factor data directly
-    description: string;
-    co2ePerUnit: number;
-    emissionFactorUnit: string;
-    unit: string;
-  };
-  remarks?: string;
-  calculatedEmissions?: number;
+import {
+  ID_REMAP_KEY,
+  MigrationError,
+  type IdRemap,
+  type MigrationProgress,
+} from "./migrations";
+import {
+  onlyKey,
+  type CursorPosition,
+  type KeyRange,
+  type OpenHandlers,
+  type StorageAdapter,
+  type StorageKind,
+  type StorageTransaction,
+} from "./storageAdapter";
+import { deleteDatabase, IndexedDBAdapter } from "./indexedDBAdapter";
+import { MemoryAdapter } from "./memoryAdapter";
+import vault, {
+  isSealedRecord,
+  Vault,
+  VaultLockedError,
+  type SealedRecord,
+  type VaultMeta,
+  type VaultStatus,
+} from "./vault";
+import workspaceManager, { type Workspace } from "./workspaces";
+import undoManager from "./undoManager";
+import { createId, type RecordId } from "./ids";
+import {
+  CustomFieldError,
+  factorsWithInvalidValues,
+  validateAttachment,
+  validateCustomField,
+  validateEmissionFactor,
+  validateReportingActivity,
+  ValidationError,
+  type Attachment,
+  type AttachmentOwnerStore,
+  type CustomFieldDefinition,
+  type EmissionFactor,
+  type FieldError,
+  type GhgReportingStandard,
+  type ReportingActivity,
+} from "../domain";
+import {
+  changesActivities,
+  detachFromFactor,
+  linkToFactor,
+  ReferentialIntegrityError,
+  type DependentPolicy,
+  type FactorDeleteSummary,
+  type FactorUpdateSummary,
+} from "./integrity";
+import {
+  decodeAttachment,
+  encodeAttachment,
+  type EncodedAttachment,
+} from "./attachments";
+import {
+  DataEventBus,
+  type DataChange,
+  type DataChangeListener,
+  type DataChangeType,
+} from "./dataEvents";
+import {
+  getAuditActor,
+  isAuditedStore,
+  type AuditAction,
+  type AuditEntry,
+  type AuditedStore,
+} from "./audit";
+import type {
+  RetentionSnapshot,
+  RetentionSnapshotKey,
+} from "./retentionSnapshot";
+import {
+  MAX_RETENTION_LOG_ENTRIES,
+  type RetentionLogEntry,
+  type RetentionTrigger,
+} from "./retentionLog";
+
+interface BackupData {
+  reporting_activities: ReportingActivity[];
+  emission_factors: EmissionFactor[];
+  ghg_reporting_standards: GhgReportingStandard[];
+  // Missing from backups made before attachments existed
+  attachments?: EncodedAttachment[];
+  // Missing from backups made before custom fields existed
+  emission_factor_fields?: CustomFieldDefinition[];
+}
+
+// Backup data read while the vault is locked. Activities, factors and
+// attachments are kept as stored, encrypted with the vault key.
+interface SealedBackupData
+  extends Omit<
+    BackupData,
+    "reporting_activities" | "emission_factors" | "attachments"
+  > {
+  reporting_activities: SealedRecord[];
+  emission_factors: SealedRecord[];
+  attachments: SealedRecord[];
+}
+
+type ImportMode = "replace" | "merge";
+
+interface ImportSummary {
+  standardsAdded: number;
+  factorsAdded: number;
+  // Factors in the backup that matched one already in the database (merge mode)
+  factorsReused: number;
+  activitiesAdded: number;
+  attachmentsAdded: number;
+  // Custom field definitions whose key wasn't defined yet
+  customFieldsAdded: number;
+  // Activities whose emissionFactorId pointed at a factor missing from the backup
+  unresolvedReferences: number;
+}
+
+interface RecycleBinEntry<T = Record<string, unknown>> {
+  _id?: RecordId;
+  storeName: AuditedStore;
+  recordId: RecordId;
+  record: T;
+  deletedAt: string;
+  deletedBy: string;
+  // Activities that referenced a deleted emission factor, re-linked on restore
+  dependentActivityIds?: RecordId[];
+}
+
+type BinDetails = Pick<RecycleBinEntry, "dependentActivityIds">;
+
+interface RestoreSummary {
+  relinkedActivities: number;
+}
+
+interface StoreRecords {
+  reporting_activities: ReportingActivity;
+  emission_factors: EmissionFactor;
+  ghg_reporting_standards: GhgReportingStandard;
+  attachments: Attachment;
+  emission_factor_fields: CustomFieldDefinition;
+}
+
+type StoreName = keyof StoreRecords;
+
+interface BulkOptions {
+  onProgress?: (completed: number, total: number) => void;
+}
+
+interface WriteOptions extends BulkOptions {
+  // The records as they were before this write, in the same order. Errors
+  // they already had don't reject the write.
+  previous?: unknown[];
+}
+
+type QueryStore = "reporting_activities" | "emission_factors";
+
+type QueryField = "scope" | "category" | "location";
+
+// Exact-match filters. Empty values match everything.
+type QueryFilter = Partial<Record<QueryField, string>>;
+
+// Fields each store has a sort index for
+interface SortFields {
+  reporting_activities: "activityName" | "reportingPeriodStart";
+  emission_factors: "description" | "co2ePerUnit";
 }
 
-interface EmissionFactor {
-  _id?: string;
-  description: string;
-  scope: string;
-  category: string;
-  location: string;
-  unit: string;
-  dataSource: string;
-  methodType: "Volume Based" | "Spend Based" | "Distance Based" | "Mass Based";
-  co2ePerUnit: number;
-  emissionFactorUnit: string;
-  ghgReportingStandard: string;
-  sourceOrDisclosureRequirement: string;
+interface QueryOptions<S extends QueryStore> {
+  where?: QueryFilter;
+  // Defaults to key order, which is the order records were added in. Ignored
+  // in vault mode, where only key order is available.
+  orderBy?: SortFields[S];
+  direction?: "asc" | "desc";
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string | null;
 }
 
-interface GhgReportingStandard {
-  _id?: string;
-  name: string;
+interface QueryPage<T> {
+  items: T[];
+  // Pass as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// How a query walks a store
+interface QueryPlan {
+  // Undefined walks the object store itself
+  indexName?: string;
+  range?: KeyRange;
+  // Filter fields the index range does not cover, checked on each record
+  residual: QueryField[];
+}
+
+interface StoreUsage {
+  storeName: string;
+  records: number;
+  // Approximate size of the records as stored
+  bytes: number;
+}
+
+// A write that committed, kept so it can be undone
+interface StoredChange {
+  id: RecordId;
+  before: unknown;
+  after: unknown;
+  binEntryId?: RecordId;
+}
+
+// Stores encrypted in vault mode, with the indexed fields that are kept as
+// blind-index tokens so index lookups still work
+const ENCRYPTED_STORE_INDEXES: Record<string, string[]> = {
+  reporting_activities: ["scope", "category", "location"],
+  emission_factors: ["scope", "category", "location"],
+  attachments: ["ownerStore", "ownerId"],
+};
+
+// Stores that keep copies of activities and factors, with the fields holding
+// them. The copies are encrypted the same way as the records themselves.
+const SNAPSHOT_FIELDS: Record<string, string[]> = {
+  audit_log: ["before", "after"],
+  recycle_bin: ["record"],
+};
+
+// Validators for the stores whose records have a field schema. Every write
+// to these stores is checked before anything is saved. Emission factors are
+// also checked against the custom fields.
+const RECORD_VALIDATORS: Record<
+  string,
+  {
+    recordType: string;
+    validate: (
+      record: never,
+      customFields: CustomFieldDefinition[]
+    ) => FieldError[];
+  }
+> = {
+  reporting_activities: {
+    recordType: "reporting activity",
+    validate: validateReportingActivity,
+  },
+  emission_factors: {
+    recordType: "emission factor",
+    validate: validateEmissionFactor,
+  },
+  attachments: {
+    recordType: "attachment",
+    validate: validateAttachment,
+  },
+};
+
+const QUERY_FIELDS: QueryField[] = ["scope", "category", "location"];
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// app_meta entry holding the key retention snapshots are encrypted for
+const RETENTION_SNAPSHOT_KEY: RetentionSnapshotKey["key"] =
+  "retention_snapshot_key";
+
+// Stores emptied by clearAllData. The change history and recycle bin hold
+// copies of the records, so they go too.
+const CLEARED_STORES = [
+  "reporting_activities",
+  "emission_factors",
+  "ghg_reporting_standards",
+  "attachments",
+  "audit_log",
+  "recycle_bin",
+];
+
+// Stores whose contents change when the vault is turned on or off
+const VAULT_STORES = [
+  ...Object.keys(ENCRYPTED_STORE_INDEXES),
+  ...Object.keys(SNAPSHOT_FIELDS),
+];
+
+interface ServiceOptions {
+  // Only the service for the active workspace announces its changes
+  events?: DataEventBus | null;
+  // Storage to use instead when the primary one can't be opened
+  fallback?: () => StorageAdapter;
+  // Workspace whose database the storage holds
+  workspaceId?: string;
+  // Holds the vault settings and keys. Only the active workspace's service
+  // shares the app-wide vault; other services get one of their own.
+  vault?: Vault;
 }
 
 class IndexedDBService {
-  private dbName = "CarbonHubDB";
-  private version = 1;
-  private db: IDBDatabase | null = null;
+  private storage: StorageAdapter;
+  private fallback: (() => StorageAdapter) | null;
+  private storageListeners = new Set<(kind: StorageKind) => void>();
+  private initPromise: Promise<void> | null = null;
+  private migrationProgress: MigrationProgress | null = null;
+  private migrationListeners = new Set<
+    (progress: MigrationProgress) => void
+  >();
+
+  private events: DataEventBus | null;
+  private workspaceId: string | null;
+  private vault: Vault;
+
+  constructor(storage: StorageAdapter, options: ServiceOptions = {}) {
+    this.storage = storage;
+    this.events = options.events ?? null;
+    this.fallback = options.fallback ?? null;
+    this.workspaceId = options.workspaceId ?? null;
+    this.vault = options.vault ?? new Vault();
+    // Another tab turned the vault on or off: pick up the new settings, which
+    // locks this tab until it is unlocked too
+    this.events?.subscribe(["app_meta"], (change) => {
+      if (!change.remote || !this.initPromise) return;
+      undoManager.clear();
+      this.loadVaultMeta().catch((error) => {
+        console.error("IndexedDB: Could not reload vault settings:", error);
+      });
+    });
+  }
 
   // Database initialization
+  // Concurrent callers share one initialization so nothing can read or write
+  // before the vault settings have been loaded.
   async init(): Promise<void> {
-    console.log("IndexedDB: Initializing database...");
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version);
-
-      request.onerror = () => {
-        console.error(
-          "IndexedDB: Database initialization error:",
-          request.error
-        );
-        reject(request.error);
-      };
+    if (!this.initPromise) {
+      this.initPromise = this.openStorage()
+        .then(() => this.loadVaultMeta())
+        .catch((error) => {
+          this.initPromise = null;
+          throw error;
+        });
+    }
+    return this.initPromise;
+  }
 
-      request.onsuccess = () => {
-        this.db = request.result;
-        console.log("IndexedDB: Database initialized successfully");
-        resolve();
-      };
+  // Close the storage. It is opened again on next use.
+  close(): void {
+    this.storage.close();
+    this.initPromise = null;
+  }
 
-      request.onupgradeneeded = (event) => {
-        console.log(
-          "IndexedDB: Database upgrade needed, creating object stores..."
-        );
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object stores
-        if (!db.objectStoreNames.contains("reporting_activities")) {
-          console.log("IndexedDB: Creating reporting_activities store");
-          const activityStore = db.createObjectStore("reporting_activities", {
-            keyPath: "_id",
-            autoIncrement: true,
-          });
-          activityStore.createIndex("scope", "scope", { unique: false });
-          activityStore.createIndex("category", "category", { unique: false });
-          activityStore.createIndex("location", "location", { unique: false });
-        }
+  // Open the storage, switching to the fallback if the browser won't let us
+  // use it at all
+  private async openStorage(): Promise<void> {
+    try {
+      await this.storage.open(this.openHandlers());
+    } catch (error) {
+      if (!this.fallback || !canFallBack(error)) throw error;
+      console.warn(
+        "IndexedDB: Storage unavailable, keeping data in memory instead:",
+        error
+      );
+      this.storage = this.fallback();
+      this.fallback = null;
+      await this.storage.open(this.openHandlers());
+      this.reportStorageChange();
+    }
+  }
 
-        if (!db.objectStoreNames.contains("emission_factors")) {
-          console.log("IndexedDB: Creating emission_factors store");
-          const factorStore = db.createObjectStore("emission_factors", {
-            keyPath: "_id",
-            autoIncrement: true,
-          });
-          factorStore.createIndex("scope", "scope", { unique: false });
-          factorStore.createIndex("category", "category", { unique: false });
-          factorStore.createIndex("location", "location", { unique: false });
-        }
+  private openHandlers(): OpenHandlers {
+    return {
+      onMigrationProgress: (progress) => this.reportMigrationProgress(progress),
+      // Open again on next use, after another tab's upgrade
+      onClose: () => {
+        this.initPromise = null;
+      },
+    };
+  }
 
-        if (!db.objectStoreNames.contains("ghg_reporting_standards")) {
-          console.log("IndexedDB: Creating ghg_reporting_standards store");
-          const standardStore = db.createObjectStore(
-            "ghg_reporting_standards",
-            { keyPath: "_id", autoIncrement: true }
-          );
-          standardStore.createIndex("name", "name", { unique: true });
-        }
+  // Migration progress reporting
+  onMigrationProgress(
+    listener: (progress: MigrationProgress) => void
+  ): () => void {
+    this.migrationListeners.add(listener);
+    // Replay the latest state so late subscribers still see a failed upgrade
+    if (this.migrationProgress) {
+      listener(this.migrationProgress);
+    }
+    return () => {
+      this.migrationListeners.delete(listener);
+    };
+  }
 
-        console.log("IndexedDB: Object stores created successfully");
-      };
-    });
+  private reportMigrationProgress(progress: MigrationProgress): void {
+    this.migrationProgress = progress;
+    this.migrationListeners.forEach((listener) => listener(progress));
   }
 
   // Ensure database is initialized
   private async ensureInit(): Promise<void> {
-    if (!this.db) {
+    if (!this.initPromise) {
       console.log("IndexedDB: Database not initialized, initializing now...");
-      await this.init();
     } else {
       console.log("IndexedDB: Database already initialized");
     }
+    await this.init();
   }
 
-  // Generic CRUD operations
-  private async add<T>(storeName: string, item: T): Promise<string> {
+  // Storage backend
+  getStorageKind(): StorageKind {
+    return this.storage.kind;
+  }
+
+  // Subscribe to storage backend changes. The listener is also called once
+  // with the backend in use as soon as the storage has been opened.
+  onStorageChange(listener: (kind: StorageKind) => void): () => void {
+    this.storageListeners.add(listener);
+    this.ensureInit()
+      .catch((error) => {
+        console.error("IndexedDB: Could not open storage:", error);
+      })
+      .finally(() => listener(this.storage.kind));
+    return () => {
+      this.storageListeners.delete(listener);
+    };
+  }
+
+  private reportStorageChange(): void {
+    this.storageListeners.forEach((listener) => listener(this.storage.kind));
+  }
+
+  // Move to another storage backend. With `keepData` the current records
+  // are copied over, replacing anything the target held; otherwise the
+  // target's own records are used from now on.
+  async switchStorage(
+    target: StorageAdapter,
+    options: { keepData?: boolean } = {}
+  ): Promise<void> {
     await this.ensureInit();
-    console.log(`IndexedDB: Adding item to ${storeName}:`, item);
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], "readwrite");
-      const store = transaction.objectStore(storeName);
-      const request = store.add(item);
-
-      request.onsuccess = () => {
-        console.log(
-          `IndexedDB: Item added to ${storeName} with ID:`,
-          request.result
-        );
-        resolve(request.result as string);
+    await target.open(this.openHandlers());
+    try {
+      if (options.keepData) {
+        await copyStores(this.storage, target);
+      }
+    } catch (error) {
+      target.close();
+      throw error;
+    }
+
+    this.storage.close();
+    this.storage = target;
+    this.fallback = null;
+    console.log(`IndexedDB: Switched to ${target.kind} storage`);
+    // Undo history refers to records in the previous storage
+    undoManager.clear();
+    if (!options.keepData) {
+      await this.loadVaultMeta();
+    }
+    target
+      .storeNames()
+      .forEach((storeName) => this.notifyChange(storeName, "reset"));
+    this.reportStorageChange();
+  }
+
+  // Approximate space each store takes. Records are measured as stored, so
+  // encrypted records count at their encrypted size.
+  async getStoreUsage(): Promise<StoreUsage[]> {
+    await this.ensureInit();
+    const storeNames = this.storage.storeNames();
+    return this.storage.transaction(
+      storeNames,
+      "readonly",
+      async (transaction) => {
+        const usage: StoreUsage[] = [];
+        for (const storeName of storeNames) {
+          const store: StoreUsage = { storeName, records: 0, bytes: 0 };
+          await transaction.iterate(storeName, {}, (record) => {
+            store.records++;
+            store.bytes += estimateRecordSize(record.value);
+            return true;
+          });
+          usage.push(store);
+        }
+        return usage;
+      }
+    );
+  }
+
+  // Change notifications
+  // Subscribe to committed writes to the given stores (every store when
+  // null), made in this tab or in another tab on the same workspace
+  onDataChange(
+    storeNames: string[] | null,
+    listener: DataChangeListener
+  ): () => void {
+    return this.events?.subscribe(storeNames, listener) ?? (() => {});
+  }
+
+  private notifyChange(
+    storeName: string,
+    type: DataChangeType,
+    ids: RecordId[] = []
+  ): void {
+    this.events?.emit({ storeName, type, ids });
+  }
+
+  // Vault (encryption at rest)
+  private async loadVaultMeta(): Promise<void> {
+    const meta = await this.storage.transaction(
+      ["app_meta"],
+      "readonly",
+      (transaction) => transaction.get("app_meta", "vault")
+    );
+    this.vault.configure((meta as VaultMeta | undefined) ?? null);
+  }
+
+  // Subscribe to vault status changes. The listener is also called once with
+  // the current status as soon as the vault settings have been loaded.
+  onVaultStatusChange(listener: (status: VaultStatus) => void): () => void {
+    const unsubscribe = this.vault.onStatusChange(listener);
+    this.ensureInit()
+      .catch((error) => {
+        console.error("IndexedDB: Could not load vault settings:", error);
+      })
+      .finally(() => listener(this.vault.getStatus()));
+    return unsubscribe;
+  }
+
+  async unlockVault(passphrase: string): Promise<void> {
+    await this.ensureInit();
+    await this.vault.unlock(passphrase);
+    await this.applyIdRemap();
+  }
+
+  lockVault(): void {
+    this.vault.lock();
+  }
+
+  getVaultStatus(): VaultStatus {
+    return this.vault.getStatus();
+  }
+
+  isVaultEnabled(): boolean {
+    return this.vault.isEnabled();
+  }
+
+  // Turn on vault mode and encrypt every existing activity and factor
+  async enableVault(passphrase: string): Promise<void> {
+    await this.ensureInit();
+    if (this.vault.isEnabled()) {
+      throw new Error("The data vault is already enabled.");
+    }
+
+    const plaintext = await this.readEncryptableStores();
+    const meta = await this.vault.create(passphrase);
+    try {
+      await this.writeEncryptableStores(
+        await this.sealStores(plaintext),
+        (transaction) => transaction.put("app_meta", meta)
+      );
+      console.log("IndexedDB: Vault enabled, all records encrypted");
+    } catch (error) {
+      this.vault.configure(null);
+      throw error;
+    }
+  }
+
+  // Turn off vault mode and write every record back in plaintext
+  async disableVault(): Promise<void> {
+    await this.ensureInit();
+    if (this.vault.getStatus() !== "unlocked") {
+      throw new VaultLockedError();
+    }
+
+    const plaintext = await this.readEncryptableStores();
+    await this.writeEncryptableStores(plaintext, (transaction) =>
+      transaction.delete("app_meta", "vault")
+    );
+    this.vault.configure(null);
+    console.log("IndexedDB: Vault disabled, all records decrypted");
+  }
+
+  // Forgotten passphrase: erase the encrypted data and remove the vault
+  async resetVault(): Promise<void> {
+    await this.ensureInit();
+    const removed = await this.countStores(VAULT_STORES);
+    const empty = Object.fromEntries(
+      VAULT_STORES.map((storeName) => [storeName, []])
+    );
+    await this.writeEncryptableStores(empty, async (transaction) => {
+      await transaction.delete("app_meta", "vault");
+      await transaction.delete("app_meta", ID_REMAP_KEY);
+    });
+    this.vault.configure(null);
+    await this.logRetentionEvent("vault-reset", removed);
+  }
+
+  // Migration 7 could not read the factor references inside encrypted
+  // activities, so it left the old-to-new key map behind. Rewrite the
+  // references with it now that the vault is unlocked.
+  private async applyIdRemap(): Promise<void> {
+    const remap = (await this.storage.transaction(
+      ["app_meta"],
+      "readonly",
+      (transaction) => transaction.get("app_meta", ID_REMAP_KEY)
+    )) as IdRemap | undefined;
+    if (!remap) return;
+
+    const factorIds = remap.emission_factors;
+    const relink = <T extends ReportingActivity | null>(activity: T): T =>
+      activity && {
+        ...activity,
+        emissionFactorId:
+          factorIds[String(activity.emissionFactorId)] ??
+          activity.emissionFactorId,
       };
-      request.onerror = () => {
-        console.error(
-          `IndexedDB: Error adding item to ${storeName}:`,
-          request.error
+    const isActivityCopy = (entry: { storeName: string }) =>
+      entry.storeName === "reporting_activities";
+
+    const plaintext = await this.readEncryptableStores();
+    plaintext.reporting_activities = (
+      plaintext.reporting_activities as ReportingActivity[]
+    ).map(relink);
+    plaintext.audit_log = (plaintext.audit_log as AuditEntry[]).map((entry) =>
+      isActivityCopy(entry)
+        ? {
+            ...entry,
+            before: relink(entry.before as ReportingActivity | null),
+            after: relink(entry.after as ReportingActivity | null),
+          }
+        : entry
+    );
+    plaintext.recycle_bin = (plaintext.recycle_bin as RecycleBinEntry<unknown>[]).map(
+      (entry) =>
+        isActivityCopy(entry)
+          ? { ...entry, record: relink(entry.record as ReportingActivity) }
+          : entry
+    );
+    await this.writeEncryptableStores(
+      await this.sealStores(plaintext),
+      (transaction) => transaction.delete("app_meta", ID_REMAP_KEY)
+    );
+    console.log("IndexedDB: Rewrote factor references in encrypted activities");
+  }
+
+  private async sealStores(
+    records: Record<string, unknown[]>
+  ): Promise<Record<string, unknown[]>> {
+    const sealed: Record<string, unknown[]> = {};
+    for (const [storeName, storeRecords] of Object.entries(records)) {
+      sealed[storeName] = await Promise.all(
+        storeRecords.map((record) => this.toStored(storeName, record))
+      );
+    }
+    return sealed;
+  }
+
+  private async readEncryptableStores(): Promise<Record<string, unknown[]>> {
+    const result: Record<string, unknown[]> = {};
+    for (const storeName of VAULT_STORES) {
+      result[storeName] = await this.getAll(storeName);
+    }
+    return result;
+  }
+
+  // Replace the contents of the encrypted stores and update the vault
+  // settings in a single transaction, so a failure leaves everything as it was
+  private async writeEncryptableStores(
+    records: Record<string, unknown[]>,
+    updateMeta: (transaction: StorageTransaction) => Promise<unknown>
+  ): Promise<void> {
+    const storeNames = Object.keys(records);
+    await this.storage.transaction(
+      [...storeNames, "app_meta"],
+      "readwrite",
+      async (transaction) => {
+        for (const storeName of storeNames) {
+          await transaction.clear(storeName);
+          await Promise.all(
+            records[storeName].map((record) => transaction.put(storeName, record))
+          );
+        }
+        await updateMeta(transaction);
+      }
+    );
+
+    // Undo history holds records in their previous (un)encrypted form
+    undoManager.clear();
+    storeNames.forEach((storeName) => this.notifyChange(storeName, "reset"));
+    this.notifyChange("app_meta", "reset");
+  }
+
+  // Convert a record to the form it is stored in (encrypted in vault mode)
+  private async toStored<T>(storeName: string, item: T): Promise<unknown> {
+    const snapshotFields = SNAPSHOT_FIELDS[storeName];
+    if (snapshotFields) {
+      const entry = { ...item } as Record<string, unknown>;
+      for (const field of snapshotFields) {
+        if (entry[field]) {
+          entry[field] = await this.toStored(
+            entry.storeName as string,
+            entry[field]
+          );
+        }
+      }
+      return entry;
+    }
+
+    const indexedFields = ENCRYPTED_STORE_INDEXES[storeName];
+    if (!indexedFields || !this.vault.isEnabled()) {
+      return item;
+    }
+    // The vault encrypts JSON, so file contents are sealed as base64
+    const sealable =
+      storeName === "attachments"
+        ? await encodeAttachment(item as Attachment)
+        : item;
+    return this.vault.seal(sealable as T & { _id?: IDBValidKey }, indexedFields);
+  }
+
+  private async fromStored<T>(storeName: string, stored: unknown): Promise<T> {
+    const snapshotFields = SNAPSHOT_FIELDS[storeName];
+    if (snapshotFields) {
+      const entry = { ...(stored as Record<string, unknown>) };
+      for (const field of snapshotFields) {
+        if (entry[field]) {
+          entry[field] = await this.fromStored(
+            entry.storeName as string,
+            entry[field]
+          );
+        }
+      }
+      return entry as T;
+    }
+    if (isSealedRecord(stored)) {
+      const record = await this.vault.open<T>(stored);
+      return storeName === "attachments"
+        ? (decodeAttachment(record as EncodedAttachment) as T)
+        : record;
+    }
+    return stored as T;
+  }
+
+  // Audit log
+  // Audited stores are written together with audit_log (and recycle_bin for
+  // deletions) in one transaction
+  private transactionStores(storeName: string): string[] {
+    return isAuditedStore(storeName)
+      ? [storeName, "audit_log", "recycle_bin"]
+      : [storeName];
+  }
+
+  // Record a change inside the transaction that makes it. `before` and
+  // `after` are the records as stored, so in vault mode they stay encrypted.
+  private async writeAuditEntry(
+    transaction: StorageTransaction,
+    storeName: string,
+    recordId: RecordId,
+    before: unknown,
+    after: unknown,
+    action?: AuditAction
+  ): Promise<void> {
+    if (!isAuditedStore(storeName)) return;
+
+    const entry: AuditEntry<unknown> = {
+      _id: createId(),
+      timestamp: new Date().toISOString(),
+      actor: getAuditActor(),
+      action: action ?? (!before ? "create" : !after ? "delete" : "update"),
+      storeName,
+      recordId,
+      before: before ?? null,
+      after: after ?? null,
+    };
+    await transaction.add("audit_log", entry);
+  }
+
+  // Change history, newest first. Pass a store and record ID to get the
+  // history of a single record.
+  async getAuditLog(record?: {
+    storeName: AuditedStore;
+    recordId: RecordId;
+  }): Promise<AuditEntry[]> {
+    await this.ensureInit();
+    const stored = await this.storage.transaction(
+      ["audit_log"],
+      "readonly",
+      (transaction) =>
+        transaction.getAll(
+          "audit_log",
+          record
+            ? {
+                index: "record",
+                range: onlyKey([record.storeName, record.recordId]),
+              }
+            : { index: "timestamp" }
+        )
+    );
+
+    const entries = await Promise.all(
+      stored.map((entry) => this.fromStored<AuditEntry>("audit_log", entry))
+    );
+    return entries.sort(
+      (a, b) =>
+        b.timestamp.localeCompare(a.timestamp) ||
+        // Keys are time-ordered, so they break ties within a millisecond
+        (b._id ?? "").localeCompare(a._id ?? "")
+    );
+  }
+
+  // Undo support
+  // Record how to reverse writes that just committed. `before` and `after`
+  // are the records as stored; undoing and redoing write them back verbatim.
+  private recordUndo(
+    storeName: string,
+    action: "add" | "update" | "delete",
+    changes: StoredChange[],
+    binDetails?: (id: RecordId) => BinDetails
+  ): void {
+    if (!isAuditedStore(storeName) || changes.length === 0) return;
+
+    const label =
+      changes.length === 1
+        ? `${action}.${storeName}`
+        : `bulk${action[0].toUpperCase()}${action.slice(1)}.${storeName}`;
+
+    undoManager.record({
+      label,
+      undo: () =>
+        this.writeStored(
+          storeName,
+          changes.map((change) => ({
+            id: change.id,
+            stored: change.before,
+            binEntryId: change.binEntryId,
+          }))
+        ),
+      redo: async () => {
+        if (action !== "delete") {
+          await this.writeStored(
+            storeName,
+            changes.map((change) => ({ id: change.id, stored: change.after }))
+          );
+          return;
+        }
+        // Deleting again puts the records in new recycle bin entries
+        const redone = await this.removeRecords(
+          storeName,
+          changes.map((change) => change.id),
+          binDetails
         );
-        reject(request.error);
-      };
+        redone.forEach((change, i) => {
+          changes[i].binEntryId = change.binEntryId;
+        });
+      },
     });
   }
 
-  private async get<T>(storeName: string, id: string): Promise<T | null> {
+  // Put records back exactly as stored, or remove those whose `stored` is
+  // null. Undoing a deletion also takes the record back out of the recycle bin.
+  private async writeStored(
+    storeName: string,
+    records: { id: RecordId; stored: unknown; binEntryId?: RecordId }[]
+  ): Promise<void> {
     await this.ensureInit();
-    console.log(`IndexedDB: Getting item from ${storeName} with ID:`, id);
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], "readonly");
-      const store = transaction.objectStore(storeName);
-      const request = store.get(id);
-
-      request.onsuccess = () => {
-        console.log(
-          `IndexedDB: Retrieved item from ${storeName}:`,
-          request.result
+    const changed: Record<"add" | "update" | "delete", RecordId[]> = {
+      add: [],
+      update: [],
+      delete: [],
+    };
+    const binEntryIds: RecordId[] = [];
+
+    await this.storage.transaction(
+      this.transactionStores(storeName),
+      "readwrite",
+      (transaction) =>
+        Promise.all(
+          records.map(async ({ id, stored, binEntryId }) => {
+            const previous = await transaction.get(storeName, id);
+            if (stored) {
+              await transaction.put(storeName, stored);
+            } else {
+              await transaction.delete(storeName, id);
+            }
+            await this.writeAuditEntry(
+              transaction,
+              storeName,
+              id,
+              previous ?? null,
+              stored ?? null
+            );
+            changed[!stored ? "delete" : previous ? "update" : "add"].push(id);
+            if (binEntryId !== undefined) {
+              await transaction.delete("recycle_bin", binEntryId);
+              binEntryIds.push(binEntryId);
+            }
+          })
+        )
+    );
+
+    (["add", "update", "delete"] as const).forEach((type) =>
+      this.notifyChange(storeName, type, changed[type])
+    );
+    this.notifyChange("recycle_bin", "delete", binEntryIds);
+  }
+
+  // Reject the whole write if any record doesn't match its store's schema.
+  // Custom fields default to the ones currently defined. With `previous`,
+  // only errors the write introduces count.
+  private async validateRecords(
+    storeName: string,
+    items: unknown[],
+    customFields?: CustomFieldDefinition[],
+    previous?: unknown[]
+  ): Promise<void> {
+    const validator = RECORD_VALIDATORS[storeName];
+    if (!validator || items.length === 0) return;
+    const rules = writeRules(
+      customFields ??
+        (storeName === "emission_factors"
+          ? await this.getEmissionFactorFields()
+          : [])
+    );
+    items.forEach((item, index) => {
+      const existing = previous?.[index]
+        ? validator.validate(previous[index] as never, rules)
+        : [];
+      const errors = validator
+        .validate(item as never, rules)
+        .filter(
+          (error) =>
+            !existing.some(
+              (old) => old.field === error.field && old.code === error.code
+            )
         );
-        resolve(request.result || null);
-      };
-      request.onerror = () => {
+      if (errors.length > 0) {
         console.error(
-          `IndexedDB: Error getting item from ${storeName}:`,
-          request.error
+          `IndexedDB: Rejected invalid record ${index + 1} of ${items.length} for ${storeName}:`,
+          errors
         );
-        reject(request.error);
-      };
+        throw new ValidationError(validator.recordType, errors);
+      }
     });
   }
 
+  // Transactional writes
+  // Every record passed in is written in one transaction, so either all of
+  // them are saved or, if any write fails, none are. The single-record
+  // operations below go through the same path.
+  private async writeRecords(
+    storeName: string,
+    mode: "add" | "put",
+    items: unknown[],
+    options: WriteOptions = {}
+  ): Promise<RecordId[]> {
+    await this.ensureInit();
+    if (items.length === 0) return [];
+
+    await this.validateRecords(storeName, items, undefined, options.previous);
+
+    // New records get their key here. Encrypt up front: awaiting inside the
+    // transaction would let it commit.
+    const storedItems: unknown[] = [];
+    for (const item of items) {
+      const record =
+        mode === "add" ? { ...(item as object), _id: createId() } : item;
+      storedItems.push(await this.toStored(storeName, record));
+    }
+
+    const audited = isAuditedStore(storeName);
+    let completed = 0;
+    let changes: StoredChange[];
+    try {
+      changes = await this.storage.transaction(
+        this.transactionStores(storeName),
+        "readwrite",
+        (transaction) =>
+          Promise.all(
+            storedItems.map(async (stored) => {
+              const id = (stored as { _id: RecordId })._id;
+              const before =
+                audited && mode === "put"
+                  ? (await transaction.get(storeName, id)) ?? null
+                  : null;
+              if (mode === "add") {
+                await transaction.add(storeName, stored);
+              } else {
+                await transaction.put(storeName, stored);
+              }
+              await this.writeAuditEntry(transaction, storeName, id, before, stored);
+              options.onProgress?.(++completed, storedItems.length);
+              return { id, before, after: stored };
+            })
+          )
+      );
+    } catch (error) {
+      console.error(
+        `IndexedDB: Error writing items to ${storeName}, nothing was saved:`,
+        error
+      );
+      throw error;
+    }
+
+    console.log(`IndexedDB: Wrote ${changes.length} items to ${storeName}`);
+    this.recordUndo(storeName, mode === "add" ? "add" : "update", changes);
+    const ids = changes.map((change) => change.id);
+    this.notifyChange(storeName, mode === "add" ? "add" : "update", ids);
+    return ids;
+  }
+
+  // Records in audited stores are moved to the recycle bin rather than
+  // deleted outright
+  private async removeRecords(
+    storeName: string,
+    ids: RecordId[],
+    binDetails: (id: RecordId) => BinDetails = () => ({}),
+    options: BulkOptions = {}
+  ): Promise<StoredChange[]> {
+    await this.ensureInit();
+    if (ids.length === 0) return [];
+
+    const audited = isAuditedStore(storeName);
+    let completed = 0;
+    const removed = await this.storage.transaction(
+      this.transactionStores(storeName),
+      "readwrite",
+      (transaction) =>
+        Promise.all(
+          ids.map(async (id): Promise<StoredChange | null> => {
+            const previous = audited
+              ? await transaction.get(storeName, id)
+              : undefined;
+            await transaction.delete(storeName, id);
+            options.onProgress?.(++completed, ids.length);
+            // Deleting a key that doesn't exist is not a change worth logging
+            if (!previous) return null;
+
+            await this.writeAuditEntry(transaction, storeName, id, previous, null);
+            const entry: RecycleBinEntry<unknown> = {
+              _id: createId(),
+              storeName: storeName as AuditedStore,
+              recordId: id,
+              record: previous,
+              deletedAt: new Date().toISOString(),
+              deletedBy: getAuditActor(),
+              ...binDetails(id),
+            };
+            await transaction.add("recycle_bin", entry);
+            return { id, before: previous, after: null, binEntryId: entry._id };
+          })
+        )
+    );
+    const changes = removed.filter(
+      (change): change is StoredChange => change !== null
+    );
+
+    this.recordUndo(storeName, "delete", changes, binDetails);
+    this.notifyChange(storeName, "delete", ids);
+    this.notifyChange(
+      "recycle_bin",
+      "add",
+      changes.flatMap((change) =>
+        change.binEntryId !== undefined ? [change.binEntryId] : []
+      )
+    );
+    return changes;
+  }
+
+  // Bulk operations
+  async bulkAdd<S extends StoreName>(
+    storeName: S,
+    items: Omit<StoreRecords[S], "_id">[],
+    options: BulkOptions = {}
+  ): Promise<RecordId[]> {
+    console.log(`IndexedDB: Bulk adding ${items.length} items to ${storeName}`);
+    return this.writeRecords(storeName, "add", items, options);
+  }
+
+  async bulkPut<S extends StoreName>(
+    storeName: S,
+    items: StoreRecords[S][],
+    options: BulkOptions = {}
+  ): Promise<void> {
+    console.log(`IndexedDB: Bulk updating ${items.length} items in ${storeName}`);
+    await this.writeRecords(storeName, "put", items, options);
+  }
+
+  async bulkDelete<S extends StoreName>(
+    storeName: S,
+    ids: RecordId[],
+    options: BulkOptions = {}
+  ): Promise<void> {
+    console.log(`IndexedDB: Bulk deleting ${ids.length} items from ${storeName}`);
+    if (storeName === "emission_factors") {
+      // Factors still in use are never deleted without a decision about
+      // their activities
+      await this.deleteEmissionFactors(ids, { action: "block" }, options);
+      return;
+    }
+    await this.removeRecords(storeName, ids, undefined, options);
+  }
+
+  // Generic CRUD operations
+  private async add<T>(storeName: string, item: T): Promise<RecordId> {
+    console.log(`IndexedDB: Adding item to ${storeName}:`, item);
+    const [id] = await this.writeRecords(storeName, "add", [item]);
+    console.log(`IndexedDB: Item added to ${storeName} with ID:`, id);
+    return id;
+  }
+
+  private async get<T>(storeName: string, id: RecordId): Promise<T | null> {
+    await this.ensureInit();
+    console.log(`IndexedDB: Getting item from ${storeName} with ID:`, id);
+    try {
+      const stored = await this.storage.transaction(
+        [storeName],
+        "readonly",
+        (transaction) => transaction.get(storeName, id)
+      );
+      console.log(`IndexedDB: Retrieved item from ${storeName}:`, stored);
+      return stored ? this.fromStored<T>(storeName, stored) : null;
+    } catch (error) {
+      console.error(`IndexedDB: Error getting item from ${storeName}:`, error);
+      throw error;
+    }
+  }
+
   private async getAll<T>(storeName: string): Promise<T[]> {
     await this.ensureInit();
     console.log(`IndexedDB: Getting all items from ${storeName}`);
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], "readonly");
-      const store = transaction.objectStore(storeName);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        console.log(
-          `IndexedDB: Retrieved ${
-            request.result?.length || 0
-          } items from ${storeName}`
-        );
-        resolve(request.result || []);
-      };
-      request.onerror = () => {
-        console.error(
-          `IndexedDB: Error getting all items from ${storeName}:`,
-          request.error
-        );
-        reject(request.error);
-      };
-    });
+    let stored: unknown[];
+    try {
+      stored = await this.storage.transaction(
+        [storeName],
+        "readonly",
+        (transaction) => transaction.getAll(storeName)
+      );
+    } catch (error) {
+      console.error(
+        `IndexedDB: Error getting all items from ${storeName}:`,
+        error
+      );
+      throw error;
+    }
+    console.log(`IndexedDB: Retrieved ${stored.length} items from ${storeName}`);
+    return Promise.all(
+      stored.map((item) => this.fromStored<T>(storeName, item))
+    );
   }
 
   private async update<T>(storeName: string, item: T): Promise<void> {
-    await this.ensureInit();
     console.log(`IndexedDB: Updating item in ${storeName}:`, item);
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], "readwrite");
-      const store = transaction.objectStore(storeName);
-      const request = store.put(item);
-
-      request.onsuccess = () => {
-        console.log(`IndexedDB: Item updated in ${storeName} successfully`);
-        resolve();
-      };
-      request.onerror = () => {
-        console.error(
-          `IndexedDB: Error updating item in ${storeName}:`,
-          request.error
-        );
-        reject(request.error);
-      };
-    });
+    // Records saved before validation was added may already have errors, and
+    // only the ones this edit introduces should stop it
+    const id = (item as { _id?: RecordId })._id;
+    const stored = id !== undefined ? await this.get(storeName, id) : null;
+    await this.writeRecords(storeName, "put", [item], { previous: [stored] });
+    console.log(`IndexedDB: Item updated in ${storeName} successfully`);
+  }
+
+  private async delete(storeName: string, id: RecordId): Promise<void> {
+    await this.removeRecords(storeName, [id]);
   }
 
-  private async delete(storeName: string, id: string): Promise<void> {
+  private async clear(storeName: string): Promise<void> {
+    await this.ensureInit();
+    await this.storage.transaction([storeName], "readwrite", (transaction) =>
+      transaction.clear(storeName)
+    );
+    this.notifyChange(storeName, "reset");
+  }
+
+  // Queries
+  // Filters use the scope, category and location indexes (the compound index
+  // when scope and category are both given) and pages are read with a cursor,
+  // so only the records on the requested page are loaded and decrypted.
+  async query<S extends QueryStore>(
+    storeName: S,
+    options: QueryOptions<S> = {}
+  ): Promise<QueryPage<StoreRecords[S]>> {
     await this.ensureInit();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], "readwrite");
-      const store = transaction.objectStore(storeName);
-      const request = store.delete(id);
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const direction = options.direction === "desc" ? "prev" : "next";
+    // Sealed records don't expose the sort fields, so they aren't in the
+    // sort indexes. The lists don't offer sorting while the vault is on.
+    const orderBy = this.vault.isEnabled() ? undefined : options.orderBy;
+
+    const match = await this.toStoredFilter(options.where);
+    const plan = this.planQuery(match, orderBy);
+    const after: CursorPosition | null = options.cursor
+      ? JSON.parse(options.cursor)
+      : null;
+    console.log(`IndexedDB: Querying ${storeName}:`, { ...options, plan });
+
+    const { rows, hasMore } = await this.storage.transaction(
+      [storeName],
+      "readonly",
+      async (transaction) => {
+        const found: { value: unknown; position: CursorPosition }[] = [];
+        let more = false;
+        await transaction.iterate(
+          storeName,
+          { index: plan.indexName, range: plan.range, direction, after },
+          (record) => {
+            if (!this.matchesFilter(record.value, match, plan.residual)) {
+              return true;
+            }
+            // Reaching a match past the page means there is another page
+            if (found.length === limit) {
+              more = true;
+              return false;
+            }
+            found.push({
+              value: record.value,
+              position: { key: record.key, primaryKey: record.primaryKey },
+            });
+            return true;
+          }
+        );
+        return { rows: found, hasMore: more };
+      }
+    );
+
+    const items = await Promise.all(
+      rows.map((row) => this.fromStored<StoreRecords[S]>(storeName, row.value))
+    );
+    console.log(
+      `IndexedDB: Query returned ${items.length} items from ${storeName}`
+    );
+    return {
+      items,
+      nextCursor:
+        hasMore && rows.length > 0
+          ? JSON.stringify(rows[rows.length - 1].position)
+          : null,
+    };
+  }
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+  // Every record matching the filter, for lookups that need the full list
+  async findAll<S extends QueryStore>(
+    storeName: S,
+    where: QueryFilter
+  ): Promise<StoreRecords[S][]> {
+    const { items } = await this.query(storeName, {
+      where,
+      limit: Number.POSITIVE_INFINITY,
     });
+    return items;
   }
 
-  private async clear(storeName: string): Promise<void> {
+  async count(storeName: QueryStore, where?: QueryFilter): Promise<number> {
     await this.ensureInit();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], "readwrite");
-      const store = transaction.objectStore(storeName);
-      const request = store.clear();
+    const match = await this.toStoredFilter(where);
+    const plan = this.planQuery(match);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return this.storage.transaction(
+      [storeName],
+      "readonly",
+      async (transaction) => {
+        const source = { index: plan.indexName, range: plan.range };
+        if (plan.residual.length === 0) {
+          return transaction.count(storeName, source);
+        }
+
+        let total = 0;
+        await transaction.iterate(storeName, source, (record) => {
+          if (this.matchesFilter(record.value, match, plan.residual)) {
+            total++;
+          }
+          return true;
+        });
+        return total;
+      }
+    );
+  }
+
+  // Drop empty filter values and, in vault mode, replace the rest with the
+  // blind-index tokens they are stored as
+  private async toStoredFilter(where: QueryFilter = {}): Promise<QueryFilter> {
+    const match: QueryFilter = {};
+    for (const field of QUERY_FIELDS) {
+      const value = where[field];
+      if (value) {
+        match[field] = this.vault.isEnabled() ? await this.vault.blindIndex(value) : value;
+      }
+    }
+    return match;
+  }
+
+  private planQuery(match: QueryFilter, orderBy?: string): QueryPlan {
+    const fields = QUERY_FIELDS.filter((field) => match[field] !== undefined);
+
+    // Walking a sort index gives the order; filters are checked per record
+    if (orderBy) {
+      return { indexName: orderBy, residual: fields };
+    }
+
+    if (match.scope !== undefined && match.category !== undefined) {
+      const prefix = [match.scope, match.category];
+      return {
+        indexName: "scope_category_location",
+        range:
+          match.location !== undefined
+            ? onlyKey([...prefix, match.location])
+            : // Arrays sort after strings, so this bounds every location
+              { lower: prefix, upper: [...prefix, []] },
+        residual: [],
+      };
+    }
+
+    if (fields.length > 0) {
+      const [field, ...residual] = fields;
+      return {
+        indexName: field,
+        range: onlyKey(match[field]!),
+        residual,
+      };
+    }
+
+    return { residual: [] };
+  }
+
+  private matchesFilter(
+    stored: unknown,
+    match: QueryFilter,
+    fields: QueryField[]
+  ): boolean {
+    const record = stored as Record<string, unknown>;
+    return fields.every((field) => record[field] === match[field]);
   }
 
   // Reporting Activities operations
   async addReportingActivity(
     activity: Omit<ReportingActivity, "_id">
-  ): Promise<string> {
+  ): Promise<RecordId> {
     console.log("IndexedDB: Adding reporting activity:", activity);
     const id = await this.add("reporting_activities", activity);
     console.log("IndexedDB: Activity added with ID:", id);
     return id;
   }
 
-  async getReportingActivity(id: string): Promise<ReportingActivity | null> {
+  async getReportingActivity(id: RecordId): Promise<ReportingActivity | null> {
     console.log("IndexedDB: Getting reporting activity with ID:", id);
     const result = await this.get<ReportingActivity>(
       "reporting_activities",
@@ -275,7 +1355,7 @@ class IndexedDBService {
     console.log("IndexedDB: Activity updated successfully");
   }
 
-  async deleteReportingActivity(id: string): Promise<void> {
+  async deleteReportingActivity(id: RecordId): Promise<void> {
     console.log("IndexedDB: Deleting reporting activity with ID:", id);
     await this.delete("reporting_activities", id);
     console.log("IndexedDB: Activity deleted successfully");
@@ -284,14 +1364,14 @@ class IndexedDBService {
   // Emission Factors operations
   async addEmissionFactor(
     factor: Omit<EmissionFactor, "_id">
-  ): Promise<string> {
+  ): Promise<RecordId> {
     console.log("IndexedDB: Adding emission factor:", factor);
     const id = await this.add("emission_factors", factor);
     console.log("IndexedDB: Emission factor added with ID:", id);
     return id;
   }
 
-  async getEmissionFactor(id: string): Promise<EmissionFactor | null> {
+  async getEmissionFactor(id: RecordId): Promise<EmissionFactor | null> {
     console.log("IndexedDB: Getting emission factor with ID:", id);
     const result = await this.get<EmissionFactor>("emission_factors", id);
     console.log("IndexedDB: Retrieved emission factor:", result);
@@ -305,22 +1385,138 @@ class IndexedDBService {
     return result;
   }
 
-  async updateEmissionFactor(factor: EmissionFactor): Promise<void> {
+  // Activities using the factor are recalculated with its new values, as part
+  // of the same undoable step
+  async updateEmissionFactor(
+    factor: EmissionFactor
+  ): Promise<FactorUpdateSummary> {
     console.log("IndexedDB: Updating emission factor:", factor);
-    await this.update("emission_factors", factor);
-    console.log("IndexedDB: Emission factor updated successfully");
+    const previous = await this.getEmissionFactor(factor._id!);
+    const dependents =
+      previous && changesActivities(previous, factor)
+        ? await this.getDependentActivities([factor._id!])
+        : [];
+
+    await undoManager.runBatch("update.emission_factors", async () => {
+      await this.update("emission_factors", factor);
+      await this.relinkActivities(dependents, (activity) =>
+        linkToFactor(activity, factor)
+      );
+    });
+    console.log(
+      `IndexedDB: Emission factor updated successfully, ${dependents.length} activities recalculated`
+    );
+    return { recalculatedActivities: dependents.length };
   }
 
-  async deleteEmissionFactor(id: string): Promise<void> {
+  async deleteEmissionFactor(
+    id: RecordId,
+    policy: DependentPolicy = { action: "block" }
+  ): Promise<FactorDeleteSummary> {
     console.log("IndexedDB: Deleting emission factor with ID:", id);
-    await this.delete("emission_factors", id);
+    const summary = await this.deleteEmissionFactors([id], policy);
     console.log("IndexedDB: Emission factor deleted successfully");
+    return summary;
+  }
+
+  // Activities that use any of the given emission factors
+  async getDependentActivities(
+    factorIds: RecordId[]
+  ): Promise<ReportingActivity[]> {
+    const ids = new Set(factorIds);
+    return (await this.getAllReportingActivities()).filter(
+      (activity) =>
+        activity.emissionFactorId !== undefined &&
+        ids.has(activity.emissionFactorId)
+    );
+  }
+
+  // Save activities with their factor link and emissions changed by a factor
+  // edit, delete or restore. Problems the activities already had, such as a
+  // scope or quantity stored before validation was added, don't block the
+  // change to the factor.
+  private async relinkActivities(
+    activities: ReportingActivity[],
+    relink: (activity: ReportingActivity) => ReportingActivity
+  ): Promise<void> {
+    await this.writeRecords(
+      "reporting_activities",
+      "put",
+      activities.map(relink),
+      { previous: activities }
+    );
+  }
+
+  // Delete emission factors, first applying `policy` to the activities that
+  // use them. With the "block" policy nothing is deleted while any activity
+  // still uses one of the factors.
+  async deleteEmissionFactors(
+    ids: RecordId[],
+    policy: DependentPolicy,
+    options: BulkOptions = {}
+  ): Promise<FactorDeleteSummary> {
+    const dependents = await this.getDependentActivities(ids);
+    const summary: FactorDeleteSummary = {
+      reassignedActivities: 0,
+      detachedActivities: 0,
+    };
+
+    let relink: (activity: ReportingActivity) => ReportingActivity = (
+      activity
+    ) => activity;
+    if (dependents.length > 0) {
+      if (policy.action === "block") {
+        throw new ReferentialIntegrityError(
+          dependents.map((activity) => activity._id!)
+        );
+      }
+      if (policy.action === "reassign") {
+        const replacement = ids.includes(policy.factorId)
+          ? null
+          : await this.getEmissionFactor(policy.factorId);
+        if (!replacement) {
+          throw new Error(
+            `Emission factor ${policy.factorId} can't replace the deleted factors.`
+          );
+        }
+        relink = (activity) => linkToFactor(activity, replacement);
+        summary.reassignedActivities = dependents.length;
+      } else {
+        const factors = new Map(
+          (await this.getAllEmissionFactors()).map((factor) => [
+            factor._id,
+            factor,
+          ])
+        );
+        relink = (activity) =>
+          detachFromFactor(activity, factors.get(activity.emissionFactorId)!);
+        summary.detachedActivities = dependents.length;
+      }
+    }
+
+    // Remember which activities used each factor so a restore can re-link them
+    const binDetails = (id: RecordId): BinDetails => ({
+      dependentActivityIds: dependents
+        .filter((activity) => activity.emissionFactorId === id)
+        .map((activity) => activity._id!),
+    });
+
+    // Activities are updated first: if deleting then fails, they point at a
+    // factor that still exists rather than at one that is gone
+    await undoManager.runBatch(
+      ids.length === 1 ? "delete.emission_factors" : "bulkDelete.emission_factors",
+      async () => {
+        await this.relinkActivities(dependents, relink);
+        await this.removeRecords("emission_factors", ids, binDetails, options);
+      }
+    );
+    return summary;
   }
 
   // GHG Reporting Standards operations
   async addGhgReportingStandard(
     standard: Omit<GhgReportingStandard, "_id">
-  ): Promise<string> {
+  ): Promise<RecordId> {
     const id = await this.add("ghg_reporting_standards", standard);
     return id;
   }
@@ -329,6 +1525,46 @@ class IndexedDBService {
     return this.getAll<GhgReportingStandard>("ghg_reporting_standards");
   }
 
+  // Custom emission factor fields, in the order they were added (see
+  // customFields.ts)
+  async getEmissionFactorFields(): Promise<CustomFieldDefinition[]> {
+    return this.getAll<CustomFieldDefinition>("emission_factor_fields");
+  }
+
+  // Add a field, or update it when it has an _id
+  async saveEmissionFactorField(
+    field: CustomFieldDefinition
+  ): Promise<RecordId> {
+    const others = (await this.getEmissionFactorFields()).filter(
+      (other) => other._id !== field._id
+    );
+    const problem = validateCustomField(field, others);
+    if (problem) throw new CustomFieldError(field, problem);
+    // Values kept from an earlier definition with this key must fit too
+    const invalid = factorsWithInvalidValues(
+      field,
+      await this.getAllEmissionFactors()
+    );
+    if (invalid.length > 0) {
+      throw new CustomFieldError(
+        field,
+        "storedValues",
+        invalid.map((factor) => factor.description)
+      );
+    }
+
+    if (field._id === undefined) {
+      return this.add("emission_factor_fields", field);
+    }
+    await this.update("emission_factor_fields", field);
+    return field._id;
+  }
+
+  // Factors keep their values for the field
+  async deleteEmissionFactorField(id: RecordId): Promise<void> {
+    await this.delete("emission_factor_fields", id);
+  }
+
   // Seed default data
   async seedDefaultData(): Promise<void> {
     try {
@@ -352,78 +1588,853 @@ class IndexedDBService {
     }
   }
 
-  // Clear all data
-  async clearAllData(): Promise<void> {
+  // Clear all data, noting the cause in the retention log
+  async clearAllData(trigger: RetentionTrigger): Promise<void> {
     try {
-      await this.clear("reporting_activities");
-      await this.clear("emission_factors");
-      await this.clear("ghg_reporting_standards");
-      console.log("All data cleared successfully");
+      const removed = await this.countStores(CLEARED_STORES);
+      for (const storeName of CLEARED_STORES) {
+        await this.clear(storeName);
+      }
+      undoManager.clear();
+      await this.logRetentionEvent(trigger, removed);
+      console.log(`All data cleared successfully (${trigger})`);
     } catch (error) {
       console.error("Error clearing data:", error);
       throw error;
     }
   }
 
+  // Clear every workspace for a retention wipe, along with its dashboard
+  // layout. Each workspace notes the wipe in its own retention log.
+  // `beforeClear` runs first for each one, given that workspace's service.
+  // A workspace that can't be cleared doesn't stop the others; the first
+  // error is thrown once they have all been tried.
+  async clearEveryWorkspace(
+    trigger: RetentionTrigger,
+    beforeClear?: (service: IndexedDBService) => Promise<void>
+  ): Promise<void> {
+    // Another tab may have switched the active workspace since this one
+    // loaded, so this service's own workspace goes first and the rest are
+    // opened with services of their own
+    const others = workspaceManager
+      .getWorkspaces()
+      .filter((workspace) => workspace.id !== this.workspaceId)
+      .map((workspace) => ({
+        id: workspace.id,
+        service: new IndexedDBService(
+          new IndexedDBAdapter(workspaceManager.getDatabaseName(workspace.id)),
+          { workspaceId: workspace.id }
+        ),
+      }));
+    const workspaces = [
+      { id: this.workspaceId, service: this as IndexedDBService },
+      ...others,
+    ];
+    let failure: unknown = null;
+
+    for (const { id, service } of workspaces) {
+      try {
+        await beforeClear?.(service);
+        await service.clearAllData(trigger);
+        if (id !== null) {
+          localStorage.removeItem(workspaceManager.getChartsStorageKey(id));
+        }
+      } catch (error) {
+        console.error(`Error clearing workspace ${id}:`, error);
+        failure ??= error;
+      } finally {
+        if (service !== this) service.close();
+      }
+    }
+
+    if (failure) throw failure;
+  }
+
+  // Recycle bin
+  async getRecycleBin(): Promise<RecycleBinEntry[]> {
+    const entries = await this.getAll<RecycleBinEntry>("recycle_bin");
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  // Put a deleted record back under its original ID. Activities that used a
+  // restored emission factor and still point at a missing factor are linked
+  // to it again.
+  async restoreFromRecycleBin(entryId: RecordId): Promise<RestoreSummary> {
+    await this.ensureInit();
+    const entry = await this.storage.transaction(
+      ["recycle_bin", "reporting_activities", "emission_factors", "audit_log"],
+      "readwrite",
+      async (transaction) => {
+        const found = (await transaction.get("recycle_bin", entryId)) as
+          | RecycleBinEntry<unknown>
+          | undefined;
+        if (!found) {
+          throw new Error(`Recycle bin entry ${entryId} does not exist.`);
+        }
+        // add() rather than put() so an existing record is never overwritten
+        await transaction.add(found.storeName, found.record);
+        await transaction.delete("recycle_bin", entryId);
+        await this.writeAuditEntry(
+          transaction,
+          found.storeName,
+          found.recordId,
+          null,
+          found.record,
+          "restore"
+        );
+        return found;
+      }
+    );
+    console.log(
+      `IndexedDB: Restored ${entry.storeName} record ${entry.recordId} from the recycle bin`
+    );
+    this.notifyChange(entry.storeName, "add", [
+      (entry.record as { _id: RecordId })._id,
+    ]);
+    this.notifyChange("recycle_bin", "delete", [entryId]);
+
+    const summary: RestoreSummary = { relinkedActivities: 0 };
+    if (entry.storeName !== "emission_factors" || !entry.dependentActivityIds) {
+      return summary;
+    }
+
+    const factor = await this.getEmissionFactor(entry.recordId);
+    if (!factor) return summary;
+    const factorIds = new Set(
+      (await this.getAllEmissionFactors()).map((f) => f._id)
+    );
+    const dependents = new Set(entry.dependentActivityIds);
+    for (const activity of await this.getAllReportingActivities()) {
+      if (!dependents.has(activity._id!)) continue;
+      // Activities still holding the factor's ID are linked again by the
+      // restore itself
+      if (activity.emissionFactorId === entry.recordId) {
+        summary.relinkedActivities++;
+        continue;
+      }
+      // Leave activities that have since been pointed at another factor
+      if (factorIds.has(activity.emissionFactorId)) continue;
+      await this.relinkActivities([activity], (a) => linkToFactor(a, factor));
+      summary.relinkedActivities++;
+    }
+    return summary;
+  }
+
+  // Permanently delete one entry from the recycle bin, together with the
+  // deleted record's attachments
+  async purgeRecycleBinEntry(entryId: RecordId): Promise<void> {
+    const entry = await this.get<RecycleBinEntry>("recycle_bin", entryId);
+    await this.delete("recycle_bin", entryId);
+    if (entry) {
+      await this.deleteAttachmentsOf([entry]);
+    }
+  }
+
+  async emptyRecycleBin(): Promise<void> {
+    const entries = await this.getRecycleBin();
+    await this.clear("recycle_bin");
+    await this.deleteAttachmentsOf(entries);
+  }
+
+  // Attachments
+  // Files attached to an activity or emission factor. They stay while the
+  // record is in the recycle bin and are deleted when it is purged.
+  async addAttachments(
+    attachments: Omit<Attachment, "_id">[]
+  ): Promise<RecordId[]> {
+    console.log(`IndexedDB: Adding ${attachments.length} attachments`);
+    return this.writeRecords("attachments", "add", attachments);
+  }
+
+  async getAttachments(
+    ownerStore: AttachmentOwnerStore,
+    ownerId: RecordId
+  ): Promise<Attachment[]> {
+    await this.ensureInit();
+    // In vault mode the owner index holds blind-index tokens
+    const ownerKey = this.vault.isEnabled()
+      ? [await this.vault.blindIndex(ownerStore), await this.vault.blindIndex(ownerId)]
+      : [ownerStore, ownerId];
+    const stored = await this.storage.transaction(
+      ["attachments"],
+      "readonly",
+      (transaction) =>
+        transaction.getAll("attachments", {
+          index: "owner",
+          range: onlyKey(ownerKey),
+        })
+    );
+    const attachments = await Promise.all(
+      stored.map((item) => this.fromStored<Attachment>("attachments", item))
+    );
+    return attachments.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+  }
+
+  async deleteAttachment(id: RecordId): Promise<void> {
+    await this.delete("attachments", id);
+  }
+
+  private async deleteAttachmentsOf(
+    owners: { storeName: string; recordId: RecordId }[]
+  ): Promise<void> {
+    const ids: RecordId[] = [];
+    for (const owner of owners) {
+      if (!isAttachmentOwner(owner.storeName)) continue;
+      const attachments = await this.getAttachments(
+        owner.storeName,
+        owner.recordId
+      );
+      ids.push(...attachments.map((attachment) => attachment._id!));
+    }
+    if (ids.length > 0) {
+      await this.removeRecords("attachments", ids);
+      console.log(`IndexedDB: Deleted ${ids.length} attachments of purged records`);
+    }
+  }
+
+  // Retention snapshots
+  // Encrypted copies of the data taken before an inactivity wipe (see
+  // retentionSnapshot.ts). They are already encrypted, so they are stored as
+  // they are in vault mode too, and clearAllData leaves them in place.
+  async getRetentionSnapshotKey(): Promise<RetentionSnapshotKey | null> {
+    await this.ensureInit();
+    const meta = await this.storage.transaction(
+      ["app_meta"],
+      "readonly",
+      (transaction) => transaction.get("app_meta", RETENTION_SNAPSHOT_KEY)
+    );
+    return (meta as RetentionSnapshotKey | undefined) ?? null;
+  }
+
+  // Not announced to other tabs: app_meta changes there reload the vault
+  async setRetentionSnapshotKey(
+    key: RetentionSnapshotKey | null
+  ): Promise<void> {
+    await this.ensureInit();
+    await this.storage.transaction(
+      ["app_meta"],
+      "readwrite",
+      async (transaction) => {
+        if (key) {
+          await transaction.put("app_meta", key);
+        } else {
+          await transaction.delete("app_meta", RETENTION_SNAPSHOT_KEY);
+        }
+      }
+    );
+  }
+
+  async getRetentionSnapshots(): Promise<RetentionSnapshot[]> {
+    const snapshots = await this.getAll<RetentionSnapshot>("retention_snapshots");
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Keep the newest `keep` snapshots, including the one added
+  async addRetentionSnapshot(
+    snapshot: Omit<RetentionSnapshot, "_id">,
+    keep: number
+  ): Promise<RecordId> {
+    const id = await this.add("retention_snapshots", snapshot);
+    const stale = (await this.getRetentionSnapshots()).slice(keep);
+    if (stale.length > 0) {
+      await this.removeRecords(
+        "retention_snapshots",
+        stale.map((entry) => entry._id!)
+      );
+      console.log(`IndexedDB: Removed ${stale.length} old retention snapshots`);
+    }
+    return id;
+  }
+
+  async deleteRetentionSnapshot(id: RecordId): Promise<void> {
+    await this.delete("retention_snapshots", id);
+  }
+
+  // Retention log
+  // Bulk deletions, newest first (see retentionLog.ts). Clearing the data
+  // leaves the log in place.
+  async getRetentionLog(): Promise<RetentionLogEntry[]> {
+    const entries = await this.getAll<RetentionLogEntry>("retention_log");
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  async clearRetentionLog(): Promise<void> {
+    await this.clear("retention_log");
+  }
+
+  private async logRetentionEvent(
+    trigger: RetentionTrigger,
+    removed: Record<string, number>
+  ): Promise<void> {
+    await this.add("retention_log", {
+      trigger,
+      timestamp: new Date().toISOString(),
+      removed,
+    });
+    const stale = (await this.getRetentionLog()).slice(
+      MAX_RETENTION_LOG_ENTRIES
+    );
+    if (stale.length > 0) {
+      await this.removeRecords(
+        "retention_log",
+        stale.map((entry) => entry._id!)
+      );
+    }
+  }
+
+  // Record counts of the given stores, read together
+  private async countStores(
+    storeNames: string[]
+  ): Promise<Record<string, number>> {
+    await this.ensureInit();
+    return this.storage.transaction(
+      storeNames,
+      "readonly",
+      async (transaction) => {
+        const counts: Record<string, number> = {};
+        for (const storeName of storeNames) {
+          counts[storeName] = await transaction.count(storeName);
+        }
+        return counts;
+      }
+    );
+  }
+
+  // Workspaces
+  // Copy every store of one workspace into a new workspace. Records are copied
+  // as stored, so an encrypted workspace stays encrypted with the same
+  // passphrase.
+  async duplicateWorkspace(sourceId: string, name: string): Promise<Workspace> {
+    const workspace = workspaceManager.createWorkspace(name);
+    const source = new IndexedDBAdapter(
+      workspaceManager.getDatabaseName(sourceId)
+    );
+    const target = new IndexedDBAdapter(
+      workspaceManager.getDatabaseName(workspace.id)
+    );
+
+    try {
+      await source.open();
+      await target.open();
+      await copyStores(source, target);
+
+      const charts = localStorage.getItem(
+        workspaceManager.getChartsStorageKey(sourceId)
+      );
+      if (charts) {
+        localStorage.setItem(
+          workspaceManager.getChartsStorageKey(workspace.id),
+          charts
+        );
+      }
+      console.log(`IndexedDB: Duplicated workspace ${sourceId} as ${workspace.id}`);
+      return workspace;
+    } catch (error) {
+      console.error("Error duplicating workspace:", error);
+      target.close();
+      workspaceManager.removeWorkspace(workspace.id);
+      await deleteDatabase(workspaceManager.getDatabaseName(workspace.id));
+      throw error;
+    } finally {
+      source.close();
+      target.close();
+    }
+  }
+
+  // Delete a workspace together with its database and dashboard layout
+  async deleteWorkspace(id: string): Promise<void> {
+    workspaceManager.removeWorkspace(id);
+    localStorage.removeItem(workspaceManager.getChartsStorageKey(id));
+    await deleteDatabase(workspaceManager.getDatabaseName(id));
+    console.log(`IndexedDB: Deleted workspace ${id}`);
+  }
+
   // Export data for backup
-  async exportData(): Promise<{
-    reporting_activities: ReportingActivity[];
-    emission_factors: EmissionFactor[];
-    ghg_reporting_standards: GhgReportingStandard[];
-  }> {
+  async exportData(): Promise<BackupData> {
     try {
-      const [activities, factors, standards] = await Promise.all([
-        this.getAllReportingActivities(),
-        this.getAllEmissionFactors(),
-        this.getAllGhgReportingStandards(),
-      ]);
+      const [activities, factors, standards, attachments, customFields] =
+        await Promise.all([
+          this.getAllReportingActivities(),
+          this.getAllEmissionFactors(),
+          this.getAllGhgReportingStandards(),
+          this.getAll<Attachment>("attachments"),
+          this.getEmissionFactorFields(),
+        ]);
 
-      return {
+      return toBackupData({
         reporting_activities: activities,
         emission_factors: factors,
         ghg_reporting_standards: standards,
-      };
+        attachments,
+        emission_factor_fields: customFields,
+      });
     } catch (error) {
       console.error("Error exporting data:", error);
       throw error;
     }
   }
 
+  // Export data for backup while the vault is locked. Activities, factors
+  // and attachments are read as stored, still encrypted with the vault key;
+  // unsealData opens them once the vault is unlocked again.
+  async exportSealedData(): Promise<SealedBackupData> {
+    await this.ensureInit();
+    const storeNames = ["reporting_activities", "emission_factors", "attachments"];
+    const [activities, factors, attachments] = await this.storage.transaction(
+      storeNames,
+      "readonly",
+      (transaction) =>
+        Promise.all(
+          storeNames.map(
+            (storeName) =>
+              transaction.getAll(storeName) as Promise<SealedRecord[]>
+          )
+        )
+    );
+    return {
+      reporting_activities: activities,
+      emission_factors: factors,
+      ghg_reporting_standards: await this.getAllGhgReportingStandards(),
+      attachments,
+      emission_factor_fields: await this.getEmissionFactorFields(),
+    };
+  }
+
+  // Open data from exportSealedData. Needs the vault unlocked with the
+  // passphrase it was sealed with.
+  async unsealData(data: SealedBackupData): Promise<BackupData> {
+    const open = <T>(storeName: string, records: SealedRecord[]) =>
+      Promise.all(records.map((record) => this.fromStored<T>(storeName, record)));
+    return toBackupData({
+      ...data,
+      reporting_activities: await open<ReportingActivity>(
+        "reporting_activities",
+        data.reporting_activities
+      ),
+      emission_factors: await open<EmissionFactor>(
+        "emission_factors",
+        data.emission_factors
+      ),
+      attachments: await open<Attachment>("attachments", data.attachments),
+    });
+  }
+
   // Import data from backup
-  async importData(data: {
-    reporting_activities: ReportingActivity[];
-    emission_factors: EmissionFactor[];
-    ghg_reporting_standards: GhgReportingStandard[];
-  }): Promise<void> {
+  // In "replace" mode existing data is cleared first; in "merge" mode the
+  // backup is added alongside it, reusing identical factors and standards.
+  // Factors get new keys on import, so activity references are remapped from
+  // the old factor IDs to the new ones.
+  async importData(
+    data: BackupData,
+    options: { mode: ImportMode } = { mode: "replace" }
+  ): Promise<ImportSummary> {
     try {
-      // Clear existing data first
-      await this.clearAllData();
+      const summary: ImportSummary = {
+        standardsAdded: 0,
+        factorsAdded: 0,
+        factorsReused: 0,
+        activitiesAdded: 0,
+        attachmentsAdded: 0,
+        customFieldsAdded: 0,
+        unresolvedReferences: 0,
+      };
 
-      // Import new data
-      for (const standard of data.ghg_reporting_standards) {
-        await this.addGhgReportingStandard(standard);
-      }
+      // Work out every record to write before touching the stored data. Its
+      // factors are checked against the custom fields it brings as well as
+      // the ones already defined.
+      const existingFields = await this.getEmissionFactorFields();
+      const newFields = newCustomFields(
+        existingFields,
+        data.emission_factor_fields ?? []
+      );
+      const sections = await this.planImport(
+        data,
+        options.mode,
+        newFields,
+        summary
+      );
+      const fields = [...existingFields, ...newFields];
 
-      for (const factor of data.emission_factors) {
-        const { _id, ...factorData } = factor;
-        await this.addEmissionFactor(factorData);
+      // Encrypt up front: awaiting inside the transaction would let it commit
+      // Backups from before validation was added may hold records that fail
+      // it, so only errors the import itself introduces reject it.
+      const storedSections: [string, unknown[]][] = [];
+      for (const [storeName, records, sources] of sections) {
+        await this.validateRecords(
+          storeName,
+          records,
+          storeName === "emission_factors" ? fields : undefined,
+          sources
+        );
+        const stored: unknown[] = [];
+        for (const record of records) {
+          stored.push(await this.toStored(storeName, record));
+        }
+        storedSections.push([storeName, stored]);
       }
 
-      for (const activity of data.reporting_activities) {
-        const { _id, ...activityData } = activity;
-        await this.addReportingActivity(activityData);
+      // Replace mode clears the data in the same transaction that writes the
+      // backup, so a failure anywhere leaves the existing data as it was
+      const isReplace = options.mode === "replace";
+      const removed: Record<string, number> = {};
+      const changes = await this.storage.transaction(
+        [
+          ...new Set([
+            ...(isReplace ? CLEARED_STORES : []),
+            ...storedSections.flatMap(([storeName]) =>
+              this.transactionStores(storeName)
+            ),
+          ]),
+        ],
+        "readwrite",
+        async (transaction) => {
+          if (isReplace) {
+            for (const storeName of CLEARED_STORES) {
+              removed[storeName] = await transaction.count(storeName);
+              await transaction.clear(storeName);
+            }
+          }
+          const written: [string, StoredChange[]][] = [];
+          for (const [storeName, stored] of storedSections) {
+            written.push([
+              storeName,
+              await Promise.all(
+                stored.map(async (record) => {
+                  const id = (record as { _id: RecordId })._id;
+                  await transaction.add(storeName, record);
+                  await this.writeAuditEntry(
+                    transaction,
+                    storeName,
+                    id,
+                    null,
+                    record
+                  );
+                  return { id, before: null, after: record };
+                })
+              ),
+            ]);
+          }
+          return written;
+        }
+      );
+
+      if (isReplace) {
+        undoManager.clear();
+        CLEARED_STORES.forEach((storeName) =>
+          this.notifyChange(storeName, "reset")
+        );
+        await this.logRetentionEvent("backup-replace", removed);
+      }
+      // The whole import is undone as one step
+      await undoManager.runBatch("import.backup", async () => {
+        for (const [storeName, storeChanges] of changes) {
+          this.recordUndo(storeName, "add", storeChanges);
+        }
+      });
+      for (const [storeName, storeChanges] of changes) {
+        this.notifyChange(
+          storeName,
+          "add",
+          storeChanges.map((change) => change.id)
+        );
       }
 
-      console.log("Data imported successfully");
+      console.log("Data imported successfully", summary);
+      return summary;
     } catch (error) {
       console.error("Error importing data:", error);
       throw error;
     }
   }
+
+  // The records an import adds, by store in the order they are written, with
+  // their new keys. References between them point at the new keys. Each
+  // store's records come with the backup records they were made from.
+  private async planImport(
+    data: BackupData,
+    mode: ImportMode,
+    newFields: CustomFieldDefinition[],
+    summary: ImportSummary
+  ): Promise<[StoreName, unknown[], unknown[]][]> {
+    const fieldRecords = newFields.map((field) => ({
+      ...field,
+      _id: createId(),
+    }));
+    summary.customFieldsAdded = fieldRecords.length;
+
+    // Standard names are unique, so only add the ones we don't have yet.
+    // Replace mode keeps none of the existing ones.
+    const existingStandards = new Set(
+      mode === "merge"
+        ? (await this.getAllGhgReportingStandards()).map((s) => s.name)
+        : []
+    );
+    const newStandards: GhgReportingStandard[] = [];
+    const standardSources: GhgReportingStandard[] = [];
+    for (const standard of data.ghg_reporting_standards) {
+      if (existingStandards.has(standard.name)) continue;
+      newStandards.push({ _id: createId(), name: standard.name });
+      standardSources.push(standard);
+      existingStandards.add(standard.name);
+    }
+    summary.standardsAdded = newStandards.length;
+
+    const existingFactors =
+      mode === "merge" ? await this.getAllEmissionFactors() : [];
+    const factorIdMap = new Map<string, RecordId>();
+    const newFactors: EmissionFactor[] = [];
+    const factorSources: EmissionFactor[] = [];
+
+    for (const factor of data.emission_factors) {
+      const oldId = factor._id;
+      const factorData = withoutId(factor);
+      const duplicate = existingFactors.find((existing) =>
+        isSameEmissionFactor(existing, factorData)
+      );
+
+      if (duplicate?._id !== undefined) {
+        if (oldId !== undefined) {
+          factorIdMap.set(String(oldId), duplicate._id);
+        }
+        summary.factorsReused++;
+      } else {
+        const newFactor = { ...factorData, _id: createId() };
+        if (oldId !== undefined) {
+          factorIdMap.set(String(oldId), newFactor._id);
+        }
+        newFactors.push(newFactor);
+        factorSources.push(factor);
+      }
+    }
+    summary.factorsAdded = newFactors.length;
+
+    // Attachments follow their records to the records' new keys
+    const activityIdMap = new Map<string, RecordId>();
+    const newActivities: ReportingActivity[] = [];
+    for (const activity of data.reporting_activities) {
+      const { emissionFactorId, ...activityData } = withoutId(activity);
+      const remappedId =
+        emissionFactorId !== undefined && emissionFactorId !== ""
+          ? factorIdMap.get(String(emissionFactorId))
+          : undefined;
+
+      if (emissionFactorId && !remappedId) {
+        // The backup referenced a factor it doesn't contain. Keep the stored
+        // emissionFactorData snapshot rather than pointing at a wrong factor.
+        summary.unresolvedReferences++;
+      }
+
+      const newActivity = {
+        ...activityData,
+        ...(remappedId ? { emissionFactorId: remappedId } : {}),
+        _id: createId(),
+      };
+      if (activity._id !== undefined) {
+        activityIdMap.set(String(activity._id), newActivity._id);
+      }
+      newActivities.push(newActivity);
+    }
+    summary.activitiesAdded = newActivities.length;
+
+    const ownerIdMaps: Record<AttachmentOwnerStore, Map<string, RecordId>> = {
+      reporting_activities: activityIdMap,
+      emission_factors: factorIdMap,
+    };
+    const existingAttachments = new Map<RecordId, Attachment[]>();
+    const newAttachments: Attachment[] = [];
+    const attachmentSources: Attachment[] = [];
+    for (const encoded of data.attachments ?? []) {
+      const ownerId = ownerIdMaps[encoded.ownerStore]?.get(String(encoded.ownerId));
+      if (!ownerId) continue;
+      // A reused factor may already have the file
+      if (!existingAttachments.has(ownerId)) {
+        existingAttachments.set(
+          ownerId,
+          mode === "merge"
+            ? await this.getAttachments(encoded.ownerStore, ownerId)
+            : []
+        );
+      }
+      const isDuplicate = existingAttachments
+        .get(ownerId)!
+        .some((a) => a.name === encoded.name && a.size === encoded.size);
+      if (isDuplicate) continue;
+
+      const attachment = decodeAttachment(encoded);
+      newAttachments.push({ ...attachment, ownerId, _id: createId() });
+      attachmentSources.push(attachment);
+    }
+    summary.attachmentsAdded = newAttachments.length;
+
+    return [
+      ["emission_factor_fields", fieldRecords, newFields],
+      ["ghg_reporting_standards", newStandards, standardSources],
+      ["emission_factors", newFactors, factorSources],
+      ["reporting_activities", newActivities, data.reporting_activities],
+      ["attachments", newAttachments, attachmentSources],
+    ];
+  }
+}
+
+function isAttachmentOwner(
+  storeName: string
+): storeName is AttachmentOwnerStore {
+  return (
+    storeName === "reporting_activities" || storeName === "emission_factors"
+  );
+}
+
+// Backup data from decrypted records. Attachments of records in the recycle
+// bin stay behind.
+async function toBackupData(
+  data: Omit<BackupData, "attachments"> & { attachments: Attachment[] }
+): Promise<BackupData> {
+  const owners = new Set(
+    [...data.reporting_activities, ...data.emission_factors].map((r) => r._id)
+  );
+  return {
+    ...data,
+    attachments: await Promise.all(
+      data.attachments
+        .filter((attachment) => owners.has(attachment.ownerId))
+        .map(encodeAttachment)
+    ),
+  };
+}
+
+function withoutId<T extends { _id?: string }>(record: T): Omit<T, "_id"> {
+  const copy = { ...record };
+  delete copy._id;
+  return copy;
+}
+
+// Two factors are considered the same when every value that feeds into a
+// calculation or a report matches
+export function isSameEmissionFactor(
+  a: Omit<EmissionFactor, "_id">,
+  b: Omit<EmissionFactor, "_id">
+): boolean {
+  return (
+    a.description === b.description &&
+    a.scope === b.scope &&
+    a.category === b.category &&
+    a.location === b.location &&
+    a.unit === b.unit &&
+    a.methodType === b.methodType &&
+    a.co2ePerUnit === b.co2ePerUnit &&
+    a.emissionFactorUnit === b.emissionFactorUnit &&
+    a.ghgReportingStandard === b.ghgReportingStandard &&
+    JSON.stringify(a.versions ?? []) === JSON.stringify(b.versions ?? []) &&
+    isSameCustomValues(a.custom ?? {}, b.custom ?? {})
+  );
+}
+
+function isSameCustomValues(
+  a: NonNullable<EmissionFactor["custom"]>,
+  b: NonNullable<EmissionFactor["custom"]>
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
+// Custom fields as checked when saving. Values that are present must be
+// valid, but a required field is only enforced by the forms and CSV import,
+// so factors saved before it existed, factor pack factors and older backups
+// can still be written.
+function writeRules(
+  customFields: CustomFieldDefinition[]
+): CustomFieldDefinition[] {
+  return customFields.map((field) => ({ ...field, required: false }));
+}
+
+// The custom fields in a backup that can be added: a field whose key is
+// already defined keeps the existing definition
+function newCustomFields(
+  existing: CustomFieldDefinition[],
+  incoming: CustomFieldDefinition[]
+): CustomFieldDefinition[] {
+  const added: CustomFieldDefinition[] = [];
+  for (const field of incoming) {
+    if (validateCustomField(field, [...existing, ...added]) === null) {
+      added.push(field);
+    }
+  }
+  return added;
 }
 
-// Create and export singleton instance
-const indexedDBService = new IndexedDBService();
+// Copy every store as stored, replacing what the target held
+async function copyStores(
+  source: StorageAdapter,
+  target: StorageAdapter
+): Promise<void> {
+  const storeNames = source.storeNames();
+  const records = await source.transaction(
+    storeNames,
+    "readonly",
+    async (transaction) => {
+      const result: Record<string, unknown[]> = {};
+      for (const storeName of storeNames) {
+        result[storeName] = await transaction.getAll(storeName);
+      }
+      return result;
+    }
+  );
+
+  await target.transaction(storeNames, "readwrite", async (transaction) => {
+    for (const storeName of storeNames) {
+      await transaction.clear(storeName);
+      await Promise.all(
+        records[storeName].map((record) => transaction.put(storeName, record))
+      );
+    }
+  });
+}
+
+const sizeEncoder = new TextEncoder();
+
+// Bytes a record takes as JSON, with binary data counted at its own size
+function estimateRecordSize(value: unknown): number {
+  let binaryBytes = 0;
+  const json = JSON.stringify(value, (_key, field) => {
+    if (field instanceof Blob) {
+      binaryBytes += field.size;
+      return null;
+    }
+    if (field instanceof ArrayBuffer || ArrayBuffer.isView(field)) {
+      binaryBytes += field.byteLength;
+      return null;
+    }
+    return field;
+  });
+  return binaryBytes + (json ? sizeEncoder.encode(json).length : 0);
+}
+
+// Open failures that mean this browser won't give us IndexedDB at all (private
+// mode, blocked storage), as opposed to a database we must not touch: one
+// whose upgrade failed or that a newer version of the app has written
+function canFallBack(error: unknown): boolean {
+  if (typeof window === "undefined") return false;
+  if (error instanceof MigrationError) return false;
+  return !(error instanceof DOMException && error.name === "VersionError");
+}
+
+// Create and export singleton instance for the active workspace
+const activeWorkspaceId = workspaceManager.getActiveWorkspace().id;
+const indexedDBService = new IndexedDBService(
+  new IndexedDBAdapter(workspaceManager.getDatabaseName(activeWorkspaceId)),
+  {
+    workspaceId: activeWorkspaceId,
+    vault,
+    events: new DataEventBus(
+      `carbon-hub-changes-${workspaceManager.getDatabaseName(activeWorkspaceId)}`
+    ),
+    // Keep the app usable without IndexedDB, holding the data in memory
+    fallback: () => new MemoryAdapter(),
+  }
+);
 
 // Initialize the service when the module is loaded
 indexedDBService
@@ -436,4 +2447,10 @@ indexedDBService
   });
 
 export default indexedDBService;
-export type { ReportingActivity, EmissionFactor, GhgReportingStandard };
+export { IndexedDBService };
+export type { MigrationProgress, BackupData, ImportMode, ImportSummary };
+export type { SealedBackupData };
+export type { VaultStatus, Workspace, AuditEntry, AuditedStore };
+export type { RecycleBinEntry, RestoreSummary, BulkOptions, StoreUsage };
+export type { QueryFilter, QueryOptions, QueryPage, SortFields };
+export type { DataChange, StorageKind };
@@ -0,0 +1,277 @@
+// IndexedDB storage backend
+// Opens the database, runs pending migrations and wraps IndexedDB requests
+// in promises for IndexedDBService.
+
+import {
+  LATEST_SCHEMA_VERSION,
+  MigrationError,
+  runMigrations,
+  type MigrationProgress,
+} from "./migrations";
+import type {
+  CursorPosition,
+  KeyRange,
+  OpenHandlers,
+  StorageAdapter,
+  StorageKind,
+  StorageTransaction,
+  StoreQuery,
+} from "./storageAdapter";
+
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly kind: StorageKind = "indexeddb";
+  private dbName: string;
+  private version = LATEST_SCHEMA_VERSION;
+  private db: IDBDatabase | null = null;
+
+  constructor(dbName: string) {
+    this.dbName = dbName;
+  }
+
+  open(handlers: OpenHandlers = {}): Promise<void> {
+    console.log("IndexedDB: Initializing database...");
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+      let migrationError: MigrationError | null = null;
+      let lastProgress: MigrationProgress | null = null;
+      const reportProgress = (progress: MigrationProgress) => {
+        lastProgress = progress;
+        handlers.onMigrationProgress?.(progress);
+      };
+
+      request.onerror = () => {
+        const error = migrationError ?? request.error;
+        console.error("IndexedDB: Database initialization error:", error);
+        reject(error);
+      };
+
+      request.onblocked = () => {
+        console.warn(
+          "IndexedDB: Upgrade blocked by another open tab, waiting for it to close"
+        );
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        // Let another tab running a newer version upgrade the database
+        this.db.onversionchange = () => {
+          this.close();
+          handlers.onClose?.();
+        };
+        if (lastProgress) {
+          reportProgress({
+            ...lastProgress,
+            status: "completed",
+            currentVersion: null,
+            description: "",
+            completed: lastProgress.total,
+          });
+        }
+        console.log("IndexedDB: Database initialized successfully");
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        console.log(
+          `IndexedDB: Upgrading database from version ${event.oldVersion} to ${event.newVersion}`
+        );
+        const transaction = request.transaction!;
+
+        runMigrations(
+          {
+            db: request.result,
+            transaction,
+            oldVersion: event.oldVersion,
+          },
+          reportProgress
+        ).catch((error) => {
+          console.error("IndexedDB: Migration failed:", error);
+          migrationError =
+            error instanceof MigrationError
+              ? error
+              : new MigrationError(this.version, "Unknown migration", error);
+          // Roll back every migration in this upgrade, leaving the data as it was
+          transaction.abort();
+        });
+      };
+    });
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  storeNames(): string[] {
+    return Array.from(this.requireDb().objectStoreNames);
+  }
+
+  // The transaction commits once the operation has finished and every request
+  // it made has completed. Rejected requests don't abort the transaction by
+  // themselves; the operation decides by throwing or catching the error.
+  async transaction<T>(
+    storeNames: string[],
+    mode: "readonly" | "readwrite",
+    operation: (transaction: StorageTransaction) => Promise<T>
+  ): Promise<T> {
+    const transaction = this.requireDb().transaction(storeNames, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () =>
+        reject(
+          transaction.error ??
+            new DOMException("The transaction was aborted.", "AbortError")
+        );
+    });
+
+    let result: T;
+    try {
+      result = await operation(wrapTransaction(transaction));
+    } catch (error) {
+      try {
+        transaction.abort();
+      } catch {
+        // Already finished
+      }
+      committed.catch(() => {});
+      throw error;
+    }
+    await committed;
+    return result;
+  }
+
+  private requireDb(): IDBDatabase {
+    if (!this.db) {
+      throw new DOMException("The database is not open.", "InvalidStateError");
+    }
+    return this.db;
+  }
+}
+
+function wrapTransaction(transaction: IDBTransaction): StorageTransaction {
+  const source = (storeName: string, index?: string) => {
+    const store = transaction.objectStore(storeName);
+    return index ? store.index(index) : store;
+  };
+
+  return {
+    get: (storeName, key) =>
+      requestToPromise(transaction.objectStore(storeName).get(key)),
+
+    getAll: (storeName, query = {}) =>
+      requestToPromise(
+        source(storeName, query.index).getAll(toIDBKeyRange(query.range))
+      ),
+
+    count: (storeName, query = {}) =>
+      requestToPromise(
+        source(storeName, query.index).count(
+          toIDBKeyRange(query.range) ?? undefined
+        )
+      ),
+
+    add: (storeName, value) =>
+      requestToPromise(transaction.objectStore(storeName).add(value)),
+
+    put: (storeName, value) =>
+      requestToPromise(transaction.objectStore(storeName).put(value)),
+
+    delete: (storeName, key) =>
+      requestToPromise(transaction.objectStore(storeName).delete(key)),
+
+    clear: (storeName) =>
+      requestToPromise(transaction.objectStore(storeName).clear()),
+
+    iterate: (storeName, query, visit) =>
+      new Promise((resolve, reject) => {
+        const direction = query.direction ?? "next";
+        const request = source(storeName, query.index).openCursor(
+          toIDBKeyRange(query.range),
+          direction
+        );
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          if (query.after && !skipToCursor(cursor, query.after, direction)) {
+            return;
+          }
+          const keepGoing = visit({
+            key: cursor.key,
+            primaryKey: cursor.primaryKey,
+            value: cursor.value,
+          });
+          if (keepGoing) {
+            cursor.continue();
+          } else {
+            resolve();
+          }
+        };
+        request.onerror = (event) => {
+          event.preventDefault();
+          reject(request.error);
+        };
+      }),
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = (event) => {
+      // Leave it to the operation whether this error aborts the transaction
+      event.preventDefault();
+      event.stopPropagation();
+      reject(request.error);
+    };
+  });
+}
+
+function toIDBKeyRange(range?: KeyRange): IDBKeyRange | null {
+  if (!range) return null;
+  const { lower, upper, lowerOpen = false, upperOpen = false } = range;
+  if (lower !== undefined && upper !== undefined) {
+    return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return null;
+}
+
+// Move a cursor past the end of the previous page. Returns true once the
+// cursor is on the first record after `after`; otherwise it has been
+// advanced and the caller should wait for the next success event.
+function skipToCursor(
+  cursor: IDBCursorWithValue,
+  after: CursorPosition,
+  direction: StoreQuery["direction"]
+): boolean {
+  const comparison =
+    indexedDB.cmp(cursor.key, after.key) ||
+    indexedDB.cmp(cursor.primaryKey, after.primaryKey);
+  if (direction === "prev" ? comparison < 0 : comparison > 0) {
+    return true;
+  }
+
+  if (comparison === 0) {
+    cursor.continue();
+  } else if (cursor.source instanceof IDBIndex) {
+    cursor.continuePrimaryKey(after.key, after.primaryKey);
+  } else {
+    cursor.continue(after.key);
+  }
+  return false;
+}
+
+export function deleteDatabase(name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn(`IndexedDB: Deleting ${name} is waiting for other tabs to close it`);
+    };
+  });
+}
@@ -0,0 +1,99 @@
+// Referential integrity between activities and emission factors
+// An activity refers to the emission factor it was calculated with. Deleting
+// a factor that activities still use needs a decision about those activities;
+// editing a factor's values recalculates them.
+
+import { effectiveCo2ePerUnit } from "./factorVersions";
+import type { RecordId } from "./ids";
+import type { EmissionFactor, ReportingActivity } from "../domain";
+
+// What happens to the activities using an emission factor that is deleted
+export type DependentPolicy =
+  // Refuse to delete the factor
+  | { action: "block" }
+  // Point the activities at another factor and recalculate them
+  | { action: "reassign"; factorId: RecordId }
+  // Unlink the activities, keeping a copy of the deleted factor's values
+  | { action: "detach" };
+
+export interface FactorDeleteSummary {
+  reassignedActivities: number;
+  detachedActivities: number;
+}
+
+export interface FactorUpdateSummary {
+  recalculatedActivities: number;
+}
+
+export class ReferentialIntegrityError extends Error {
+  readonly dependentActivityIds: RecordId[];
+
+  constructor(dependentActivityIds: RecordId[]) {
+    super(
+      `${dependentActivityIds.length} reporting activities still use this emission factor. Reassign or detach them first.`
+    );
+    this.name = "ReferentialIntegrityError";
+    this.dependentActivityIds = dependentActivityIds;
+  }
+}
+
+// Factor fields copied into every activity that uses the factor
+const SNAPSHOT_FIELDS = [
+  "description",
+  "co2ePerUnit",
+  "emissionFactorUnit",
+  "unit",
+] as const;
+
+// The factor's values as they apply to an activity's reporting period
+export function factorSnapshot(
+  factor: EmissionFactor,
+  activity: Pick<ReportingActivity, "reportingPeriodStart" | "reportingPeriodEnd">
+): NonNullable<ReportingActivity["emissionFactorData"]> {
+  return {
+    description: factor.description,
+    co2ePerUnit: effectiveCo2ePerUnit(
+      factor,
+      activity.reportingPeriodStart,
+      activity.reportingPeriodEnd
+    ),
+    emissionFactorUnit: factor.emissionFactorUnit,
+    unit: factor.unit,
+  };
+}
+
+// True when an edit changes what the factor's activities show or calculate
+export function changesActivities(
+  before: EmissionFactor,
+  after: EmissionFactor
+): boolean {
+  return (
+    SNAPSHOT_FIELDS.some((field) => before[field] !== after[field]) ||
+    JSON.stringify(before.versions ?? []) !== JSON.stringify(after.versions ?? [])
+  );
+}
+
+export function linkToFactor<T extends Omit<ReportingActivity, "_id">>(
+  activity: T,
+  factor: EmissionFactor
+): T {
+  const emissionFactorData = factorSnapshot(factor, activity);
+  return {
+    ...activity,
+    emissionFactorId: factor._id,
+    emissionFactorData,
+    calculatedEmissions: activity.quantity * emissionFactorData.co2ePerUnit,
+  };
+}
+
+// The activity keeps the deleted factor's values, so its emissions stay as
+// they were
+export function detachFromFactor(
+  activity: ReportingActivity,
+  factor: EmissionFactor
+): ReportingActivity {
+  return {
+    ...linkToFactor(activity, factor),
+    emissionFactorId: undefined,
+  };
+}
@@ -0,0 +1,153 @@
+// JSON file storage backend
+// Keeps the data in memory like MemoryAdapter and writes the whole database
+// to a JSON file after every change, so data kept without IndexedDB can be
+// picked up again from the same file after a reload.
+
+import { base64ToBlob, blobToBase64 } from "./attachments";
+import { MemoryAdapter } from "./memoryAdapter";
+import { LATEST_SCHEMA_VERSION } from "./migrations";
+import type { StorageKind } from "./storageAdapter";
+
+export const STORAGE_FILE_FORMAT = "carbon-hub-store";
+
+// Where the file is read from and written to
+export interface JsonFile {
+  name: string;
+  // null when the file is new or empty
+  read(): Promise<string | null>;
+  write(text: string): Promise<void>;
+}
+
+interface StorageFileContents {
+  format: typeof STORAGE_FILE_FORMAT;
+  schemaVersion: number;
+  savedAt: string;
+  stores: Record<string, { lastKey: number; records: unknown[] }>;
+}
+
+export class StorageFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageFileError";
+  }
+}
+
+export class JsonFileAdapter extends MemoryAdapter {
+  readonly kind: StorageKind = "file";
+  private file: JsonFile;
+
+  constructor(file: JsonFile) {
+    super();
+    this.file = file;
+  }
+
+  get fileName(): string {
+    return this.file.name;
+  }
+
+  async open(): Promise<void> {
+    const text = await this.file.read();
+    if (text === null) {
+      console.log(`FileStorage: Starting a new data file ${this.file.name}`);
+      return;
+    }
+
+    const contents = parseStorageFile(text);
+    Object.entries(contents.stores).forEach(([storeName, saved]) =>
+      this.loadStore(storeName, saved.records.map(decodeBlobs), saved.lastKey)
+    );
+    console.log(`FileStorage: Loaded data from ${this.file.name}`);
+  }
+
+  protected async persist(): Promise<void> {
+    const contents: StorageFileContents = {
+      format: STORAGE_FILE_FORMAT,
+      schemaVersion: LATEST_SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      stores: {},
+    };
+    for (const [storeName, store] of this.stores) {
+      contents.stores[storeName] = {
+        lastKey: store.lastKey,
+        records: await Promise.all(
+          Array.from(store.entries.values()).map(({ value }) =>
+            encodeBlobs(value)
+          )
+        ),
+      };
+    }
+    await this.file.write(JSON.stringify(contents));
+  }
+}
+
+// Blobs (attachment contents) don't survive JSON, so record fields holding
+// one are written as base64 and turned back into Blobs on load
+interface EncodedBlob {
+  $blob: string;
+  type: string;
+}
+
+async function encodeBlobs(record: unknown): Promise<unknown> {
+  if (!record || typeof record !== "object") return record;
+  const encoded: Record<string, unknown> = { ...record };
+  for (const [field, value] of Object.entries(encoded)) {
+    if (value instanceof Blob) {
+      const blob: EncodedBlob = {
+        $blob: await blobToBase64(value),
+        type: value.type,
+      };
+      encoded[field] = blob;
+    }
+  }
+  return encoded;
+}
+
+function decodeBlobs(record: unknown): unknown {
+  if (!record || typeof record !== "object") return record;
+  const decoded: Record<string, unknown> = { ...record };
+  for (const [field, value] of Object.entries(decoded)) {
+    const blob = value as EncodedBlob | null;
+    if (blob && typeof blob === "object" && typeof blob.$blob === "string") {
+      decoded[field] = base64ToBlob(blob.$blob, blob.type);
+    }
+  }
+  return decoded;
+}
+
+function parseStorageFile(text: string): StorageFileContents {
+  let parsed: Partial<StorageFileContents>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new StorageFileError("The data file is not valid JSON.");
+  }
+
+  if (!parsed || parsed.format !== STORAGE_FILE_FORMAT || !parsed.stores) {
+    throw new StorageFileError("The file is not a Carbon Hub data file.");
+  }
+  if (
+    typeof parsed.schemaVersion !== "number" ||
+    parsed.schemaVersion > LATEST_SCHEMA_VERSION
+  ) {
+    throw new StorageFileError(
+      `The data file was saved by a newer version of Carbon Hub (schema version ${parsed.schemaVersion}). Please update Carbon Hub before opening it.`
+    );
+  }
+  return parsed as StorageFileContents;
+}
+
+// A JsonFile on the user's disk, picked with the File System Access API
+export function fileHandleStorage(handle: FileSystemFileHandle): JsonFile {
+  return {
+    name: handle.name,
+    read: async () => {
+      const text = await (await handle.getFile()).text();
+      return text.trim() ? text : null;
+    },
+    write: async (text) => {
+      const writable = await handle.createWritable();
+      await writable.write(text);
+      await writable.close();
+    },
+  };
+}
@@ -0,0 +1,312 @@
+// In-memory storage backend
+// Used when IndexedDB can't be opened. Records live only as long as the page
+// unless a subclass persists them (see jsonFileAdapter.ts). Transactions run
+// one at a time and are rolled back if their operation throws.
+
+import {
+  compareKeys,
+  extractKey,
+  isInRange,
+  STORE_SCHEMAS,
+  type CursorPosition,
+  type StorageAdapter,
+  type StorageKind,
+  type StorageTransaction,
+  type StoredRecord,
+  type StoreQuery,
+  type StoreSchema,
+} from "./storageAdapter";
+
+interface StoredEntry {
+  key: IDBValidKey;
+  value: unknown;
+}
+
+export interface MemoryStore {
+  schema: StoreSchema;
+  // Keyed by the serialized primary key
+  entries: Map<string, StoredEntry>;
+  // Last key handed out to an autoIncrement store
+  lastKey: number;
+}
+
+// How to put a store back the way it was before a failed transaction
+interface JournalEntry {
+  store: MemoryStore;
+  entries: Map<string, StoredEntry>;
+  lastKey: number;
+}
+
+export class MemoryAdapter implements StorageAdapter {
+  readonly kind: StorageKind = "memory";
+  protected stores = new Map<string, MemoryStore>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(schemas: Record<string, StoreSchema> = STORE_SCHEMAS) {
+    Object.entries(schemas).forEach(([storeName, schema]) => {
+      this.stores.set(storeName, { schema, entries: new Map(), lastKey: 0 });
+    });
+  }
+
+  async open(): Promise<void> {
+    console.log("MemoryStorage: Ready, data will be lost when the page closes");
+  }
+
+  close(): void {}
+
+  storeNames(): string[] {
+    return Array.from(this.stores.keys());
+  }
+
+  transaction<T>(
+    storeNames: string[],
+    mode: "readonly" | "readwrite",
+    operation: (transaction: StorageTransaction) => Promise<T>
+  ): Promise<T> {
+    const run = this.queue.then(() =>
+      this.runTransaction(storeNames, mode, operation)
+    );
+    // A failed transaction must not hold up the ones queued behind it
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  // Replace a store's contents, e.g. with records read back from a file
+  protected loadStore(
+    storeName: string,
+    records: unknown[],
+    lastKey: number
+  ): void {
+    const store = this.stores.get(storeName);
+    if (!store) return;
+    store.entries = new Map();
+    store.lastKey = lastKey;
+    records.forEach((record) => {
+      const key = extractKey(record, store.schema.keyPath);
+      if (key !== undefined) {
+        store.entries.set(serializeKey(key), { key, value: record });
+      }
+    });
+  }
+
+  // Called once a read-write transaction's operation has finished, before it
+  // counts as committed. Throwing rolls the transaction back.
+  protected async persist(): Promise<void> {}
+
+  private async runTransaction<T>(
+    storeNames: string[],
+    mode: "readonly" | "readwrite",
+    operation: (transaction: StorageTransaction) => Promise<T>
+  ): Promise<T> {
+    const journal = new Map<string, JournalEntry>();
+    const scope = new Map(
+      storeNames.map((storeName) => [storeName, this.getStore(storeName)])
+    );
+
+    let finished = false;
+
+    const access = (storeName: string, write: boolean): MemoryStore => {
+      // Like IndexedDB, requests made after the operation settled are refused
+      if (finished) {
+        throw new DOMException(
+          "The transaction has finished.",
+          "TransactionInactiveError"
+        );
+      }
+      const store = scope.get(storeName);
+      if (!store) {
+        throw new DOMException(
+          `Store ${storeName} is not part of this transaction.`,
+          "NotFoundError"
+        );
+      }
+      if (write) {
+        if (mode === "readonly") {
+          throw new DOMException(
+            "Cannot write in a read-only transaction.",
+            "ReadOnlyError"
+          );
+        }
+        if (!journal.has(storeName)) {
+          journal.set(storeName, {
+            store,
+            entries: new Map(store.entries),
+            lastKey: store.lastKey,
+          });
+        }
+      }
+      return store;
+    };
+
+    try {
+      const result = await operation(this.createTransaction(access));
+      finished = true;
+      if (journal.size > 0) {
+        await this.persist();
+      }
+      return result;
+    } catch (error) {
+      finished = true;
+      journal.forEach(({ store, entries, lastKey }) => {
+        store.entries = entries;
+        store.lastKey = lastKey;
+      });
+      throw error;
+    }
+  }
+
+  private createTransaction(
+    access: (storeName: string, write: boolean) => MemoryStore
+  ): StorageTransaction {
+    return {
+      get: async (storeName, key) => {
+        const entry = access(storeName, false).entries.get(serializeKey(key));
+        return entry ? structuredClone(entry.value) : undefined;
+      },
+
+      getAll: async (storeName, query = {}) => {
+        return this.select(access(storeName, false), query).map((record) =>
+          structuredClone(record.value)
+        );
+      },
+
+      count: async (storeName, query = {}) => {
+        return this.select(access(storeName, false), query).length;
+      },
+
+      add: async (storeName, value) => {
+        return this.write(access(storeName, true), value, false);
+      },
+
+      put: async (storeName, value) => {
+        return this.write(access(storeName, true), value, true);
+      },
+
+      delete: async (storeName, key) => {
+        access(storeName, true).entries.delete(serializeKey(key));
+      },
+
+      clear: async (storeName) => {
+        access(storeName, true).entries = new Map();
+      },
+
+      iterate: async (storeName, query, visit) => {
+        let records = this.select(access(storeName, false), query);
+        const after = query.after;
+        if (after) {
+          records = records.filter((record) =>
+            isPastPosition(record, after, query.direction)
+          );
+        }
+        for (const record of records) {
+          if (!visit({ ...record, value: structuredClone(record.value) })) {
+            break;
+          }
+        }
+      },
+    };
+  }
+
+  // Records in the store or index, in cursor order
+  private select(store: MemoryStore, query: StoreQuery): StoredRecord[] {
+    const records: StoredRecord[] = [];
+    const index = query.index
+      ? store.schema.indexes.find(({ name }) => name === query.index)
+      : null;
+    if (query.index && !index) {
+      throw new DOMException(`Index ${query.index} does not exist.`, "NotFoundError");
+    }
+
+    store.entries.forEach(({ key: primaryKey, value }) => {
+      const key = index ? extractKey(value, index.keyPath) : primaryKey;
+      if (key !== undefined && isInRange(key, query.range)) {
+        records.push({ key, primaryKey, value });
+      }
+    });
+    records.sort(
+      (a, b) =>
+        compareKeys(a.key, b.key) || compareKeys(a.primaryKey, b.primaryKey)
+    );
+    return query.direction === "prev" ? records.reverse() : records;
+  }
+
+  private write(store: MemoryStore, value: unknown, overwrite: boolean): IDBValidKey {
+    const { keyPath, autoIncrement } = store.schema;
+    const record = structuredClone(value) as Record<string, unknown>;
+    let key = extractKey(record, keyPath);
+
+    if (key === undefined) {
+      if (!autoIncrement) {
+        throw new DOMException(
+          `The record has no valid ${keyPath} key.`,
+          "DataError"
+        );
+      }
+      key = ++store.lastKey;
+      record[keyPath] = key;
+    } else if (autoIncrement && typeof key === "number") {
+      store.lastKey = Math.max(store.lastKey, Math.floor(key));
+    }
+
+    const id = serializeKey(key);
+    if (!overwrite && store.entries.has(id)) {
+      throw new DOMException(
+        `A record with key ${id} already exists.`,
+        "ConstraintError"
+      );
+    }
+    this.checkUniqueIndexes(store, id, record);
+    store.entries.set(id, { key, value: record });
+    return key;
+  }
+
+  private checkUniqueIndexes(
+    store: MemoryStore,
+    id: string,
+    record: unknown
+  ): void {
+    store.schema.indexes
+      .filter((index) => index.unique)
+      .forEach((index) => {
+        const key = extractKey(record, index.keyPath);
+        if (key === undefined) return;
+        store.entries.forEach((entry, otherId) => {
+          const other = extractKey(entry.value, index.keyPath);
+          if (
+            otherId !== id &&
+            other !== undefined &&
+            compareKeys(key, other) === 0
+          ) {
+            throw new DOMException(
+              `Index ${index.name} already has a record with this value.`,
+              "ConstraintError"
+            );
+          }
+        });
+      });
+  }
+
+  private getStore(storeName: string): MemoryStore {
+    const store = this.stores.get(storeName);
+    if (!store) {
+      throw new DOMException(`Store ${storeName} does not exist.`, "NotFoundError");
+    }
+    return store;
+  }
+}
+
+function serializeKey(key: IDBValidKey): string {
+  if (key instanceof Date) return `date:${key.getTime()}`;
+  return JSON.stringify(key);
+}
+
+function isPastPosition(
+  record: StoredRecord,
+  position: CursorPosition,
+  direction: StoreQuery["direction"]
+): boolean {
+  const comparison =
+    compareKeys(record.key, position.key) ||
+    compareKeys(record.primaryKey, position.primaryKey);
+  return direction === "prev" ? comparison < 0 : comparison > 0;
+}
@@ -0,0 +1,575 @@
+// Versioned schema migrations for CarbonHubDB
+// Each migration upgrades the database by exactly one version. To evolve the
+// schema, append a new entry to the `migrations` array with the next version
+// number - never edit a migration that has already shipped. Stores and
+// indexes added here must also be added to STORE_SCHEMAS in storageAdapter.ts,
+// which the in-memory and file backends are built from.
+
+import { effectiveCo2ePerUnit, type FactorVersion } from "./factorVersions";
+import { createId, type RecordId } from "./ids";
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  // The versionchange transaction. Migrations must only await requests made on
+  // this transaction, otherwise it auto-commits before the migration finishes.
+  transaction: IDBTransaction;
+  // Version the database was at before the upgrade started (0 for a new database)
+  oldVersion: number;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (context: MigrationContext) => Promise<void>;
+}
+
+export interface MigrationProgress {
+  status: "running" | "completed" | "failed";
+  fromVersion: number;
+  toVersion: number;
+  // Migration currently running (or the one that failed)
+  currentVersion: number | null;
+  description: string;
+  completed: number;
+  total: number;
+  error?: string;
+}
+
+export class MigrationError extends Error {
+  version: number;
+  cause: unknown;
+
+  constructor(version: number, description: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration to version ${version} (${description}) failed: ${reason}`);
+    this.name = "MigrationError";
+    this.version = version;
+    this.cause = cause;
+  }
+}
+
+// ============================================================================
+// Helpers for writing migrations
+// ============================================================================
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createStoreIfMissing(
+  context: MigrationContext,
+  storeName: string,
+  options: IDBObjectStoreParameters
+): IDBObjectStore {
+  if (context.db.objectStoreNames.contains(storeName)) {
+    return context.transaction.objectStore(storeName);
+  }
+  console.log(`IndexedDB: Creating ${storeName} store`);
+  return context.db.createObjectStore(storeName, options);
+}
+
+export function createIndexIfMissing(
+  store: IDBObjectStore,
+  indexName: string,
+  keyPath: string | string[],
+  options?: IDBIndexParameters
+): void {
+  if (!store.indexNames.contains(indexName)) {
+    store.createIndex(indexName, keyPath, options);
+  }
+}
+
+// Replace a store with an empty one created with `options`, keeping its
+// indexes. Resolves with the new store and the records the old one held, in
+// key order, for the caller to write back.
+export async function recreateStore(
+  context: MigrationContext,
+  storeName: string,
+  options: IDBObjectStoreParameters
+): Promise<{ store: IDBObjectStore; records: unknown[] }> {
+  const oldStore = context.transaction.objectStore(storeName);
+  const records = await requestToPromise(oldStore.getAll());
+  const indexes = Array.from(oldStore.indexNames).map((indexName) => {
+    const index = oldStore.index(indexName);
+    return {
+      name: index.name,
+      keyPath: index.keyPath,
+      options: { unique: index.unique, multiEntry: index.multiEntry },
+    };
+  });
+
+  context.db.deleteObjectStore(storeName);
+  const store = context.db.createObjectStore(storeName, options);
+  indexes.forEach(({ name, keyPath, options }) =>
+    store.createIndex(name, keyPath, options)
+  );
+  return { store, records };
+}
+
+// Walk every record in a store and replace it with the value returned by
+// `transform`. Returning undefined leaves the record untouched.
+// Resolves with the number of records that were rewritten.
+export function transformRecords<T>(
+  store: IDBObjectStore,
+  transform: (record: T) => T | undefined
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let updated = 0;
+    const request = store.openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(updated);
+        return;
+      }
+
+      try {
+        const next = transform(cursor.value as T);
+        if (next !== undefined) {
+          cursor.update(next);
+          updated++;
+        }
+        cursor.continue();
+      } catch (error) {
+        reject(error);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================================================
+// Migration registry
+// ============================================================================
+
+interface StoredFactor {
+  _id: IDBValidKey;
+  description: string;
+  co2ePerUnit: number;
+  emissionFactorUnit: string;
+  unit: string;
+  versions?: FactorVersion[];
+}
+
+interface StoredActivity {
+  reportingPeriodStart: string;
+  reportingPeriodEnd: string;
+  quantity: number;
+  emissionFactorId?: string | number;
+  emissionFactorData?: Omit<StoredFactor, "_id">;
+  calculatedEmissions?: number;
+}
+
+type LegacyRecord = Record<string, unknown>;
+
+// Old emission factor keys mapped to their UUIDs, kept in app_meta when
+// encrypted activities still refer to factors by their old keys
+export interface IdRemap {
+  key: typeof ID_REMAP_KEY;
+  emission_factors: Record<string, RecordId>;
+}
+
+export const ID_REMAP_KEY = "id_remap";
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Create activity, emission factor and GHG standard stores",
+    migrate: async (context) => {
+      const activityStore = createStoreIfMissing(
+        context,
+        "reporting_activities",
+        { keyPath: "_id", autoIncrement: true }
+      );
+      createIndexIfMissing(activityStore, "scope", "scope", { unique: false });
+      createIndexIfMissing(activityStore, "category", "category", {
+        unique: false,
+      });
+      createIndexIfMissing(activityStore, "location", "location", {
+        unique: false,
+      });
+
+      const factorStore = createStoreIfMissing(context, "emission_factors", {
+        keyPath: "_id",
+        autoIncrement: true,
+      });
+      createIndexIfMissing(factorStore, "scope", "scope", { unique: false });
+      createIndexIfMissing(factorStore, "category", "category", {
+        unique: false,
+      });
+      createIndexIfMissing(factorStore, "location", "location", {
+        unique: false,
+      });
+
+      const standardStore = createStoreIfMissing(
+        context,
+        "ghg_reporting_standards",
+        { keyPath: "_id", autoIncrement: true }
+      );
+      createIndexIfMissing(standardStore, "name", "name", { unique: true });
+    },
+  },
+  {
+    version: 2,
+    description:
+      "Backfill emissionFactorData and calculatedEmissions on reporting activities",
+    migrate: async (context) => {
+      const factors = await requestToPromise(
+        context.transaction.objectStore("emission_factors").getAll()
+      );
+      // Activities stored the factor ID as a string while the store key is a
+      // number, so index the lookup by the string form of the key.
+      const factorsById = new Map<string, StoredFactor>();
+      (factors as StoredFactor[]).forEach((factor) =>
+        factorsById.set(String(factor._id), factor)
+      );
+
+      const updated = await transformRecords<StoredActivity>(
+        context.transaction.objectStore("reporting_activities"),
+        (activity) => {
+          if (activity.emissionFactorData) {
+            if (
+              activity.calculatedEmissions === undefined ||
+              activity.calculatedEmissions === null
+            ) {
+              return {
+                ...activity,
+                calculatedEmissions:
+                  activity.quantity * activity.emissionFactorData.co2ePerUnit,
+              };
+            }
+            return undefined;
+          }
+
+          const factor = factorsById.get(String(activity.emissionFactorId));
+          if (!factor) return undefined;
+
+          return {
+            ...activity,
+            emissionFactorData: {
+              description: factor.description,
+              co2ePerUnit: factor.co2ePerUnit,
+              emissionFactorUnit: factor.emissionFactorUnit,
+              unit: factor.unit,
+            },
+            calculatedEmissions:
+              activity.calculatedEmissions ??
+              activity.quantity * factor.co2ePerUnit,
+          };
+        }
+      );
+      console.log(`IndexedDB: Backfilled ${updated} reporting activities`);
+    },
+  },
+  {
+    version: 3,
+    description: "Create app_meta store for application settings",
+    migrate: async (context) => {
+      createStoreIfMissing(context, "app_meta", { keyPath: "key" });
+    },
+  },
+  {
+    version: 4,
+    description: "Create audit_log store for change history",
+    migrate: async (context) => {
+      const store = createStoreIfMissing(context, "audit_log", {
+        keyPath: "_id",
+        autoIncrement: true,
+      });
+      createIndexIfMissing(store, "record", ["storeName", "recordId"]);
+      createIndexIfMissing(store, "timestamp", "timestamp");
+    },
+  },
+  {
+    version: 5,
+    description: "Create recycle_bin store for deleted records",
+    migrate: async (context) => {
+      const store = createStoreIfMissing(context, "recycle_bin", {
+        keyPath: "_id",
+        autoIncrement: true,
+      });
+      createIndexIfMissing(store, "deletedAt", "deletedAt");
+    },
+  },
+  {
+    version: 6,
+    description: "Add compound filter and sort indexes for paginated queries",
+    migrate: async (context) => {
+      const activityStore = context.transaction.objectStore(
+        "reporting_activities"
+      );
+      createIndexIfMissing(activityStore, "scope_category_location", [
+        "scope",
+        "category",
+        "location",
+      ]);
+      createIndexIfMissing(activityStore, "activityName", "activityName");
+      createIndexIfMissing(
+        activityStore,
+        "reportingPeriodStart",
+        "reportingPeriodStart"
+      );
+
+      const factorStore = context.transaction.objectStore("emission_factors");
+      createIndexIfMissing(factorStore, "scope_category_location", [
+        "scope",
+        "category",
+        "location",
+      ]);
+      createIndexIfMissing(factorStore, "description", "description");
+      createIndexIfMissing(factorStore, "co2ePerUnit", "co2ePerUnit");
+    },
+  },
+  {
+    version: 7,
+    description: "Key every record by a UUID and rewrite references to old keys",
+    migrate: async (context) => {
+      // The same old key always gets the same UUID, whether it is met as a
+      // record's key or as a reference to the record
+      const newIds = new Map<string, Map<string, RecordId>>();
+      const remapId = (storeName: string, oldId: unknown): RecordId => {
+        if (!newIds.has(storeName)) newIds.set(storeName, new Map());
+        const ids = newIds.get(storeName)!;
+        let id = ids.get(String(oldId));
+        if (!id) {
+          id = createId();
+          ids.set(String(oldId), id);
+        }
+        return id;
+      };
+
+      let sealedActivities = false;
+      const remapRecord = (
+        storeName: string,
+        record: LegacyRecord | null
+      ): LegacyRecord | null => {
+        if (!record) return record;
+        const next = { ...record };
+        if (next._id !== undefined) {
+          next._id = remapId(storeName, next._id);
+        }
+        if (storeName !== "reporting_activities") return next;
+        if (next._vault) {
+          sealedActivities = true;
+        } else if (
+          next.emissionFactorId !== undefined &&
+          next.emissionFactorId !== ""
+        ) {
+          next.emissionFactorId = remapId(
+            "emission_factors",
+            next.emissionFactorId
+          );
+        }
+        return next;
+      };
+
+      // Records are read in key order, so their new keys keep that order
+      for (const storeName of [
+        "emission_factors",
+        "reporting_activities",
+        "ghg_reporting_standards",
+      ]) {
+        const { store, records } = await recreateStore(context, storeName, {
+          keyPath: "_id",
+        });
+        (records as LegacyRecord[]).forEach((record) =>
+          store.put(remapRecord(storeName, record))
+        );
+      }
+
+      const audit = await recreateStore(context, "audit_log", {
+        keyPath: "_id",
+      });
+      (audit.records as LegacyRecord[]).forEach((entry) => {
+        const storeName = entry.storeName as string;
+        audit.store.put({
+          ...entry,
+          _id: createId(),
+          recordId: remapId(storeName, entry.recordId),
+          before: remapRecord(storeName, entry.before as LegacyRecord | null),
+          after: remapRecord(storeName, entry.after as LegacyRecord | null),
+        });
+      });
+
+      const bin = await recreateStore(context, "recycle_bin", {
+        keyPath: "_id",
+      });
+      (bin.records as LegacyRecord[]).forEach((entry) => {
+        const storeName = entry.storeName as string;
+        bin.store.put({
+          ...entry,
+          _id: createId(),
+          recordId: remapId(storeName, entry.recordId),
+          record: remapRecord(storeName, entry.record as LegacyRecord),
+          ...(entry.dependentActivityIds
+            ? {
+                dependentActivityIds: (
+                  entry.dependentActivityIds as string[]
+                ).map((id) => remapId("reporting_activities", id)),
+              }
+            : {}),
+        });
+      });
+
+      if (sealedActivities) {
+        // Encrypted activities keep emissionFactorId inside the encrypted
+        // payload, which can't be read here. The service rewrites it from
+        // this mapping once the vault is unlocked.
+        const remap: IdRemap = {
+          key: ID_REMAP_KEY,
+          emission_factors: Object.fromEntries(
+            newIds.get("emission_factors") ?? []
+          ),
+        };
+        context.transaction.objectStore("app_meta").put(remap);
+      }
+    },
+  },
+  {
+    version: 8,
+    description: "Create attachments store for evidence files",
+    migrate: async (context) => {
+      const store = createStoreIfMissing(context, "attachments", {
+        keyPath: "_id",
+      });
+      createIndexIfMissing(store, "owner", ["ownerStore", "ownerId"]);
+    },
+  },
+  {
+    version: 9,
+    description: "Create retention snapshot store for encrypted pre-wipe copies",
+    migrate: async (context) => {
+      const store = createStoreIfMissing(context, "retention_snapshots", {
+        keyPath: "_id",
+      });
+      createIndexIfMissing(store, "createdAt", "createdAt");
+    },
+  },
+  {
+    version: 10,
+    description: "Create retention log store for bulk deletion events",
+    migrate: async (context) => {
+      const store = createStoreIfMissing(context, "retention_log", {
+        keyPath: "_id",
+      });
+      createIndexIfMissing(store, "timestamp", "timestamp");
+    },
+  },
+  {
+    version: 11,
+    description: "Create store for user-defined emission factor fields",
+    migrate: async (context) => {
+      const store = createStoreIfMissing(context, "emission_factor_fields", {
+        keyPath: "_id",
+      });
+      createIndexIfMissing(store, "key", "key", { unique: true });
+    },
+  },
+  {
+    version: 12,
+    description: "Fill in calculated emissions still missing from reporting activities",
+    migrate: async (context) => {
+      const factors = await requestToPromise(
+        context.transaction.objectStore("emission_factors").getAll()
+      );
+      const factorsById = new Map<string, StoredFactor>();
+      (factors as (StoredFactor & LegacyRecord)[]).forEach((factor) => {
+        // Encrypted factors can't be read here
+        if (!factor._vault) factorsById.set(String(factor._id), factor);
+      });
+
+      // Encrypted activities are skipped. Stage 2 works their emissions out
+      // when it shows them.
+      const updated = await transformRecords<StoredActivity & LegacyRecord>(
+        context.transaction.objectStore("reporting_activities"),
+        (activity) => {
+          if (
+            activity._vault ||
+            typeof activity.quantity !== "number" ||
+            (activity.calculatedEmissions !== undefined &&
+              activity.calculatedEmissions !== null)
+          ) {
+            return undefined;
+          }
+
+          const factor = factorsById.get(String(activity.emissionFactorId));
+          const co2ePerUnit = factor
+            ? effectiveCo2ePerUnit(
+                factor,
+                activity.reportingPeriodStart,
+                activity.reportingPeriodEnd
+              )
+            : activity.emissionFactorData?.co2ePerUnit;
+          if (co2ePerUnit === undefined) return undefined;
+
+          return {
+            ...activity,
+            calculatedEmissions: activity.quantity * co2ePerUnit,
+          };
+        }
+      );
+      console.log(`IndexedDB: Filled in emissions on ${updated} reporting activities`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Run every migration newer than `oldVersion`, in order, inside the upgrade
+// transaction. Throws a MigrationError for the first migration that fails;
+// the caller is expected to abort the transaction so nothing is half-applied.
+// Completion is reported by the caller once the transaction has committed.
+export async function runMigrations(
+  context: MigrationContext,
+  onProgress?: (progress: MigrationProgress) => void
+): Promise<void> {
+  const pending = migrations
+    .filter((migration) => migration.version > context.oldVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const report = (
+    progress: Omit<MigrationProgress, "fromVersion" | "toVersion" | "total">
+  ) => {
+    onProgress?.({
+      ...progress,
+      fromVersion: context.oldVersion,
+      toVersion: LATEST_SCHEMA_VERSION,
+      total: pending.length,
+    });
+  };
+
+  for (let i = 0; i < pending.length; i++) {
+    const migration = pending[i];
+    console.log(
+      `IndexedDB: Running migration ${migration.version}: ${migration.description}`
+    );
+    report({
+      status: "running",
+      currentVersion: migration.version,
+      description: migration.description,
+      completed: i,
+    });
+
+    try {
+      await migration.migrate(context);
+    } catch (error) {
+      const migrationError = new MigrationError(
+        migration.version,
+        migration.description,
+        error
+      );
+      report({
+        status: "failed",
+        currentVersion: migration.version,
+        description: migration.description,
+        completed: i,
+        error: migrationError.message,
+      });
+      throw migrationError;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// Retention event log
+// A record of every time the app deleted the data in bulk: what caused it,
+// when, and how many records went from each store. It lives in its own store,
+// which clearing the data leaves alone, and holds counts only, never record
+// contents, so it is kept in the clear in vault mode too.
+
+import type { RecordId } from "./ids";
+
+export type RetentionTrigger =
+  // The inactivity warning went unanswered (auto-wipe policy)
+  | "inactivity"
+  // The app stayed locked past the locked period (lock-only policy)
+  | "locked-timeout"
+  // "Clear all records" in the inactivity warning
+  | "manual"
+  // A backup restored in replace mode
+  | "backup-replace"
+  // The vault was reset after a forgotten passphrase
+  | "vault-reset";
+
+export const RETENTION_TRIGGERS: RetentionTrigger[] = [
+  "inactivity",
+  "locked-timeout",
+  "manual",
+  "backup-replace",
+  "vault-reset",
+];
+
+export interface RetentionLogEntry {
+  _id?: RecordId;
+  trigger: RetentionTrigger;
+  timestamp: string;
+  // Records removed, by store name
+  removed: Record<string, number>;
+}
+
+// Older entries are dropped once the log is this long
+export const MAX_RETENTION_LOG_ENTRIES = 100;
+
+export function countRemoved(entry: RetentionLogEntry): number {
+  return Object.values(entry.removed).reduce((sum, count) => sum + count, 0);
+}
@@ -0,0 +1,203 @@
+// Data retention policy
+// Decides what happens when the app is left idle: wipe the data after a
+// warning, lock the app (and wipe only after a long locked period), or keep
+// everything. The user's choice is kept in localStorage, which survives a
+// wipe. An administrator can pin a policy by shipping a retention-policy.json
+// file next to the export build; a pinned policy overrides the user's choice
+// and can't be changed in the app.
+
+export type RetentionMode = "auto-wipe" | "lock-only" | "persistent";
+
+export interface RetentionPolicy {
+  mode: RetentionMode;
+  // Minutes without activity before the warning (auto-wipe) or the lock
+  // (lock-only). Ignored by persistent.
+  inactivityMinutes: number;
+  // Minutes the warning stays open before the data is wiped (auto-wipe only)
+  warningMinutes: number;
+  // Hours the app may stay locked before the data is wiped (lock-only only).
+  // null keeps the data however long the app stays locked.
+  lockedWipeHours: number | null;
+}
+
+export type RetentionPolicySource = "default" | "user" | "pinned";
+
+export type RetentionPolicyListener = (
+  policy: RetentionPolicy,
+  source: RetentionPolicySource
+) => void;
+
+export const RETENTION_MODES: RetentionMode[] = [
+  "auto-wipe",
+  "lock-only",
+  "persistent",
+];
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  mode: "auto-wipe",
+  inactivityMinutes: 20,
+  warningMinutes: 10,
+  lockedWipeHours: null,
+};
+
+// Bounds for both timeouts, in minutes
+export const MIN_RETENTION_MINUTES = 1;
+export const MAX_RETENTION_MINUTES = 24 * 60;
+// Bounds for the locked period, in hours
+export const MIN_LOCKED_WIPE_HOURS = 1;
+export const MAX_LOCKED_WIPE_HOURS = 30 * 24;
+
+const STORAGE_KEY = "carbonHubRetentionPolicy";
+const PINNED_POLICY_FILE = "retention-policy.json";
+const basePath = process.env.NODE_ENV === "production" ? "/carbon_hub" : "";
+
+function isValidMinutes(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= MIN_RETENTION_MINUTES &&
+    value <= MAX_RETENTION_MINUTES
+  );
+}
+
+function isValidHours(value: unknown): value is number | null {
+  return (
+    value === null ||
+    (typeof value === "number" &&
+      Number.isInteger(value) &&
+      value >= MIN_LOCKED_WIPE_HOURS &&
+      value <= MAX_LOCKED_WIPE_HOURS)
+  );
+}
+
+// Check a policy read from storage, a config file or a form. Missing
+// timeouts fall back to the defaults.
+export function parseRetentionPolicy(value: unknown): RetentionPolicy {
+  if (!value || typeof value !== "object") {
+    throw new Error("A retention policy must be an object.");
+  }
+  const candidate = value as Partial<RetentionPolicy>;
+  if (!RETENTION_MODES.includes(candidate.mode as RetentionMode)) {
+    throw new Error(
+      `Retention mode must be one of: ${RETENTION_MODES.join(", ")}.`
+    );
+  }
+
+  const policy: RetentionPolicy = {
+    mode: candidate.mode as RetentionMode,
+    inactivityMinutes:
+      candidate.inactivityMinutes ?? DEFAULT_RETENTION_POLICY.inactivityMinutes,
+    warningMinutes:
+      candidate.warningMinutes ?? DEFAULT_RETENTION_POLICY.warningMinutes,
+    lockedWipeHours:
+      candidate.lockedWipeHours ?? DEFAULT_RETENTION_POLICY.lockedWipeHours,
+  };
+  if (
+    !isValidMinutes(policy.inactivityMinutes) ||
+    !isValidMinutes(policy.warningMinutes)
+  ) {
+    throw new Error(
+      `Retention timeouts must be whole minutes between ${MIN_RETENTION_MINUTES} and ${MAX_RETENTION_MINUTES}.`
+    );
+  }
+  if (!isValidHours(policy.lockedWipeHours)) {
+    throw new Error(
+      `The locked period must be whole hours between ${MIN_LOCKED_WIPE_HOURS} and ${MAX_LOCKED_WIPE_HOURS}, or null.`
+    );
+  }
+  return policy;
+}
+
+class RetentionPolicyManager {
+  private pinned: RetentionPolicy | null = null;
+  private pinnedLoad: Promise<void> | null = null;
+  private listeners = new Set<RetentionPolicyListener>();
+
+  constructor() {
+    if (typeof window === "undefined") return;
+    // Keep every tab on the same policy
+    window.addEventListener("storage", (event) => {
+      if (event.key === STORAGE_KEY && !this.pinned) {
+        this.notify();
+      }
+    });
+  }
+
+  // Look for the administrator's policy file. Resolves either way; without
+  // the file, or with an invalid one, the user's choice applies.
+  loadPinnedPolicy(): Promise<void> {
+    if (!this.pinnedLoad) {
+      this.pinnedLoad = this.fetchPinnedPolicy();
+    }
+    return this.pinnedLoad;
+  }
+
+  private async fetchPinnedPolicy(): Promise<void> {
+    try {
+      const response = await fetch(`${basePath}/${PINNED_POLICY_FILE}`, {
+        cache: "no-store",
+      });
+      if (!response.ok) return;
+
+      this.pinned = parseRetentionPolicy(await response.json());
+      console.log("RetentionPolicy: Using pinned policy:", this.pinned);
+      this.notify();
+    } catch (error) {
+      console.error("RetentionPolicy: Ignoring pinned policy file:", error);
+    }
+  }
+
+  private loadUserPolicy(): RetentionPolicy | null {
+    if (typeof window === "undefined") return null;
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? parseRetentionPolicy(JSON.parse(saved)) : null;
+    } catch (error) {
+      console.error("RetentionPolicy: Error loading saved policy:", error);
+      return null;
+    }
+  }
+
+  getPolicy(): RetentionPolicy {
+    return this.pinned ?? this.loadUserPolicy() ?? DEFAULT_RETENTION_POLICY;
+  }
+
+  getSource(): RetentionPolicySource {
+    if (this.pinned) return "pinned";
+    return this.loadUserPolicy() ? "user" : "default";
+  }
+
+  isPinned(): boolean {
+    return this.pinned !== null;
+  }
+
+  setPolicy(policy: RetentionPolicy): void {
+    if (this.pinned) {
+      throw new Error("The retention policy is set by your administrator.");
+    }
+    const parsed = parseRetentionPolicy(policy);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(parsed));
+    console.log("RetentionPolicy: Saved policy:", parsed);
+    this.notify();
+  }
+
+  // Subscribe to policy changes, including a pinned policy arriving after
+  // the first render and changes made in other tabs
+  onChange(listener: RetentionPolicyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const policy = this.getPolicy();
+    const source = this.getSource();
+    this.listeners.forEach((listener) => listener(policy, source));
+  }
+}
+
+// Create and export singleton instance
+const retentionPolicy = new RetentionPolicyManager();
+
+export default retentionPolicy;
@@ -0,0 +1,263 @@
+// Encrypted snapshots taken before an inactivity wipe
+// The wipe runs when nobody is at the keyboard, so there is no passphrase to
+// encrypt with at that moment. Instead, turning snapshots on creates an
+// RSA-OAEP key pair: the public key is kept in the clear and the private key
+// is encrypted with a key derived from the user's passphrase. Each snapshot is
+// a full backup encrypted with a fresh AES-GCM key, which is wrapped with the
+// public key. Reading a snapshot back needs the passphrase.
+//
+// Every snapshot carries its own copy of the encrypted private key, so
+// changing or turning off the snapshot passphrase doesn't lose older ones.
+//
+// A wipe after the lock-only policy's locked period finds the data vault
+// locked, so the records can't be decrypted for a backup. Those snapshots
+// hold the records as stored instead, and opening one also needs the vault
+// unlocked with the vault passphrase in use when it was taken.
+
+import indexedDBService, {
+  type ImportSummary,
+  type IndexedDBService,
+  type SealedBackupData,
+} from "./indexedDB";
+import {
+  createBackup,
+  parseBackup,
+  restoreBackup,
+  wrapBackup,
+  type BackupEnvelope,
+} from "./backup";
+import {
+  decryptWithKey,
+  deriveKeys,
+  encryptWithKey,
+  fromBase64,
+  MIN_PASSPHRASE_LENGTH,
+  PBKDF2_ITERATIONS,
+  toBase64,
+  VaultPassphraseError,
+  type EncryptedPayload,
+} from "./vault";
+import type { RecordId } from "./ids";
+
+// The private key, encrypted with the snapshot passphrase
+interface SealedPrivateKey {
+  privateKey: EncryptedPayload;
+  salt: string;
+  iterations: number;
+}
+
+// Stored in app_meta while snapshots are turned on
+export interface RetentionSnapshotKey extends SealedPrivateKey {
+  key: "retention_snapshot_key";
+  // SPKI, base64 encoded
+  publicKey: string;
+  createdAt: string;
+}
+
+export interface RetentionSnapshot extends SealedPrivateKey {
+  _id?: RecordId;
+  createdAt: string;
+  counts: {
+    activities: number;
+    factors: number;
+    attachments: number;
+  };
+  // The AES-GCM key the payload is encrypted with, wrapped with the public key
+  wrappedKey: string;
+  // The backup envelope, or the sealed backup data when `sealed`
+  payload: EncryptedPayload;
+  // Taken while the data vault was locked
+  sealed?: boolean;
+}
+
+// A snapshot taken while the data vault was locked couldn't be opened with
+// the vault as it is now
+export class SealedSnapshotError extends Error {
+  constructor() {
+    super(
+      "This snapshot was taken while the data vault was locked. Unlock the vault with the passphrase in use at the time to restore it."
+    );
+    this.name = "SealedSnapshotError";
+  }
+}
+
+// Snapshots kept per workspace; older ones are removed
+export const MAX_RETENTION_SNAPSHOTS = 3;
+
+const KEY_PAIR_ALGORITHM: RsaHashedKeyGenParams = {
+  name: "RSA-OAEP",
+  modulusLength: 3072,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: "SHA-256",
+};
+
+export async function isRetentionSnapshotEnabled(): Promise<boolean> {
+  return (await indexedDBService.getRetentionSnapshotKey()) !== null;
+}
+
+// Turn snapshots on, or change the passphrase for snapshots taken from now on
+export async function enableRetentionSnapshots(
+  passphrase: string
+): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`
+    );
+  }
+
+  const keyPair = await crypto.subtle.generateKey(KEY_PAIR_ALGORITHM, true, [
+    "wrapKey",
+    "unwrapKey",
+  ]);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const { encryptionKey } = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+  const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+
+  await indexedDBService.setRetentionSnapshotKey({
+    key: "retention_snapshot_key",
+    publicKey: toBase64(publicKey),
+    privateKey: await encryptWithKey(encryptionKey, toBase64(privateKey)),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    createdAt: new Date().toISOString(),
+  });
+  console.log("RetentionSnapshot: Snapshots enabled");
+}
+
+// Stop taking snapshots. Existing snapshots stay readable with the
+// passphrase they were taken with.
+export async function disableRetentionSnapshots(): Promise<void> {
+  await indexedDBService.setRetentionSnapshotKey(null);
+  console.log("RetentionSnapshot: Snapshots disabled");
+}
+
+// Encrypt a backup of the current data and store it, in the active workspace
+// or the workspace of the given service. Resolves with null when snapshots
+// are off there or there is nothing worth keeping.
+export async function takeRetentionSnapshot(
+  service: IndexedDBService = indexedDBService
+): Promise<RetentionSnapshot | null> {
+  const snapshotKey = await service.getRetentionSnapshotKey();
+  if (!snapshotKey) return null;
+
+  const sealed = service.getVaultStatus() === "locked";
+  const content: BackupEnvelope | SealedBackupData = sealed
+    ? await service.exportSealedData()
+    : await createBackup(service);
+  const data = "data" in content ? content.data : content;
+  const counts = {
+    activities: data.reporting_activities.length,
+    factors: data.emission_factors.length,
+    attachments: data.attachments?.length ?? 0,
+  };
+  // A second wipe of an empty database mustn't push out a useful snapshot
+  if (counts.activities === 0 && counts.factors === 0) {
+    console.log("RetentionSnapshot: Nothing to keep, no snapshot taken");
+    return null;
+  }
+
+  const publicKey = await crypto.subtle.importKey(
+    "spki",
+    fromBase64(snapshotKey.publicKey),
+    KEY_PAIR_ALGORITHM,
+    false,
+    ["wrapKey"]
+  );
+  const dataKey = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const snapshot: Omit<RetentionSnapshot, "_id"> = {
+    createdAt: "data" in content ? content.createdAt : new Date().toISOString(),
+    counts,
+    privateKey: snapshotKey.privateKey,
+    salt: snapshotKey.salt,
+    iterations: snapshotKey.iterations,
+    wrappedKey: toBase64(
+      await crypto.subtle.wrapKey("raw", dataKey, publicKey, {
+        name: "RSA-OAEP",
+      })
+    ),
+    payload: await encryptWithKey(dataKey, content),
+    ...(sealed ? { sealed } : {}),
+  };
+
+  const id = await service.addRetentionSnapshot(
+    snapshot,
+    MAX_RETENTION_SNAPSHOTS
+  );
+  console.log(
+    `RetentionSnapshot: ${sealed ? "Sealed snapshot" : "Snapshot"} taken:`,
+    counts
+  );
+  return { ...snapshot, _id: id };
+}
+
+// Decrypt a snapshot and verify it like a backup file. Throws a
+// VaultPassphraseError for a wrong passphrase, and a SealedSnapshotError when
+// a sealed snapshot's records can't be opened with the vault.
+export async function openRetentionSnapshot(
+  snapshot: RetentionSnapshot,
+  passphrase: string
+): Promise<BackupEnvelope> {
+  const { encryptionKey } = await deriveKeys(
+    passphrase,
+    fromBase64(snapshot.salt),
+    snapshot.iterations
+  );
+  let privateKey: CryptoKey;
+  try {
+    const pkcs8 = await decryptWithKey<string>(encryptionKey, snapshot.privateKey);
+    privateKey = await crypto.subtle.importKey(
+      "pkcs8",
+      fromBase64(pkcs8),
+      KEY_PAIR_ALGORITHM,
+      false,
+      ["unwrapKey"]
+    );
+  } catch {
+    // AES-GCM decryption fails outright when the key is wrong
+    throw new VaultPassphraseError();
+  }
+
+  const dataKey = await crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(snapshot.wrappedKey),
+    privateKey,
+    { name: "RSA-OAEP" },
+    { name: "AES-GCM" },
+    false,
+    ["decrypt"]
+  );
+  if (!snapshot.sealed) {
+    const backup = await decryptWithKey<BackupEnvelope>(dataKey, snapshot.payload);
+    return parseBackup(JSON.stringify(backup));
+  }
+
+  const sealed = await decryptWithKey<SealedBackupData>(
+    dataKey,
+    snapshot.payload
+  );
+  let backup: BackupEnvelope;
+  try {
+    backup = await wrapBackup(
+      await indexedDBService.unsealData(sealed),
+      snapshot.createdAt
+    );
+  } catch (error) {
+    console.error("RetentionSnapshot: Could not open sealed records:", error);
+    throw new SealedSnapshotError();
+  }
+  return parseBackup(JSON.stringify(backup));
+}
+
+// Restore a snapshot alongside whatever has been entered since the wipe
+export async function restoreRetentionSnapshot(
+  snapshot: RetentionSnapshot,
+  passphrase: string
+): Promise<ImportSummary> {
+  const backup = await openRetentionSnapshot(snapshot, passphrase);
+  return restoreBackup(backup, "merge");
+}
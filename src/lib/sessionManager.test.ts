@@ -0,0 +1,263 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { toast } from "react-hot-toast";
+import SessionManager from "./sessionManager";
+import type { Clock, TimerHandle } from "./sessionTiming";
+import type { RetentionPolicy } from "./retentionPolicy";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2026, 0, 1, 9, 0, 0);
+
+// Timers only fire from advance(). sleep() moves the time on without firing
+// anything, as when a laptop is suspended.
+class FakeClock implements Clock {
+  private time = START;
+  private nextId = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      const due = [...this.timers.entries()]
+        .filter(([, timer]) => timer.at <= end)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      const [id, timer] = due;
+      this.timers.delete(id);
+      this.time = Math.max(this.time, timer.at);
+      timer.callback();
+    }
+    this.time = end;
+  }
+
+  sleep(ms: number): void {
+    this.time += ms;
+  }
+}
+
+const autoWipe: RetentionPolicy = {
+  mode: "auto-wipe",
+  inactivityMinutes: 20,
+  warningMinutes: 10,
+  lockedWipeHours: null,
+};
+
+const lockOnly: RetentionPolicy = {
+  mode: "lock-only",
+  inactivityMinutes: 15,
+  warningMinutes: 10,
+  lockedWipeHours: 8,
+};
+
+function resume(): void {
+  document.dispatchEvent(new Event("visibilitychange"));
+}
+
+describe("SessionManager with a fake clock", () => {
+  let clock: FakeClock;
+  let manager: SessionManager | null;
+  let onWarning: ReturnType<typeof vi.fn<() => void>>;
+  let onCleanup: ReturnType<
+    typeof vi.fn<(trigger: string) => Promise<void> | void>
+  >;
+  let onLock: ReturnType<typeof vi.fn<() => void>>;
+  let canLock: ReturnType<typeof vi.fn<() => boolean>>;
+
+  const start = (policy: RetentionPolicy) => {
+    manager = new SessionManager(policy, clock);
+    manager.setInactivityWarningCallback(onWarning);
+    manager.setDataCleanupCallback(onCleanup);
+    manager.setLockCallback(onLock);
+    manager.setCanLockCallback(canLock);
+    // Leadership is settled on the next tick
+    clock.advance(0);
+    return manager;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    clock = new FakeClock();
+    manager = null;
+    onWarning = vi.fn<() => void>();
+    onCleanup = vi.fn<(trigger: string) => Promise<void> | void>();
+    onLock = vi.fn<() => void>();
+    canLock = vi.fn<() => boolean>(() => true);
+  });
+
+  afterEach(() => {
+    manager?.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it("warns after the inactivity period and wipes when the warning runs out", () => {
+    const session = start(autoWipe);
+    expect(session.isSessionLeader()).toBe(true);
+
+    clock.advance(20 * MINUTE - 1);
+    expect(onWarning).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(session.getWarningDeadline()).toBe(START + 30 * MINUTE);
+    expect(onCleanup).not.toHaveBeenCalled();
+
+    clock.advance(10 * MINUTE);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("inactivity");
+  });
+
+  it("starts the idle period again on activity", () => {
+    const session = start(autoWipe);
+    clock.advance(15 * MINUTE);
+    session.updateActivity();
+    clock.advance(15 * MINUTE);
+    expect(onWarning).not.toHaveBeenCalled();
+    clock.advance(5 * MINUTE);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+  });
+
+  it("wipes on resume when the machine slept past the deadline", () => {
+    start(autoWipe);
+    clock.sleep(3 * HOUR);
+    expect(onCleanup).not.toHaveBeenCalled();
+
+    resume();
+    expect(onWarning).not.toHaveBeenCalled();
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("inactivity");
+  });
+
+  it("warns on resume with the original deadline when woken during the warning", () => {
+    const session = start(autoWipe);
+    clock.sleep(25 * MINUTE);
+    resume();
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(session.getModalTimeRemaining()).toBe(5 * MINUTE);
+
+    clock.advance(5 * MINUTE);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("inactivity");
+  });
+
+  it("wipes an overdue session as soon as the page is reopened", () => {
+    start(autoWipe).destroy();
+    manager = null;
+    clock.sleep(HOUR);
+
+    start(autoWipe);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("inactivity");
+  });
+
+  it("locks after the inactivity period and wipes when the locked period runs out", () => {
+    const session = start(lockOnly);
+    clock.advance(15 * MINUTE);
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(session.isLocked()).toBe(true);
+    expect(onWarning).not.toHaveBeenCalled();
+
+    // Activity doesn't end a lock
+    session.updateActivity();
+    expect(session.isLocked()).toBe(true);
+
+    clock.advance(8 * HOUR - 1);
+    expect(onCleanup).not.toHaveBeenCalled();
+    clock.advance(1);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("locked-timeout");
+  });
+
+  it("keeps the data once unlocked", () => {
+    const session = start(lockOnly);
+    clock.advance(15 * MINUTE);
+    session.unlock();
+    expect(session.isLocked()).toBe(false);
+
+    clock.advance(8 * HOUR);
+    expect(onCleanup).not.toHaveBeenCalled();
+    // Locked again by the next idle period
+    expect(onLock).toHaveBeenCalledTimes(2);
+  });
+
+  it("locks and then wipes on resume when the machine slept past both deadlines", () => {
+    start(lockOnly);
+    clock.sleep(9 * HOUR);
+
+    resume();
+    // The lock dates from when it was due, so its locked period is over too
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("locked-timeout");
+  });
+
+  it("only locks on resume when the locked period hasn't run out", () => {
+    const session = start(lockOnly);
+    clock.sleep(2 * HOUR);
+
+    resume();
+    expect(session.isLocked()).toBe(true);
+    expect(onCleanup).not.toHaveBeenCalled();
+
+    // The locked period counts from when the lock was due
+    clock.advance(8 * HOUR + 15 * MINUTE - 2 * HOUR);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("locked-timeout");
+  });
+
+  it("warns and wipes instead when there is nothing to lock with", () => {
+    canLock.mockReturnValue(false);
+    const session = start(lockOnly);
+    clock.advance(15 * MINUTE);
+    expect(onLock).not.toHaveBeenCalled();
+    expect(session.isLocked()).toBe(false);
+    expect(onWarning).toHaveBeenCalledOnce();
+    expect(session.getWarningDeadline()).toBe(START + 25 * MINUTE);
+
+    clock.advance(10 * MINUTE);
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("inactivity");
+  });
+
+  it("tells other tabs and the user only once the wipe has finished", async () => {
+    const postMessage = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+    const success = vi.spyOn(toast, "success");
+    let finishWipe = () => {};
+    onCleanup.mockReturnValue(
+      new Promise<void>((resolve) => (finishWipe = resolve))
+    );
+    const session = start(autoWipe);
+
+    const cleanup = session.cleanupData("manual");
+    expect(onCleanup).toHaveBeenCalledExactlyOnceWith("manual");
+    expect(postMessage).not.toHaveBeenCalledWith({ type: "cleanup" });
+    expect(success).not.toHaveBeenCalled();
+
+    finishWipe();
+    await cleanup;
+    expect(postMessage).toHaveBeenCalledWith({ type: "cleanup" });
+    expect(success).toHaveBeenCalledOnce();
+  });
+
+  it("reports a failed wipe and keeps the session", async () => {
+    const postMessage = vi.spyOn(BroadcastChannel.prototype, "postMessage");
+    const success = vi.spyOn(toast, "success");
+    const error = vi.spyOn(toast, "error");
+    onCleanup.mockRejectedValue(new Error("Blocked"));
+    const session = start(autoWipe);
+    const stored = localStorage.getItem("carbonHubSession");
+
+    clock.advance(5 * MINUTE);
+    await session.cleanupData("manual");
+    expect(error).toHaveBeenCalledOnce();
+    expect(success).not.toHaveBeenCalled();
+    expect(postMessage).not.toHaveBeenCalledWith({ type: "cleanup" });
+    expect(localStorage.getItem("carbonHubSession")).toBe(stored);
+  });
+});
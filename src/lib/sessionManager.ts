@@ -1,168 +1,417 @@
 // Session Manager for ESG Platform Data Retention
 // This utility manages user sessions and implements automatic data cleanup
+//
+// Tabs share one idle clock. One tab, the leader, holds a Web Lock and is the
+// only one that checks the deadlines, shows the warning and wipes the data.
+// Every tab reports activity to the leader over a BroadcastChannel, so typing
+// in one tab keeps the others from being wiped. When the leader closes, the
+// lock passes to another tab, which carries on from the last recorded activity.
+//
+// Deadlines are worked out from stored timestamps (see sessionTiming.ts) and
+// checked again whenever the page becomes visible or resumes, so sleep and
+// background throttling can't move the wipe away from what the notice says.
 
 import { toast } from "react-hot-toast";
+import {
+  DEFAULT_RETENTION_POLICY,
+  type RetentionPolicy,
+} from "./retentionPolicy";
+import {
+  evaluateSession,
+  systemClock,
+  wipeAt,
+  type Clock,
+  type TimerHandle,
+} from "./sessionTiming";
+import type { RetentionTrigger } from "./retentionLog";
+
+type SessionMessage =
+  | { type: "activity" }
+  | { type: "lock" }
+  | { type: "cleanup" };
+
+const LEADER_LOCK_NAME = "carbon-hub-session-leader";
+const CHANNEL_NAME = "carbon-hub-session";
+// Followers report activity at most this often
+const ACTIVITY_BROADCAST_INTERVAL = 1000;
+// Longest single wait between checks. Browsers run timers over about 24.8
+// days at once, and a long wait gains nothing since the deadline is stored.
+const MAX_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const ACTIVITY_EVENTS = [
+  "mousedown",
+  "mousemove",
+  "keypress",
+  "scroll",
+  "touchstart",
+  "click",
+  // Form interactions
+  "input",
+  "change",
+];
+
+// Events after which the deadlines are checked again: the tab was hidden,
+// frozen or restored from the back/forward cache. Built when the listeners
+// are added, since document and window don't exist while prerendering.
+function resumeEvents(): [EventTarget, string][] {
+  return [
+    [document, "visibilitychange"],
+    [document, "resume"],
+    [window, "pageshow"],
+    [window, "focus"],
+  ];
+}
 
 interface SessionData {
   sessionId: string;
   lastActivity: number;
   isModalOpen: boolean;
   modalStartTime?: number;
+  // Set while the app is locked (lock-only policy), shared by every tab
+  lockedAt?: number;
 }
 
 class SessionManager {
   private sessionId: string;
-  private inactivityTimer: NodeJS.Timeout | null = null;
-  private modalTimer: NodeJS.Timeout | null = null;
+  private checkTimer: TimerHandle | null = null;
+  // True while this tab shows the inactivity warning
+  private warningShown = false;
   private onInactivityWarning: (() => void) | null = null;
-  private onDataCleanup: (() => void) | null = null;
+  private onDataCleanup:
+    | ((trigger: RetentionTrigger) => Promise<void> | void)
+    | null = null;
+  private onDataCleared: (() => void) | null = null;
+  private onLock: (() => void) | null = null;
+  private canLock: (() => boolean) | null = null;
+  private onWarningDismissed: (() => void) | null = null;
+  private onRemoteCleanup: (() => void) | null = null;
+
+  private channel: BroadcastChannel | null = null;
+  private isLeader = false;
+  private releaseLeadership: (() => void) | null = null;
+  private leaderRequest: AbortController | null = null;
+  private lastActivityBroadcast = 0;
+  private readonly handleActivity = () => this.recordActivity();
+  private readonly handleResume = () => {
+    if (document.visibilityState === "visible") this.evaluate();
+  };
+
+  // Timeouts and inactivity outcome, from the retention policy
+  private policy: RetentionPolicy;
+  private clock: Clock;
+
+  constructor(
+    policy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+    clock: Clock = systemClock
+  ) {
+    this.policy = policy;
+    this.clock = clock;
+    this.sessionId = this.generateSessionId();
+    this.setupChannel();
+    this.initializeSession();
+    this.setupListeners();
+    this.electLeader();
+  }
 
-  // ============================================================================
-  // CONFIGURATION: Easily adjust timing intervals here
-  // ============================================================================
+  private setupChannel(): void {
+    if (typeof BroadcastChannel === "undefined") return;
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<SessionMessage>) => {
+      this.handleMessage(event.data);
+    };
+  }
 
-  // INACTIVITY_TIMEOUT: How long to wait before showing the retention popup
-  // Default: 20 minutes (20 * 60 * 1000 milliseconds)
-  // To change: Modify the value below (e.g., 30 minutes = 30 * 60 * 1000)
-  private readonly INACTIVITY_TIMEOUT = 20 * 60 * 1000; // 20 minutes in milliseconds
+  private broadcast(message: SessionMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error("SessionManager: Could not notify other tabs:", error);
+    }
+  }
 
-  // MODAL_TIMEOUT: How long the user has to respond to the popup before auto-deletion
-  // Default: 10 minutes (10 * 60 * 1000 milliseconds)
-  // To change: Modify the value below (e.g., 15 minutes = 15 * 60 * 1000)
-  private readonly MODAL_TIMEOUT = 10 * 60 * 1000; // 10 minutes in milliseconds
+  private handleMessage(message: SessionMessage): void {
+    switch (message.type) {
+      case "activity": {
+        if (!this.isLeader) return;
+        // Activity in another tab also takes down this tab's warning
+        const wasWarning = this.warningShown;
+        this.updateActivity();
+        if (wasWarning) {
+          this.onWarningDismissed?.();
+        }
+        return;
+      }
+      case "lock":
+        this.onLock?.();
+        return;
+      case "cleanup":
+        this.onRemoteCleanup?.();
+        return;
+    }
+  }
 
-  // ============================================================================
-  // END CONFIGURATION
-  // ============================================================================
+  // Wait for the leader lock, then hold it until this tab closes or the
+  // manager is destroyed
+  private electLeader(): void {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      // Without Web Locks every tab checks its own deadlines. Wait until the
+      // page has set its callbacks, as it does when the lock is granted.
+      this.checkTimer = this.clock.setTimeout(() => this.becomeLeader(), 0);
+      return;
+    }
+    const request = new AbortController();
+    this.leaderRequest = request;
+    navigator.locks
+      .request(
+        LEADER_LOCK_NAME,
+        { signal: request.signal },
+        () =>
+          new Promise<void>((resolve) => {
+            this.releaseLeadership = resolve;
+            this.becomeLeader();
+          })
+      )
+      .catch((error) => {
+        // Destroyed while still waiting for the lock
+        if (request.signal.aborted) return;
+        console.error("SessionManager: Leader election failed:", error);
+        this.becomeLeader();
+      });
+  }
 
-  constructor() {
-    this.sessionId = this.generateSessionId();
-    this.initializeSession();
-    this.setupActivityListeners();
+  // Carry on from the timestamps any tab recorded. A warning the previous
+  // leader was showing is shown here with the same deadline.
+  private becomeLeader(): void {
+    this.isLeader = true;
+    console.log(`SessionManager: Tab ${this.sessionId} is now the session leader`);
+    this.evaluate();
+  }
+
+  public isSessionLeader(): boolean {
+    return this.isLeader;
   }
 
   private generateSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `session_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // Carry on with the stored session. Reopening the page doesn't count as
+  // activity: a deadline that passed while it was closed is acted on as soon
+  // as leadership is settled, just as it would have been had the tab stayed open.
   private initializeSession(): void {
     const existingSession = localStorage.getItem("carbonHubSession");
     if (existingSession) {
       try {
         const sessionData: SessionData = JSON.parse(existingSession);
-        // Check if session is still valid (within 24 hours)
-        if (Date.now() - sessionData.lastActivity < 24 * 60 * 60 * 1000) {
-          this.sessionId = sessionData.sessionId;
-          this.updateActivity();
-        } else {
-          this.createNewSession();
-        }
+        this.sessionId = sessionData.sessionId;
+        return;
       } catch {
-        this.createNewSession();
+        // Unreadable session: start a new one below
       }
-    } else {
-      this.createNewSession();
     }
+    this.createNewSession();
   }
 
   private createNewSession(): void {
     const sessionData: SessionData = {
       sessionId: this.sessionId,
-      lastActivity: Date.now(),
+      lastActivity: this.clock.now(),
       isModalOpen: false,
     };
     localStorage.setItem("carbonHubSession", JSON.stringify(sessionData));
   }
 
-  private setupActivityListeners(): void {
-    // Track user activity events
-    const activityEvents = [
-      "mousedown",
-      "mousemove",
-      "keypress",
-      "scroll",
-      "touchstart",
-      "click",
-    ];
-
-    activityEvents.forEach((event) => {
-      document.addEventListener(event, () => this.updateActivity(), {
+  private setupListeners(): void {
+    ACTIVITY_EVENTS.forEach((event) => {
+      document.addEventListener(event, this.handleActivity, {
         passive: true,
       });
     });
+    resumeEvents().forEach(([target, event]) => {
+      target.addEventListener(event, this.handleResume);
+    });
+  }
 
-    // Track form interactions
-    document.addEventListener("input", () => this.updateActivity(), {
-      passive: true,
+  private removeListeners(): void {
+    ACTIVITY_EVENTS.forEach((event) => {
+      document.removeEventListener(event, this.handleActivity);
     });
-    document.addEventListener("change", () => this.updateActivity(), {
-      passive: true,
+    resumeEvents().forEach(([target, event]) => {
+      target.removeEventListener(event, this.handleResume);
     });
   }
 
+  // Pointer and keyboard events. While the warning is up only its buttons
+  // (or activity in another tab) keep the data, so moving the mouse over the
+  // modal doesn't quietly cancel it.
+  private recordActivity(): void {
+    if (this.warningShown) return;
+    this.updateActivity();
+  }
+
   public updateActivity(): void {
+    // Only unlocking ends a lock
+    if (this.isLocked()) return;
+
     const sessionData = this.getSessionData();
-    sessionData.lastActivity = Date.now();
+    sessionData.lastActivity = this.clock.now();
     sessionData.isModalOpen = false;
     sessionData.modalStartTime = undefined;
     this.saveSessionData(sessionData);
+    this.warningShown = false;
+
+    if (this.isLeader) {
+      this.evaluate();
+    } else {
+      this.broadcastActivity();
+    }
+  }
 
-    // Reset timers
-    this.resetInactivityTimer();
-    this.clearModalTimer();
+  private broadcastActivity(): void {
+    const now = this.clock.now();
+    if (now - this.lastActivityBroadcast < ACTIVITY_BROADCAST_INTERVAL) return;
+    this.lastActivityBroadcast = now;
+    this.broadcast({ type: "activity" });
   }
 
-  private resetInactivityTimer(): void {
-    if (this.inactivityTimer) {
-      clearTimeout(this.inactivityTimer);
+  // Switch to another retention policy. The idle clock starts again.
+  public applyPolicy(policy: RetentionPolicy): void {
+    this.policy = policy;
+    console.log("SessionManager: Applying retention policy:", policy);
+    if (this.isLocked()) {
+      this.evaluate();
+      return;
     }
+    this.updateActivity();
+  }
+
+  public getPolicy(): RetentionPolicy {
+    return this.policy;
+  }
 
-    this.inactivityTimer = setTimeout(() => {
-      this.showInactivityWarning();
-    }, this.INACTIVITY_TIMEOUT);
+  // The policy the deadlines follow. Lock-only with nothing to lock the app
+  // with (no PIN or vault) deletes the data like auto-wipe instead, so it is
+  // never left open. A session that is already locked stays on lock-only.
+  private activePolicy(sessionData: SessionData): RetentionPolicy {
+    if (
+      this.policy.mode === "lock-only" &&
+      sessionData.lockedAt === undefined &&
+      !this.canLock?.()
+    ) {
+      return { ...this.policy, mode: "auto-wipe" };
+    }
+    return this.policy;
+  }
+
+  // Act on whatever deadline has passed and wait for the next one
+  private evaluate(): void {
+    this.clearCheckTimer();
+    if (!this.isLeader) return;
+
+    const sessionData = this.getSessionData();
+    const now = this.clock.now();
+    const { action, nextCheckAt } = evaluateSession(
+      sessionData,
+      this.activePolicy(sessionData),
+      now
+    );
+    switch (action.type) {
+      case "wipe":
+        this.cleanupData(
+          sessionData.lockedAt !== undefined ? "locked-timeout" : "inactivity"
+        );
+        return;
+      case "lock":
+        this.lock(action.lockedAt);
+        return;
+      case "warn":
+        if (!this.warningShown) this.showInactivityWarning();
+        break;
+    }
+
+    if (nextCheckAt !== null) {
+      const delay = Math.min(Math.max(0, nextCheckAt - now), MAX_CHECK_INTERVAL);
+      this.checkTimer = this.clock.setTimeout(() => this.evaluate(), delay);
+    }
+  }
+
+  private clearCheckTimer(): void {
+    if (this.checkTimer !== null) {
+      this.clock.clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  private lock(lockedAt: number): void {
+    this.onLock?.();
+    const sessionData = this.getSessionData();
+    sessionData.lockedAt = lockedAt;
+    this.saveSessionData(sessionData);
+    this.broadcast({ type: "lock" });
+    console.log("SessionManager: Session locked");
+    // Wait for the end of the locked period, if the policy has one
+    this.evaluate();
+  }
+
+  public isLocked(): boolean {
+    return this.getSessionData().lockedAt !== undefined;
+  }
+
+  // Call once the user has entered the PIN or passphrase
+  public unlock(): void {
+    const sessionData = this.getSessionData();
+    delete sessionData.lockedAt;
+    this.saveSessionData(sessionData);
+    console.log("SessionManager: Session unlocked");
+    this.updateActivity();
   }
 
   private showInactivityWarning(): void {
     const sessionData = this.getSessionData();
     sessionData.isModalOpen = true;
-    sessionData.modalStartTime = Date.now();
+    sessionData.modalStartTime = this.clock.now();
     this.saveSessionData(sessionData);
+    this.warningShown = true;
 
     if (this.onInactivityWarning) {
       this.onInactivityWarning();
     }
-
-    // Start modal timer for auto-deletion
-    this.modalTimer = setTimeout(() => {
-      this.cleanupData();
-    }, this.MODAL_TIMEOUT);
   }
 
   public extendSession(): void {
     this.updateActivity();
-    const minutes = Math.floor(this.INACTIVITY_TIMEOUT / (60 * 1000));
+    const minutes = this.policy.inactivityMinutes;
     toast.success(
       `Session extended! Your data is safe for another ${minutes} minutes.`
     );
   }
 
-  public async cleanupData(): Promise<void> {
-    if (this.onDataCleanup) {
-      this.onDataCleanup();
+  // Other tabs are told, and the session starts over, only once the data is
+  // gone. If the wipe fails the session is kept, so the next check tries again.
+  public async cleanupData(
+    trigger: RetentionTrigger = "inactivity"
+  ): Promise<void> {
+    this.clearCheckTimer();
+    this.warningShown = false;
+    try {
+      await this.onDataCleanup?.(trigger);
+    } catch (error) {
+      console.error("SessionManager: Data cleanup failed:", error);
+      toast.error("The data could not be cleared. Please try again.");
+      return;
     }
+    this.broadcast({ type: "cleanup" });
 
     // Clear session
     localStorage.removeItem("carbonHubSession");
     this.createNewSession();
 
-    toast.success("All data has been cleared due to inactivity.");
-  }
-
-  private clearModalTimer(): void {
-    if (this.modalTimer) {
-      clearTimeout(this.modalTimer);
-      this.modalTimer = null;
-    }
+    toast.success(
+      trigger === "manual"
+        ? "All data has been cleared."
+        : "All data has been cleared due to inactivity."
+    );
+    this.onDataCleared?.();
   }
 
   private getSessionData(): SessionData {
@@ -172,7 +421,7 @@ class SessionManager {
     }
     return {
       sessionId: this.sessionId,
-      lastActivity: Date.now(),
+      lastActivity: this.clock.now(),
       isModalOpen: false,
     };
   }
@@ -190,38 +439,73 @@ class SessionManager {
     return sessionData.isModalOpen || false;
   }
 
-  public getModalTimeRemaining(): number {
+  // When the data is wiped if the warning goes unanswered
+  public getWarningDeadline(): number {
     const sessionData = this.getSessionData();
-    if (!sessionData.modalStartTime) return 0;
+    return wipeAt(sessionData, this.activePolicy(sessionData));
+  }
 
-    const elapsed = Date.now() - sessionData.modalStartTime;
-    return Math.max(0, this.MODAL_TIMEOUT - elapsed);
+  public getModalTimeRemaining(): number {
+    return Math.max(0, this.getWarningDeadline() - this.clock.now());
   }
 
   // Getter methods for configuration values (useful for UI display)
   public getInactivityTimeout(): number {
-    return this.INACTIVITY_TIMEOUT;
+    return this.policy.inactivityMinutes * 60 * 1000;
   }
 
   public getModalTimeout(): number {
-    return this.MODAL_TIMEOUT;
+    return this.policy.warningMinutes * 60 * 1000;
   }
 
   public setInactivityWarningCallback(callback: () => void): void {
     this.onInactivityWarning = callback;
   }
 
-  public setDataCleanupCallback(callback: () => void): void {
+  // Clears the data. Rejects if it couldn't be cleared.
+  public setDataCleanupCallback(
+    callback: (trigger: RetentionTrigger) => Promise<void> | void
+  ): void {
     this.onDataCleanup = callback;
   }
 
+  // Called in this tab after its cleanup has finished and been announced
+  public setDataClearedCallback(callback: () => void): void {
+    this.onDataCleared = callback;
+  }
+
+  // Called instead of the warning when the policy is lock-only, in every tab
+  public setLockCallback(callback: () => void): void {
+    this.onLock = callback;
+  }
+
+  // Whether there is a PIN or vault to lock the app with. Without one a
+  // lock-only policy warns and deletes the data instead.
+  public setCanLockCallback(callback: () => boolean): void {
+    this.canLock = callback;
+  }
+
+  // Called in the leader tab when activity in another tab ends the warning
+  public setWarningDismissedCallback(callback: () => void): void {
+    this.onWarningDismissed = callback;
+  }
+
+  // Called in the other tabs after one of them has cleared the data
+  public setRemoteCleanupCallback(callback: () => void): void {
+    this.onRemoteCleanup = callback;
+  }
+
   public destroy(): void {
-    if (this.inactivityTimer) {
-      clearTimeout(this.inactivityTimer);
-    }
-    if (this.modalTimer) {
-      clearTimeout(this.modalTimer);
-    }
+    this.clearCheckTimer();
+    this.removeListeners();
+    this.channel?.close();
+    this.channel = null;
+    // Let another tab take over
+    this.leaderRequest?.abort();
+    this.leaderRequest = null;
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.isLeader = false;
   }
 }
 
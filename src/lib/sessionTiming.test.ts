@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { evaluateSession, warningAt, wipeAt } from "./sessionTiming";
+import type { RetentionPolicy } from "./retentionPolicy";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2026, 0, 1, 9, 0, 0);
+
+const autoWipe: RetentionPolicy = {
+  mode: "auto-wipe",
+  inactivityMinutes: 20,
+  warningMinutes: 10,
+  lockedWipeHours: null,
+};
+
+const lockOnly: RetentionPolicy = {
+  mode: "lock-only",
+  inactivityMinutes: 15,
+  warningMinutes: 10,
+  lockedWipeHours: 8,
+};
+
+describe("evaluateSession under auto-wipe", () => {
+  const session = { lastActivity: START };
+
+  it("waits for the warning while the user is active", () => {
+    expect(evaluateSession(session, autoWipe, START + 19 * MINUTE)).toEqual({
+      action: { type: "none" },
+      nextCheckAt: warningAt(session, autoWipe),
+    });
+  });
+
+  it("warns once the inactivity period has passed", () => {
+    const deadline = wipeAt(session, autoWipe);
+    expect(deadline).toBe(START + 30 * MINUTE);
+    expect(evaluateSession(session, autoWipe, START + 20 * MINUTE)).toEqual({
+      action: { type: "warn", wipeAt: deadline },
+      nextCheckAt: deadline,
+    });
+  });
+
+  it("wipes once the warning has run out", () => {
+    expect(
+      evaluateSession(session, autoWipe, START + 30 * MINUTE).action
+    ).toEqual({ type: "wipe" });
+  });
+
+  it("wipes straight away when resuming long after the deadline", () => {
+    // The machine slept through both the warning and the wipe
+    expect(evaluateSession(session, autoWipe, START + 9 * HOUR).action).toEqual(
+      { type: "wipe" }
+    );
+  });
+});
+
+describe("evaluateSession under lock-only", () => {
+  it("locks at the time the inactivity period ended", () => {
+    const session = { lastActivity: START };
+    expect(evaluateSession(session, lockOnly, START + 14 * MINUTE)).toEqual({
+      action: { type: "none" },
+      nextCheckAt: START + 15 * MINUTE,
+    });
+    // Checked late, after sleeping: the lock is back-dated
+    expect(evaluateSession(session, lockOnly, START + 2 * HOUR)).toEqual({
+      action: { type: "lock", lockedAt: START + 15 * MINUTE },
+      nextCheckAt: null,
+    });
+  });
+
+  it("wipes when the locked period runs out", () => {
+    const session = { lastActivity: START, lockedAt: START + 15 * MINUTE };
+    const lockedWipeAt = START + 15 * MINUTE + 8 * HOUR;
+    expect(evaluateSession(session, lockOnly, lockedWipeAt - 1)).toEqual({
+      action: { type: "none" },
+      nextCheckAt: lockedWipeAt,
+    });
+    expect(evaluateSession(session, lockOnly, lockedWipeAt).action).toEqual({
+      type: "wipe",
+    });
+  });
+
+  it("keeps locked data without a locked period", () => {
+    const session = { lastActivity: START, lockedAt: START };
+    expect(
+      evaluateSession(
+        session,
+        { ...lockOnly, lockedWipeHours: null },
+        START + 30 * 24 * HOUR
+      )
+    ).toEqual({ action: { type: "none" }, nextCheckAt: null });
+  });
+});
+
+describe("evaluateSession under persistent", () => {
+  it("never acts", () => {
+    expect(
+      evaluateSession(
+        { lastActivity: START },
+        { ...autoWipe, mode: "persistent" },
+        START + 365 * 24 * HOUR
+      )
+    ).toEqual({ action: { type: "none" }, nextCheckAt: null });
+  });
+});
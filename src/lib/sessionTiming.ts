@@ -0,0 +1,109 @@
+// Session deadlines from stored timestamps
+// Browsers throttle timers in background tabs and stop them while a laptop
+// sleeps, so a timer set for "20 minutes from now" can fire hours late. The
+// session therefore only stores when things happened (last activity, when the
+// app locked) and every deadline is worked out from those against the clock.
+// Timers just say when to look again; waking up late finds the deadline
+// passed and acts on it then.
+
+import type { RetentionPolicy } from "./retentionPolicy";
+
+export type TimerHandle = unknown;
+
+// The source of time and timers. Swapped for a fake clock to step through
+// the session logic without waiting.
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface SessionTimestamps {
+  lastActivity: number;
+  // Set while the app is locked
+  lockedAt?: number;
+}
+
+export type SessionAction =
+  | { type: "none" }
+  // Show the inactivity warning; the data is wiped at wipeAt
+  | { type: "warn"; wipeAt: number }
+  | { type: "wipe" }
+  // Lock the app. lockedAt is when it should have locked, which is earlier
+  // than now if the tab was asleep, so the locked period starts on time.
+  | { type: "lock"; lockedAt: number };
+
+export interface SessionEvaluation {
+  action: SessionAction;
+  // When to evaluate again, or null if nothing is due without activity
+  nextCheckAt: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const NOTHING_DUE: SessionEvaluation = {
+  action: { type: "none" },
+  nextCheckAt: null,
+};
+
+// When the warning is shown under an auto-wipe policy
+export function warningAt(
+  session: SessionTimestamps,
+  policy: RetentionPolicy
+): number {
+  return session.lastActivity + policy.inactivityMinutes * MINUTE_MS;
+}
+
+// When the data is wiped under an auto-wipe policy, unless there is activity
+export function wipeAt(
+  session: SessionTimestamps,
+  policy: RetentionPolicy
+): number {
+  return warningAt(session, policy) + policy.warningMinutes * MINUTE_MS;
+}
+
+// What is due at `now`
+export function evaluateSession(
+  session: SessionTimestamps,
+  policy: RetentionPolicy,
+  now: number
+): SessionEvaluation {
+  if (session.lockedAt !== undefined) {
+    if (policy.mode !== "lock-only" || policy.lockedWipeHours === null) {
+      return NOTHING_DUE;
+    }
+    const lockedWipeAt = session.lockedAt + policy.lockedWipeHours * HOUR_MS;
+    return now >= lockedWipeAt
+      ? { action: { type: "wipe" }, nextCheckAt: null }
+      : { action: { type: "none" }, nextCheckAt: lockedWipeAt };
+  }
+
+  switch (policy.mode) {
+    case "persistent":
+      return NOTHING_DUE;
+    case "lock-only": {
+      const lockAt = session.lastActivity + policy.inactivityMinutes * MINUTE_MS;
+      return now >= lockAt
+        ? { action: { type: "lock", lockedAt: lockAt }, nextCheckAt: null }
+        : { action: { type: "none" }, nextCheckAt: lockAt };
+    }
+    default: {
+      const warnAt = warningAt(session, policy);
+      const deadline = wipeAt(session, policy);
+      if (now >= deadline) {
+        return { action: { type: "wipe" }, nextCheckAt: null };
+      }
+      if (now >= warnAt) {
+        return { action: { type: "warn", wipeAt: deadline }, nextCheckAt: deadline };
+      }
+      return { action: { type: "none" }, nextCheckAt: warnAt };
+    }
+  }
+}
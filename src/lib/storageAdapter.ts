@@ -0,0 +1,255 @@
+// Storage backends
+// IndexedDBService keeps its records in a StorageAdapter. IndexedDB is the
+// normal backend; when the browser won't open it (private mode, blocked
+// storage) the service falls back to an in-memory adapter, which a JSON file
+// can back so the data survives a reload.
+
+import type { MigrationProgress } from "./migrations";
+
+export type StorageKind = "indexeddb" | "memory" | "file";
+
+// Key range over a store's keys or an index's keys. Bounds are inclusive
+// unless marked open; a missing bound is unbounded.
+export interface KeyRange {
+  lower?: IDBValidKey;
+  upper?: IDBValidKey;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
+export interface StoreQuery {
+  // Walk an index instead of the store's own keys
+  index?: string;
+  range?: KeyRange;
+  direction?: "next" | "prev";
+}
+
+// Where a page of results ended: the index key and primary key of its last
+// record
+export interface CursorPosition {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+export interface StoredRecord {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+  value: unknown;
+}
+
+// Operations available inside a transaction. Callers must only await these
+// operations while the transaction runs: IndexedDB commits a transaction as
+// soon as it has nothing left to do.
+export interface StorageTransaction {
+  get(storeName: string, key: IDBValidKey): Promise<unknown>;
+  getAll(storeName: string, query?: StoreQuery): Promise<unknown[]>;
+  count(storeName: string, query?: StoreQuery): Promise<number>;
+  add(storeName: string, value: unknown): Promise<IDBValidKey>;
+  put(storeName: string, value: unknown): Promise<IDBValidKey>;
+  delete(storeName: string, key: IDBValidKey): Promise<void>;
+  clear(storeName: string): Promise<void>;
+  // Visit records in key order, starting after `after` when given. Return
+  // false from `visit` to stop early.
+  iterate(
+    storeName: string,
+    query: StoreQuery & { after?: CursorPosition | null },
+    visit: (record: StoredRecord) => boolean
+  ): Promise<void>;
+}
+
+export interface OpenHandlers {
+  onMigrationProgress?: (progress: MigrationProgress) => void;
+  // The backend was closed from outside (another tab upgrading the
+  // database) and must be opened again before further use
+  onClose?: () => void;
+}
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  open(handlers?: OpenHandlers): Promise<void>;
+  close(): void;
+  storeNames(): string[];
+  // Run `operation` in one transaction over `storeNames`. Everything it
+  // writes is committed together, or nothing is if it throws.
+  transaction<T>(
+    storeNames: string[],
+    mode: "readonly" | "readwrite",
+    operation: (transaction: StorageTransaction) => Promise<T>
+  ): Promise<T>;
+}
+
+// ============================================================================
+// Schema for backends without their own
+// ============================================================================
+
+export interface StoreSchema {
+  keyPath: string;
+  autoIncrement: boolean;
+  indexes: { name: string; keyPath: string | string[]; unique?: boolean }[];
+}
+
+// The stores and indexes the migrations in migrations.ts build, at the latest
+// schema version. IndexedDB gets its schema from the migrations; the memory
+// and file backends start from this. Keep the two in step.
+export const STORE_SCHEMAS: Record<string, StoreSchema> = {
+  reporting_activities: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [
+      { name: "scope", keyPath: "scope" },
+      { name: "category", keyPath: "category" },
+      { name: "location", keyPath: "location" },
+      {
+        name: "scope_category_location",
+        keyPath: ["scope", "category", "location"],
+      },
+      { name: "activityName", keyPath: "activityName" },
+      { name: "reportingPeriodStart", keyPath: "reportingPeriodStart" },
+    ],
+  },
+  emission_factors: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [
+      { name: "scope", keyPath: "scope" },
+      { name: "category", keyPath: "category" },
+      { name: "location", keyPath: "location" },
+      {
+        name: "scope_category_location",
+        keyPath: ["scope", "category", "location"],
+      },
+      { name: "description", keyPath: "description" },
+      { name: "co2ePerUnit", keyPath: "co2ePerUnit" },
+    ],
+  },
+  ghg_reporting_standards: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [{ name: "name", keyPath: "name", unique: true }],
+  },
+  app_meta: { keyPath: "key", autoIncrement: false, indexes: [] },
+  audit_log: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [
+      { name: "record", keyPath: ["storeName", "recordId"] },
+      { name: "timestamp", keyPath: "timestamp" },
+    ],
+  },
+  recycle_bin: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [{ name: "deletedAt", keyPath: "deletedAt" }],
+  },
+  attachments: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [{ name: "owner", keyPath: ["ownerStore", "ownerId"] }],
+  },
+  retention_snapshots: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [{ name: "createdAt", keyPath: "createdAt" }],
+  },
+  retention_log: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [{ name: "timestamp", keyPath: "timestamp" }],
+  },
+  emission_factor_fields: {
+    keyPath: "_id",
+    autoIncrement: false,
+    indexes: [{ name: "key", keyPath: "key", unique: true }],
+  },
+};
+
+// ============================================================================
+// Key helpers
+// ============================================================================
+
+export function onlyKey(key: IDBValidKey): KeyRange {
+  return { lower: key, upper: key };
+}
+
+// Order keys the way IndexedDB does: numbers, then dates, then strings, then
+// binary, then arrays (compared element by element)
+export function compareKeys(a: IDBValidKey, b: IDBValidKey): number {
+  const rankA = keyRank(a);
+  const rankB = keyRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const comparison = compareKeys(a[i], b[i]);
+      if (comparison !== 0) return comparison;
+    }
+    return a.length - b.length;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  // Binary keys: compare byte by byte
+  const bytesA = toBytes(a);
+  const bytesB = toBytes(b);
+  for (let i = 0; i < Math.min(bytesA.length, bytesB.length); i++) {
+    if (bytesA[i] !== bytesB[i]) return bytesA[i] - bytesB[i];
+  }
+  return bytesA.length - bytesB.length;
+}
+
+export function isInRange(key: IDBValidKey, range?: KeyRange): boolean {
+  if (!range) return true;
+  if (range.lower !== undefined) {
+    const comparison = compareKeys(key, range.lower);
+    if (comparison < 0 || (comparison === 0 && range.lowerOpen)) return false;
+  }
+  if (range.upper !== undefined) {
+    const comparison = compareKeys(key, range.upper);
+    if (comparison > 0 || (comparison === 0 && range.upperOpen)) return false;
+  }
+  return true;
+}
+
+// The key a record has under `keyPath`, or undefined when the record has no
+// valid key there (such records are left out of the index, as in IndexedDB)
+export function extractKey(
+  value: unknown,
+  keyPath: string | string[]
+): IDBValidKey | undefined {
+  if (Array.isArray(keyPath)) {
+    const keys = keyPath.map((path) => extractKey(value, path));
+    return keys.every((key) => key !== undefined)
+      ? (keys as IDBValidKey[])
+      : undefined;
+  }
+  const key = (value as Record<string, unknown> | null)?.[keyPath];
+  return isValidKey(key) ? key : undefined;
+}
+
+function isValidKey(key: unknown): key is IDBValidKey {
+  if (typeof key === "number") return !Number.isNaN(key);
+  if (typeof key === "string") return true;
+  if (key instanceof Date) return !Number.isNaN(key.getTime());
+  if (Array.isArray(key)) return key.every(isValidKey);
+  return key instanceof ArrayBuffer || ArrayBuffer.isView(key);
+}
+
+function keyRank(key: IDBValidKey): number {
+  if (typeof key === "number") return 0;
+  if (key instanceof Date) return 1;
+  if (typeof key === "string") return 2;
+  if (Array.isArray(key)) return 4;
+  return 3;
+}
+
+function toBytes(key: IDBValidKey): Uint8Array {
+  if (key instanceof ArrayBuffer) return new Uint8Array(key);
+  const view = key as ArrayBufferView;
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
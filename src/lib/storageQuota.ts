@@ -0,0 +1,116 @@
+// Storage quota and persistence
+// Browsers may evict site data under storage pressure unless the site has been
+// granted persistent storage. These helpers ask for persistence and report how
+// much of the browser's quota the app is using, so the user can be warned
+// before data is lost.
+
+import indexedDBService from "./indexedDB";
+
+export type PersistenceStatus = "persisted" | "denied" | "unsupported";
+
+export interface StorageQuota {
+  // Bytes used by this site, across every kind of storage
+  usage: number;
+  quota: number;
+  // Bytes used by IndexedDB alone, where the browser reports it
+  indexedDBUsage: number | null;
+  nearLimit: boolean;
+}
+
+// Warn once usage passes this share of the quota
+export const QUOTA_WARNING_RATIO = 0.8;
+
+// How long to wait after a change before checking the quota again
+const QUOTA_CHECK_DELAY = 5000;
+
+// Usage details are reported by Chromium only and are not in the DOM typings
+interface DetailedStorageEstimate extends StorageEstimate {
+  usageDetails?: Record<string, number>;
+}
+
+export async function getPersistenceStatus(): Promise<PersistenceStatus> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persisted) {
+    return "unsupported";
+  }
+  return (await navigator.storage.persisted()) ? "persisted" : "denied";
+}
+
+// Ask the browser to keep the data even under storage pressure. Browsers may
+// refuse without asking the user, for example for sites not yet bookmarked.
+export async function requestPersistentStorage(): Promise<PersistenceStatus> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+    return "unsupported";
+  }
+  try {
+    if (await navigator.storage.persisted()) return "persisted";
+    const granted = await navigator.storage.persist();
+    console.log(
+      `StorageQuota: Persistent storage ${granted ? "granted" : "denied"}`
+    );
+    return granted ? "persisted" : "denied";
+  } catch (error) {
+    console.error("StorageQuota: Could not request persistent storage:", error);
+    return "denied";
+  }
+}
+
+export async function getStorageQuota(): Promise<StorageQuota | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const estimate: DetailedStorageEstimate = await navigator.storage.estimate();
+  if (!estimate.quota) return null;
+
+  const usage = estimate.usage ?? 0;
+  return {
+    usage,
+    quota: estimate.quota,
+    indexedDBUsage: estimate.usageDetails?.indexedDB ?? null,
+    nearLimit: usage / estimate.quota >= QUOTA_WARNING_RATIO,
+  };
+}
+
+// Check the quota now and again shortly after data changes, calling
+// `onNearLimit` each time usage crosses the warning threshold
+export function watchStorageQuota(
+  onNearLimit: (quota: StorageQuota) => void
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let warned = false;
+
+  const check = async () => {
+    timer = null;
+    try {
+      const quota = await getStorageQuota();
+      if (!quota) return;
+      if (quota.nearLimit && !warned) {
+        onNearLimit(quota);
+      }
+      warned = quota.nearLimit;
+    } catch (error) {
+      console.error("StorageQuota: Could not estimate storage usage:", error);
+    }
+  };
+
+  check();
+  const unsubscribe = indexedDBService.onDataChange(null, () => {
+    if (!timer) {
+      timer = setTimeout(check, QUOTA_CHECK_DELAY);
+    }
+  });
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 || value >= 100 ? 0 : 1)} ${units[unit]}`;
+}
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import undoManager from "./undoManager";
+
+describe("UndoManager", () => {
+  beforeEach(() => {
+    undoManager.clear();
+  });
+
+  it("keeps a command that fails to undo so it can be tried again", async () => {
+    const undo = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error("Integrity error"))
+      .mockResolvedValue();
+    undoManager.record({ label: "edit", undo, redo: async () => {} });
+
+    await expect(undoManager.undo()).rejects.toThrow("Integrity error");
+    expect(undoManager.getState()).toMatchObject({
+      canUndo: true,
+      canRedo: false,
+      undoLabel: "edit",
+    });
+
+    await expect(undoManager.undo()).resolves.toBe("edit");
+    expect(undo).toHaveBeenCalledTimes(2);
+    expect(undoManager.getState()).toMatchObject({
+      canUndo: false,
+      redoLabel: "edit",
+    });
+  });
+
+  it("keeps a command that fails to redo so it can be tried again", async () => {
+    const redo = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error("Validation error"))
+      .mockResolvedValue();
+    undoManager.record({ label: "edit", undo: async () => {}, redo });
+    await undoManager.undo();
+
+    await expect(undoManager.redo()).rejects.toThrow("Validation error");
+    expect(undoManager.getState()).toMatchObject({
+      canUndo: false,
+      canRedo: true,
+      redoLabel: "edit",
+    });
+
+    await expect(undoManager.redo()).resolves.toBe("edit");
+    expect(undoManager.getState()).toMatchObject({
+      canUndo: true,
+      canRedo: false,
+    });
+  });
+});
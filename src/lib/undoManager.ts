@@ -0,0 +1,150 @@
+// Application-wide undo/redo
+// The data layer records an undoable command for every change it makes to
+// emission factors and reporting activities. Several changes can be grouped
+// into a batch (a CSV import, a bulk delete) that is undone and redone as one
+// step. History is kept in memory only and is lost on reload.
+
+export interface UndoableCommand {
+  // Translation key suffix under `undo.labels`
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const MAX_HISTORY = 100;
+
+class UndoManager {
+  private undoStack: UndoableCommand[] = [];
+  private redoStack: UndoableCommand[] = [];
+  private batch: UndoableCommand[] | null = null;
+  // Set while a command is being undone or redone, so the writes it makes are
+  // not recorded as new commands
+  private applying = false;
+  private listeners = new Set<(state: UndoState) => void>();
+
+  record(command: UndoableCommand): void {
+    if (this.applying) return;
+
+    if (this.batch) {
+      this.batch.push(command);
+      return;
+    }
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  // Run `operation` and record every change it makes as a single command.
+  // Nested batches are folded into the outer one.
+  async runBatch<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    if (this.batch) {
+      return operation();
+    }
+
+    this.batch = [];
+    try {
+      return await operation();
+    } finally {
+      const commands = this.batch;
+      this.batch = null;
+      if (commands.length > 0) {
+        this.record({
+          label,
+          undo: async () => {
+            for (const command of [...commands].reverse()) {
+              await command.undo();
+            }
+          },
+          redo: async () => {
+            for (const command of commands) {
+              await command.redo();
+            }
+          },
+        });
+      }
+    }
+  }
+
+  // Undo the most recent command. Resolves with its label, or null when there
+  // is nothing to undo. A command that fails stays where it was, so it can be
+  // tried again.
+  async undo(): Promise<string | null> {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+
+    this.applying = true;
+    try {
+      await command.undo();
+      this.redoStack.push(command);
+      return command.label;
+    } catch (error) {
+      this.undoStack.push(command);
+      throw error;
+    } finally {
+      this.applying = false;
+      this.notify();
+    }
+  }
+
+  async redo(): Promise<string | null> {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+
+    this.applying = true;
+    try {
+      await command.redo();
+      this.undoStack.push(command);
+      return command.label;
+    } catch (error) {
+      this.redoStack.push(command);
+      throw error;
+    } finally {
+      this.applying = false;
+      this.notify();
+    }
+  }
+
+  // Forget all history, for example after data is replaced wholesale
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  getState(): UndoState {
+    return {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label ?? null,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label ?? null,
+    };
+  }
+
+  onChange(listener: (state: UndoState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+// Create and export singleton instance
+const undoManager = new UndoManager();
+
+export default undoManager;
@@ -0,0 +1,285 @@
+// Passphrase-based encryption at rest ("vault mode")
+// Records are encrypted with AES-GCM using a key derived from the user's
+// passphrase with PBKDF2. The passphrase and derived keys are never stored;
+// only a random salt and an encrypted verifier are kept in the database.
+//
+// Indexed fields (scope, category, location) can't be encrypted without losing
+// the ability to look records up by them, so they are replaced with a keyed
+// blind index: an HMAC of the value under a second key derived from the same
+// passphrase. Equal values still produce equal tokens, which keeps exact-match
+// index lookups working, but the tokens reveal nothing without the passphrase.
+// Range queries and sorting on these fields are not meaningful in vault mode.
+
+export type VaultStatus = "disabled" | "locked" | "unlocked";
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+export interface VaultMeta {
+  key: "vault";
+  salt: string;
+  iterations: number;
+  // A known value encrypted with the vault key, used to check a passphrase
+  verifier: EncryptedPayload;
+  createdAt: string;
+}
+
+// Shape of an encrypted record as it is stored in IndexedDB
+export interface SealedRecord {
+  _id?: IDBValidKey;
+  _vault: EncryptedPayload;
+  [indexedField: string]: unknown;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super("The data vault is locked. Unlock it with your passphrase first.");
+    this.name = "VaultLockedError";
+  }
+}
+
+export class VaultPassphraseError extends Error {
+  constructor() {
+    super("Incorrect passphrase.");
+    this.name = "VaultPassphraseError";
+  }
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = "carbon-hub-vault";
+
+export function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function isSealedRecord(value: unknown): value is SealedRecord {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "_vault" in value &&
+    typeof (value as SealedRecord)._vault?.data === "string"
+  );
+}
+
+// Derive the AES-GCM encryption key and the HMAC blind-index key from a
+// passphrase. 512 bits are derived and split so the two keys are independent.
+export async function deriveKeys(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<{ encryptionKey: CryptoKey; indexKey: CryptoKey }> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+      baseKey,
+      512
+    )
+  );
+
+  const encryptionKey = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(0, 32),
+    { name: "AES-GCM" },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  const indexKey = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(32),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return { encryptionKey, indexKey };
+}
+
+export async function encryptWithKey(
+  key: CryptoKey,
+  value: unknown
+): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+export async function decryptWithKey<T>(
+  key: CryptoKey,
+  payload: EncryptedPayload
+): Promise<T> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+class Vault {
+  private meta: VaultMeta | null = null;
+  private encryptionKey: CryptoKey | null = null;
+  private indexKey: CryptoKey | null = null;
+  private listeners = new Set<(status: VaultStatus) => void>();
+
+  getStatus(): VaultStatus {
+    if (!this.meta) return "disabled";
+    return this.encryptionKey ? "unlocked" : "locked";
+  }
+
+  isEnabled(): boolean {
+    return this.meta !== null;
+  }
+
+  // Load the vault settings read from the database at startup
+  configure(meta: VaultMeta | null): void {
+    this.meta = meta;
+    this.encryptionKey = null;
+    this.indexKey = null;
+    this.notify();
+  }
+
+  // Set up a new vault and unlock it. Returns the metadata the caller must
+  // persist alongside the re-encrypted records.
+  async create(passphrase: string): Promise<VaultMeta> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(
+        `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`
+      );
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const keys = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+    const meta: VaultMeta = {
+      key: "vault",
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptWithKey(keys.encryptionKey, VERIFIER_TEXT),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.meta = meta;
+    this.encryptionKey = keys.encryptionKey;
+    this.indexKey = keys.indexKey;
+    this.notify();
+    return meta;
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.meta) return;
+
+    const keys = await deriveKeys(
+      passphrase,
+      fromBase64(this.meta.salt),
+      this.meta.iterations
+    );
+    try {
+      const verifier = await decryptWithKey<string>(
+        keys.encryptionKey,
+        this.meta.verifier
+      );
+      if (verifier !== VERIFIER_TEXT) throw new VaultPassphraseError();
+    } catch {
+      // AES-GCM decryption fails outright when the key is wrong
+      throw new VaultPassphraseError();
+    }
+
+    this.encryptionKey = keys.encryptionKey;
+    this.indexKey = keys.indexKey;
+    this.notify();
+  }
+
+  // Forget the derived keys. Encrypted records stay unreadable until unlock.
+  lock(): void {
+    if (!this.encryptionKey) return;
+    this.encryptionKey = null;
+    this.indexKey = null;
+    this.notify();
+  }
+
+  async blindIndex(value: string): Promise<string> {
+    if (!this.indexKey) throw new VaultLockedError();
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      this.indexKey,
+      new TextEncoder().encode(value)
+    );
+    // 128 bits is plenty to keep distinct values from colliding
+    return toBase64(new Uint8Array(signature).slice(0, 16));
+  }
+
+  // Encrypt a record, replacing its indexed fields with blind-index tokens.
+  // The key (_id) stays in the clear so IndexedDB can address the record.
+  async seal<T extends { _id?: IDBValidKey }>(
+    record: T,
+    indexedFields: string[]
+  ): Promise<SealedRecord> {
+    if (!this.encryptionKey) throw new VaultLockedError();
+
+    const { _id, ...rest } = record;
+    const sealed: SealedRecord = {
+      _vault: await encryptWithKey(this.encryptionKey, rest),
+    };
+    if (_id !== undefined) {
+      sealed._id = _id;
+    }
+    for (const field of indexedFields) {
+      const value = (rest as Record<string, unknown>)[field];
+      if (typeof value === "string") {
+        sealed[field] = await this.blindIndex(value);
+      }
+    }
+    return sealed;
+  }
+
+  async open<T>(sealed: SealedRecord): Promise<T> {
+    if (!this.encryptionKey) throw new VaultLockedError();
+    const record = await decryptWithKey<Record<string, unknown>>(
+      this.encryptionKey,
+      sealed._vault
+    );
+    return { ...record, _id: sealed._id } as T;
+  }
+
+  onStatusChange(listener: (status: VaultStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+// Create and export singleton instance
+const vault = new Vault();
+
+export default vault;
+export { Vault };
@@ -0,0 +1,151 @@
+// Workspace registry
+// A workspace is a separate inventory (for example one per client company).
+// Each workspace has its own IndexedDB database and its own dashboard layout;
+// the list of workspaces and the active one are kept in localStorage.
+// The default workspace uses the original database and storage key names so
+// data created before workspaces existed shows up there unchanged.
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+interface WorkspaceRegistry {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+const STORAGE_KEY = "carbon-hub-workspaces";
+const DEFAULT_WORKSPACE_ID = "default";
+const BASE_DATABASE_NAME = "CarbonHubDB";
+const BASE_CHARTS_KEY = "carbon-hub-charts";
+
+function createDefaultRegistry(): WorkspaceRegistry {
+  return {
+    activeId: DEFAULT_WORKSPACE_ID,
+    workspaces: [
+      {
+        id: DEFAULT_WORKSPACE_ID,
+        name: "My Workspace",
+        createdAt: new Date().toISOString(),
+      },
+    ],
+  };
+}
+
+class WorkspaceManager {
+  private loadRegistry(): WorkspaceRegistry {
+    if (typeof window === "undefined") {
+      return createDefaultRegistry();
+    }
+
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const registry = JSON.parse(saved) as WorkspaceRegistry;
+        if (
+          Array.isArray(registry.workspaces) &&
+          registry.workspaces.length > 0
+        ) {
+          return registry;
+        }
+      }
+    } catch (error) {
+      console.error("Error loading workspaces:", error);
+    }
+    return createDefaultRegistry();
+  }
+
+  private saveRegistry(registry: WorkspaceRegistry): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+  }
+
+  private normalizeName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Workspace name is required.");
+    }
+    return trimmed;
+  }
+
+  getWorkspaces(): Workspace[] {
+    return this.loadRegistry().workspaces;
+  }
+
+  getWorkspace(id: string): Workspace | null {
+    return this.getWorkspaces().find((w) => w.id === id) || null;
+  }
+
+  getActiveWorkspace(): Workspace {
+    const registry = this.loadRegistry();
+    return (
+      registry.workspaces.find((w) => w.id === registry.activeId) ||
+      registry.workspaces[0]
+    );
+  }
+
+  // The page must be reloaded afterwards so the database service reconnects
+  setActiveWorkspace(id: string): void {
+    const registry = this.loadRegistry();
+    if (!registry.workspaces.some((w) => w.id === id)) {
+      throw new Error(`Workspace ${id} does not exist.`);
+    }
+    this.saveRegistry({ ...registry, activeId: id });
+  }
+
+  createWorkspace(name: string): Workspace {
+    const registry = this.loadRegistry();
+    const workspace: Workspace = {
+      id: crypto.randomUUID(),
+      name: this.normalizeName(name),
+      createdAt: new Date().toISOString(),
+    };
+    this.saveRegistry({
+      ...registry,
+      workspaces: [...registry.workspaces, workspace],
+    });
+    return workspace;
+  }
+
+  renameWorkspace(id: string, name: string): void {
+    const registry = this.loadRegistry();
+    const normalized = this.normalizeName(name);
+    this.saveRegistry({
+      ...registry,
+      workspaces: registry.workspaces.map((w) =>
+        w.id === id ? { ...w, name: normalized } : w
+      ),
+    });
+  }
+
+  // Remove a workspace from the registry. Deleting its database is up to the
+  // caller (see IndexedDBService.deleteWorkspace).
+  removeWorkspace(id: string): void {
+    const registry = this.loadRegistry();
+    if (registry.activeId === id) {
+      throw new Error("The active workspace cannot be deleted.");
+    }
+    this.saveRegistry({
+      ...registry,
+      workspaces: registry.workspaces.filter((w) => w.id !== id),
+    });
+  }
+
+  getDatabaseName(id: string = this.getActiveWorkspace().id): string {
+    return id === DEFAULT_WORKSPACE_ID
+      ? BASE_DATABASE_NAME
+      : `${BASE_DATABASE_NAME}-${id}`;
+  }
+
+  getChartsStorageKey(id: string = this.getActiveWorkspace().id): string {
+    return id === DEFAULT_WORKSPACE_ID
+      ? BASE_CHARTS_KEY
+      : `${BASE_CHARTS_KEY}-${id}`;
+  }
+}
+
+// Create and export singleton instance
+const workspaceManager = new WorkspaceManager();
+
+export default workspaceManager;